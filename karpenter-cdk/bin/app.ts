@@ -2,18 +2,19 @@
 import 'source-map-support/register';
 import * as cdk from 'aws-cdk-lib';
 import { MainStack } from '../lib/main-stack';
+import { loadEnvironments } from '../lib/environment-config';
 
 const app = new cdk.App();
 
-new MainStack(app, 'KarpenterEksStack', {
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT,
-    region: process.env.CDK_DEFAULT_REGION || 'us-west-2',
-  },
-  description: 'EKS cluster with Karpenter 1.6.1 for autoscaling',
-  tags: {
-    Project: 'Karpenter-Demo',
-    Environment: 'Development',
-    ManagedBy: 'CDK',
-  },
-});
\ No newline at end of file
+// Select an environment with `-c environment=<name>`; without it every environment is synthesized
+for (const config of loadEnvironments(app)) {
+  new MainStack(app, config.stackName, {
+    env: {
+      account: config.account ?? process.env.CDK_DEFAULT_ACCOUNT,
+      region: config.region ?? process.env.CDK_DEFAULT_REGION ?? 'us-west-2',
+    },
+    description: `EKS cluster with Karpenter for autoscaling (${config.name})`,
+    tags: config.tags,
+    config,
+  });
+}
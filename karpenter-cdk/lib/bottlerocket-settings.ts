@@ -0,0 +1,612 @@
+/**
+ * Bottlerocket `settings.kubernetes`
+ */
+export interface BottlerocketKubernetesSettings {
+  /**
+   * Name of the EKS cluster
+   */
+  clusterName?: string;
+
+  /**
+   * Cluster API server endpoint
+   */
+  apiServer?: string;
+
+  /**
+   * Base64 encoded cluster certificate authority data
+   */
+  clusterCertificate?: string;
+
+  /**
+   * IP address of the cluster DNS service
+   */
+  clusterDnsIp?: string;
+
+  /**
+   * Maximum number of pods per node
+   */
+  maxPods?: number;
+
+  /**
+   * Labels registered with the node
+   */
+  nodeLabels?: Record<string, string>;
+
+  /**
+   * Taints registered with the node, as `key -> ['value:Effect']`
+   */
+  nodeTaints?: Record<string, string[]>;
+}
+
+/**
+ * Bottlerocket `settings.container-runtime`
+ */
+export interface BottlerocketContainerRuntimeSettings {
+  /**
+   * Maximum log line size in bytes before containerd splits it
+   */
+  maxContainerLogLineSize?: number;
+
+  /**
+   * Maximum number of concurrent layer downloads
+   */
+  maxConcurrentDownloads?: number;
+
+  /**
+   * Allow unprivileged containers to bind ports below 1024
+   */
+  enableUnprivilegedPorts?: boolean;
+
+  /**
+   * Allow unprivileged containers to open ICMP sockets
+   */
+  enableUnprivilegedIcmp?: boolean;
+}
+
+/**
+ * Mirror endpoints for a container registry
+ */
+export interface BottlerocketRegistryMirror {
+  /**
+   * Registry host being mirrored, e.g. `docker.io`
+   */
+  registry: string;
+
+  /**
+   * Mirror endpoints, tried in order
+   */
+  endpoints: string[];
+}
+
+/**
+ * Credentials for a container registry
+ */
+export interface BottlerocketRegistryCredential {
+  /**
+   * Registry host the credentials apply to
+   */
+  registry: string;
+
+  /**
+   * Base64 encoded `username:password`
+   */
+  auth?: string;
+
+  /**
+   * Registry username
+   */
+  username?: string;
+
+  /**
+   * Registry password
+   */
+  password?: string;
+
+  /**
+   * Registry identity token
+   */
+  identityToken?: string;
+}
+
+/**
+ * Bottlerocket `settings.container-registry`
+ */
+export interface BottlerocketContainerRegistrySettings {
+  /**
+   * Registry mirrors, at most one entry per registry
+   */
+  mirrors?: BottlerocketRegistryMirror[];
+
+  /**
+   * Registry credentials, at most one entry per registry
+   */
+  credentials?: BottlerocketRegistryCredential[];
+}
+
+/**
+ * Bottlerocket `settings.network`
+ */
+export interface BottlerocketNetworkSettings {
+  /**
+   * HTTPS proxy used by containerd and the kubelet
+   */
+  httpsProxy?: string;
+
+  /**
+   * Hosts and CIDRs that bypass the proxy
+   */
+  noProxy?: string[];
+
+  /**
+   * Hostname of the node
+   */
+  hostname?: string;
+}
+
+/**
+ * Bottlerocket host container, e.g. `settings.host-containers.admin`
+ */
+export interface BottlerocketHostContainer {
+  /**
+   * Run the host container
+   */
+  enabled?: boolean;
+
+  /**
+   * Run the host container with elevated privileges
+   */
+  superpowered?: boolean;
+
+  /**
+   * Container image of the host container
+   */
+  source?: string;
+
+  /**
+   * Base64 encoded user data passed to the host container
+   */
+  userData?: string;
+}
+
+/**
+ * Bottlerocket bootstrap container, e.g. `settings.bootstrap-containers.setup`
+ */
+export interface BottlerocketBootstrapContainer {
+  /**
+   * Container image of the bootstrap container
+   */
+  source?: string;
+
+  /**
+   * When the bootstrap container runs
+   */
+  mode?: 'always' | 'once' | 'off';
+
+  /**
+   * Fail the boot if the bootstrap container fails
+   */
+  essential?: boolean;
+
+  /**
+   * Base64 encoded user data passed to the bootstrap container
+   */
+  userData?: string;
+}
+
+/**
+ * Bottlerocket `settings.kernel`
+ */
+export interface BottlerocketKernelSettings {
+  /**
+   * Kernel lockdown mode
+   */
+  lockdown?: 'none' | 'integrity' | 'confidentiality';
+
+  /**
+   * Kernel parameters set at boot
+   */
+  sysctl?: Record<string, string>;
+}
+
+/**
+ * Typed subset of the Bottlerocket settings API
+ */
+export interface BottlerocketSettingsProps {
+  kubernetes?: BottlerocketKubernetesSettings;
+  containerRuntime?: BottlerocketContainerRuntimeSettings;
+  containerRegistry?: BottlerocketContainerRegistrySettings;
+  network?: BottlerocketNetworkSettings;
+  hostContainers?: Record<string, BottlerocketHostContainer>;
+  kernel?: BottlerocketKernelSettings;
+  bootstrapContainers?: Record<string, BottlerocketBootstrapContainer>;
+}
+
+type ValueType = 'string' | 'number' | 'boolean' | 'list' | 'map' | 'listMap';
+
+interface Field {
+  /** TOML key of the field */
+  key: string;
+  schema: Schema;
+}
+
+type Schema =
+  | { type: ValueType }
+  | { type: 'table'; fields: Record<string, Field> }
+  | { type: 'namedTables'; fields: Record<string, Field> }
+  | { type: 'tableArray'; id: string; fields: Record<string, Field> };
+
+const field = (key: string, schema: Schema | ValueType): Field => ({
+  key,
+  schema: typeof schema === 'string' ? { type: schema } : schema,
+});
+
+const SETTINGS: Schema = {
+  type: 'table',
+  fields: {
+    kubernetes: field('kubernetes', {
+      type: 'table',
+      fields: {
+        clusterName: field('cluster-name', 'string'),
+        apiServer: field('api-server', 'string'),
+        clusterCertificate: field('cluster-certificate', 'string'),
+        clusterDnsIp: field('cluster-dns-ip', 'string'),
+        maxPods: field('max-pods', 'number'),
+        nodeLabels: field('node-labels', 'map'),
+        nodeTaints: field('node-taints', 'listMap'),
+      },
+    }),
+    containerRuntime: field('container-runtime', {
+      type: 'table',
+      fields: {
+        maxContainerLogLineSize: field('max-container-log-line-size', 'number'),
+        maxConcurrentDownloads: field('max-concurrent-downloads', 'number'),
+        enableUnprivilegedPorts: field('enable-unprivileged-ports', 'boolean'),
+        enableUnprivilegedIcmp: field('enable-unprivileged-icmp', 'boolean'),
+      },
+    }),
+    containerRegistry: field('container-registry', {
+      type: 'table',
+      fields: {
+        mirrors: field('mirrors', {
+          type: 'tableArray',
+          id: 'registry',
+          fields: {
+            registry: field('registry', 'string'),
+            endpoints: field('endpoint', 'list'),
+          },
+        }),
+        credentials: field('credentials', {
+          type: 'tableArray',
+          id: 'registry',
+          fields: {
+            registry: field('registry', 'string'),
+            auth: field('auth', 'string'),
+            username: field('username', 'string'),
+            password: field('password', 'string'),
+            identityToken: field('identitytoken', 'string'),
+          },
+        }),
+      },
+    }),
+    network: field('network', {
+      type: 'table',
+      fields: {
+        httpsProxy: field('https-proxy', 'string'),
+        noProxy: field('no-proxy', 'list'),
+        hostname: field('hostname', 'string'),
+      },
+    }),
+    hostContainers: field('host-containers', {
+      type: 'namedTables',
+      fields: {
+        enabled: field('enabled', 'boolean'),
+        superpowered: field('superpowered', 'boolean'),
+        source: field('source', 'string'),
+        userData: field('user-data', 'string'),
+      },
+    }),
+    kernel: field('kernel', {
+      type: 'table',
+      fields: {
+        lockdown: field('lockdown', 'string'),
+        sysctl: field('sysctl', 'map'),
+      },
+    }),
+    bootstrapContainers: field('bootstrap-containers', {
+      type: 'namedTables',
+      fields: {
+        source: field('source', 'string'),
+        mode: field('mode', 'string'),
+        essential: field('essential', 'boolean'),
+        userData: field('user-data', 'string'),
+      },
+    }),
+  },
+};
+
+/**
+ * Bottlerocket user data builder
+ * Validates settings against a typed schema and renders them as TOML
+ */
+export class BottlerocketSettings {
+  /**
+   * Deep-merges `overrides` into `base`; scalar and list values in `overrides` win
+   */
+  public static merge(base: BottlerocketSettingsProps, overrides: BottlerocketSettingsProps): BottlerocketSettingsProps {
+    validate(SETTINGS, base, 'settings');
+    validate(SETTINGS, overrides, 'settings');
+    return mergeValue(SETTINGS, base, overrides, 'settings');
+  }
+
+  public readonly props: BottlerocketSettingsProps;
+
+  constructor(props: BottlerocketSettingsProps) {
+    validate(SETTINGS, props, 'settings');
+    checkConflicts(props);
+    this.props = props;
+  }
+
+  /**
+   * Returns new settings with `overrides` deep-merged on top of these
+   */
+  public with(overrides: BottlerocketSettingsProps): BottlerocketSettings {
+    return new BottlerocketSettings(BottlerocketSettings.merge(this.props, overrides));
+  }
+
+  /**
+   * Renders the settings as Bottlerocket TOML user data
+   */
+  public render(): string {
+    const lines: string[] = [];
+    renderTable(SETTINGS, this.props, ['settings'], lines);
+    return lines.join('\n').trim() + '\n';
+  }
+}
+
+function isTable(schema: Schema): schema is Extract<Schema, { fields: Record<string, Field> }> {
+  return 'fields' in schema;
+}
+
+function fieldsOf(schema: Schema): Record<string, Field> {
+  return isTable(schema) ? schema.fields : {};
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validate(schema: Schema, value: any, path: string): void {
+  if (value === undefined) {
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      if (typeof value !== schema.type) {
+        throw new Error(`Bottlerocket setting '${path}' must be a ${schema.type}`);
+      }
+      return;
+    case 'list':
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+        throw new Error(`Bottlerocket setting '${path}' must be a list of strings`);
+      }
+      return;
+    case 'map':
+    case 'listMap':
+      if (!isPlainObject(value)) {
+        throw new Error(`Bottlerocket setting '${path}' must be a table`);
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        validate({ type: schema.type === 'map' ? 'string' : 'list' }, entry, `${path}."${key}"`);
+      }
+      return;
+    case 'table':
+      if (!isPlainObject(value)) {
+        throw new Error(`Bottlerocket setting '${path}' must be a table`);
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        const child = schema.fields[key];
+        if (!child) {
+          throw new Error(`Unknown Bottlerocket setting '${path}.${key}'`);
+        }
+        validate(child.schema, entry, `${path}.${child.key}`);
+      }
+      return;
+    case 'namedTables':
+      if (!isPlainObject(value)) {
+        throw new Error(`Bottlerocket setting '${path}' must be a table`);
+      }
+      for (const [name, entry] of Object.entries(value)) {
+        validate({ type: 'table', fields: schema.fields }, entry, `${path}.${name}`);
+      }
+      return;
+    case 'tableArray': {
+      if (!Array.isArray(value)) {
+        throw new Error(`Bottlerocket setting '${path}' must be a list of tables`);
+      }
+      const seen = new Set<string>();
+      value.forEach((entry, index) => {
+        validate({ type: 'table', fields: schema.fields }, entry, `${path}[${index}]`);
+        const id = entry[schema.id];
+        if (typeof id !== 'string') {
+          throw new Error(`Bottlerocket setting '${path}[${index}]' is missing '${schema.id}'`);
+        }
+        if (seen.has(id)) {
+          throw new Error(`Bottlerocket setting '${path}' lists '${id}' more than once`);
+        }
+        seen.add(id);
+      });
+      return;
+    }
+  }
+}
+
+function checkConflicts(props: BottlerocketSettingsProps): void {
+  for (const credential of props.containerRegistry?.credentials ?? []) {
+    if (credential.auth !== undefined && (credential.username !== undefined || credential.password !== undefined)) {
+      throw new Error(`Bottlerocket credentials for '${credential.registry}' set both 'auth' and 'username'/'password'`);
+    }
+  }
+
+  for (const [key, values] of Object.entries(props.kubernetes?.nodeTaints ?? {})) {
+    const effects = values.map(value => value.split(':').pop());
+    if (new Set(effects).size !== effects.length) {
+      throw new Error(`Bottlerocket node taint '${key}' sets the same effect more than once`);
+    }
+  }
+
+  const hostContainers = props.hostContainers ?? {};
+  const bootstrapContainers = props.bootstrapContainers ?? {};
+  for (const name of Object.keys(hostContainers)) {
+    if (name in bootstrapContainers) {
+      throw new Error(`Bottlerocket container '${name}' is defined as both a host and a bootstrap container`);
+    }
+  }
+}
+
+function mergeValue(schema: Schema, base: any, overrides: any, path: string): any {
+  if (overrides === undefined) {
+    return base;
+  }
+  if (base === undefined) {
+    return overrides;
+  }
+
+  switch (schema.type) {
+    case 'map':
+    case 'listMap':
+      return { ...base, ...overrides };
+    case 'table': {
+      const merged: Record<string, any> = {};
+      for (const [key, child] of Object.entries(schema.fields)) {
+        const value = mergeValue(child.schema, base[key], overrides[key], `${path}.${child.key}`);
+        if (value !== undefined) {
+          merged[key] = value;
+        }
+      }
+      return merged;
+    }
+    case 'namedTables': {
+      const merged: Record<string, any> = { ...base };
+      for (const [name, entry] of Object.entries(overrides)) {
+        merged[name] = mergeValue({ type: 'table', fields: schema.fields }, base[name], entry, `${path}.${name}`);
+      }
+      return merged;
+    }
+    case 'tableArray': {
+      const merged = [...base];
+      for (const entry of overrides) {
+        const index = merged.findIndex(existing => existing[schema.id] === entry[schema.id]);
+        if (index === -1) {
+          merged.push(entry);
+        } else {
+          merged[index] = mergeValue({ type: 'table', fields: schema.fields }, merged[index], entry, `${path}[${index}]`);
+        }
+      }
+      return merged;
+    }
+    default:
+      return overrides;
+  }
+}
+
+function renderTable(schema: Schema, value: Record<string, any>, path: string[], lines: string[]): void {
+  if (!isTable(schema)) {
+    return;
+  }
+
+  const assignments: string[] = [];
+  const nested: Array<() => void> = [];
+
+  for (const [key, child] of Object.entries(schema.fields)) {
+    const entry = value[key];
+    if (entry === undefined) {
+      continue;
+    }
+    const childPath = [...path, child.key];
+
+    switch (child.schema.type) {
+      case 'map':
+      case 'listMap':
+        nested.push(() => {
+          lines.push('', header(childPath));
+          for (const [mapKey, mapValue] of Object.entries(entry)) {
+            lines.push(`${tomlKey(mapKey)} = ${tomlValue(mapValue)}`);
+          }
+        });
+        break;
+      case 'table':
+        nested.push(() => renderTable(child.schema, entry, childPath, lines));
+        break;
+      case 'namedTables':
+        nested.push(() => {
+          for (const [name, table] of Object.entries<Record<string, any>>(entry)) {
+            renderTable({ type: 'table', fields: fieldsOf(child.schema) }, table, [...childPath, name], lines);
+          }
+        });
+        break;
+      case 'tableArray':
+        nested.push(() => {
+          for (const table of entry as Record<string, any>[]) {
+            lines.push('', `[${header(childPath)}]`);
+            renderAssignments(fieldsOf(child.schema), table, lines);
+          }
+        });
+        break;
+      default:
+        assignments.push(`${tomlKey(child.key)} = ${tomlValue(entry)}`);
+    }
+  }
+
+  if (assignments.length > 0) {
+    lines.push('', header(path), ...assignments);
+  }
+  nested.forEach(render => render());
+}
+
+function renderAssignments(fields: Record<string, Field>, value: Record<string, any>, lines: string[]): void {
+  for (const [key, child] of Object.entries(fields)) {
+    if (value[key] !== undefined) {
+      lines.push(`${tomlKey(child.key)} = ${tomlValue(value[key])}`);
+    }
+  }
+}
+
+function header(path: string[]): string {
+  return `[${path.map(tomlKey).join('.')}]`;
+}
+
+function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : tomlString(key);
+}
+
+function tomlValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(tomlValue).join(', ')}]`;
+  }
+  if (typeof value === 'string') {
+    return tomlString(value);
+  }
+  if (typeof value === 'number' && !Number.isInteger(value)) {
+    throw new Error(`Bottlerocket settings only accept integer numbers, got ${value}`);
+  }
+  return String(value);
+}
+
+function tomlString(value: string): string {
+  const escaped = value.replace(/[\\"\u0000-\u001f\u007f]/g, char => {
+    switch (char) {
+      case '\\': return '\\\\';
+      case '"': return '\\"';
+      case '\b': return '\\b';
+      case '\t': return '\\t';
+      case '\n': return '\\n';
+      case '\f': return '\\f';
+      case '\r': return '\\r';
+      default: return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    }
+  });
+  return `"${escaped}"`;
+}
@@ -0,0 +1,117 @@
+import { Construct } from 'constructs';
+import { KarpenterNodePool, KarpenterNodePoolProps, NodePoolLimits } from './karpenter-node-pool';
+import { TopologySpreadConstraint } from './kubernetes-types';
+
+/**
+ * How a NodePool mixes spot and on-demand capacity
+ *
+ * - `mixed`: one pool offering both capacity types; Karpenter picks the cheapest
+ * - `spot-first`: a weighted spot pool and a lower-weight on-demand pool it falls back to
+ * - `on-demand`: one on-demand pool
+ */
+export type CapacityStrategy = 'mixed' | 'spot-first' | 'on-demand';
+
+/**
+ * Settings of one pool of a capacity strategy
+ */
+export interface CapacityPoolOptions {
+  /**
+   * Priority of the pool; Karpenter tries pools with higher weights first
+   * @default 100 for spot and 10 for on-demand
+   */
+  weight?: number;
+
+  /**
+   * Resource limits of the pool
+   * @default - the shared limits
+   */
+  limits?: NodePoolLimits;
+}
+
+export interface CapacityNodePoolsProps extends Omit<KarpenterNodePoolProps, 'weight'> {
+  /**
+   * Capacity strategy
+   * @default 'spot-first'
+   */
+  strategy?: CapacityStrategy;
+
+  /**
+   * Capacity types of a `mixed` pool
+   * @default ['spot', 'on-demand']
+   */
+  capacityTypes?: Array<'spot' | 'on-demand'>;
+
+  /**
+   * Spot pool settings of the `spot-first` strategy
+   */
+  spot?: CapacityPoolOptions;
+
+  /**
+   * On-demand pool settings of the `spot-first` and `on-demand` strategies
+   */
+  onDemand?: CapacityPoolOptions;
+}
+
+const CAPACITY_TYPE = 'karpenter.sh/capacity-type';
+
+/**
+ * Creates the NodePools of a capacity strategy, primary pool first
+ *
+ * The primary pool keeps `id` and `nodePoolName`; the `spot-first` fallback pool is created as
+ * `<id>OnDemand` named `<nodePoolName>-on-demand`.
+ */
+export function createCapacityNodePools(scope: Construct, id: string, props: CapacityNodePoolsProps): KarpenterNodePool[] {
+  const { strategy = 'spot-first', capacityTypes, spot = {}, onDemand = {}, ...pool } = props;
+  if (pool.requirements.some(requirement => requirement.key === CAPACITY_TYPE)) {
+    throw new Error(`${scope.node.path}/${id}: requirements must not set ${CAPACITY_TYPE}; it is derived from the capacity strategy`);
+  }
+  if (capacityTypes && strategy !== 'mixed') {
+    throw new Error(`${scope.node.path}/${id}: capacityTypes only apply to the mixed strategy, got ${strategy}`);
+  }
+  for (const [name, options] of [['spot', spot], ['onDemand', onDemand]] as const) {
+    if (options.weight !== undefined && (!Number.isInteger(options.weight) || options.weight < 1 || options.weight > 100)) {
+      throw new Error(`${scope.node.path}/${id}: ${name}.weight must be an integer between 1 and 100, got ${options.weight}`);
+    }
+  }
+
+  const capacityPool = (poolId: string, nodePoolName: string, types: string[], options?: CapacityPoolOptions) =>
+    new KarpenterNodePool(scope, poolId, {
+      ...pool,
+      nodePoolName,
+      requirements: [
+        ...pool.requirements,
+        {
+          key: CAPACITY_TYPE,
+          operator: 'In',
+          values: types,
+        },
+      ],
+      limits: options?.limits ?? pool.limits,
+      weight: options?.weight,
+    });
+
+  switch (strategy) {
+    case 'mixed':
+      return [capacityPool(id, pool.nodePoolName, capacityTypes ?? ['spot', 'on-demand'])];
+    case 'on-demand':
+      return [capacityPool(id, pool.nodePoolName, ['on-demand'], onDemand)];
+    case 'spot-first':
+      return [
+        capacityPool(id, pool.nodePoolName, ['spot'], { weight: 100, ...spot }),
+        capacityPool(`${id}OnDemand`, `${pool.nodePoolName}-on-demand`, ['on-demand'], { weight: 10, ...onDemand }),
+      ];
+  }
+}
+
+/**
+ * Returns a constraint that spreads the selected pods across spot and on-demand nodes,
+ * keeping an on-demand baseline of roughly half the pods less `maxSkew`
+ */
+export function capacitySpreadConstraint(matchLabels: Record<string, string>, maxSkew = 1): TopologySpreadConstraint {
+  return {
+    maxSkew,
+    topologyKey: CAPACITY_TYPE,
+    whenUnsatisfiable: 'DoNotSchedule',
+    labelSelector: { matchLabels },
+  };
+}
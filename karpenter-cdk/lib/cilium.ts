@@ -0,0 +1,203 @@
+import * as cdk from 'aws-cdk-lib';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct, IConstruct } from 'constructs';
+import { BottlerocketSettingsProps } from './bottlerocket-settings';
+import { KarpenterNodePool } from './karpenter-node-pool';
+import { Taint } from './kubernetes-types';
+import { CredentialMode, createWorkloadIdentity, IWorkloadIdentity } from './workload-identity';
+
+/**
+ * CNI plugin of the cluster
+ */
+export type ClusterCni = 'aws-vpc-cni' | 'cilium';
+
+export interface CiliumProps {
+  /**
+   * The EKS cluster Cilium is installed into
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * Cilium chart version
+   * @default '1.16.5'
+   */
+  version?: string;
+
+  /**
+   * How the Cilium operator obtains AWS credentials
+   * @default CredentialMode.IRSA
+   */
+  credentialMode?: CredentialMode;
+
+  /**
+   * Install Hubble and the Hubble relay
+   * @default true
+   */
+  hubble?: boolean;
+
+  /**
+   * Registry serving the Cilium images in place of quay.io, e.g. an ECR pull-through cache
+   * @default - quay.io
+   */
+  imageRegistry?: string;
+
+  /**
+   * Additional chart values; top-level keys replace the typed values
+   */
+  values?: Record<string, any>;
+}
+
+/**
+ * Node label that keeps the disabled aws-node and kube-proxy DaemonSets off every node
+ */
+const DISABLED_NODE_SELECTOR = 'io.cilium/aws-node-enabled';
+
+/**
+ * CDK Construct for Cilium in ENI mode
+ * Replaces the VPC CNI and kube-proxy with Cilium's eBPF datapath and lets its operator manage ENIs
+ */
+export class Cilium extends Construct {
+  public static readonly DEFAULT_VERSION = '1.16.5';
+
+  /**
+   * Taint removed by the Cilium agent once it is ready, so pods never start without networking
+   */
+  public static readonly STARTUP_TAINT: Taint = {
+    key: 'node.cilium.io/agent-not-ready',
+    value: 'true',
+    effect: 'NoExecute',
+  };
+
+  /**
+   * Bottlerocket settings of nodes running the Cilium datapath
+   */
+  public static readonly BOTTLEROCKET_SETTINGS: BottlerocketSettingsProps = {
+    kernel: {
+      sysctl: {
+        'net.ipv4.ip_forward': '1',
+        'net.core.bpf_jit_enable': '1',
+      },
+    },
+  };
+
+  public readonly operatorIdentity: IWorkloadIdentity;
+  public readonly chart: eks.HelmChart;
+
+  constructor(scope: Construct, id: string, props: CiliumProps) {
+    super(scope, id);
+
+    const { cluster } = props;
+
+    // Keep aws-node and kube-proxy off every node; restored when Cilium is removed
+    const disabled = ['aws-node', 'kube-proxy'].map(daemonSet => new eks.KubernetesPatch(this, `Disable-${daemonSet}`, {
+      cluster,
+      resourceName: `daemonset/${daemonSet}`,
+      resourceNamespace: 'kube-system',
+      applyPatch: { spec: { template: { spec: { nodeSelector: { [DISABLED_NODE_SELECTOR]: 'true' } } } } },
+      restorePatch: { spec: { template: { spec: { nodeSelector: { [DISABLED_NODE_SELECTOR]: null } } } } },
+    }));
+
+    // Create operator identity with the ENI permissions of ENI IPAM mode
+    this.operatorIdentity = createWorkloadIdentity(this, 'OperatorServiceAccount', props.credentialMode ?? CredentialMode.IRSA, {
+      cluster,
+      namespace: 'kube-system',
+      serviceAccountName: 'cilium-operator',
+      description: `IAM Role for the Cilium operator in cluster ${cluster.clusterName}`,
+      policyStatements: [
+        new iam.PolicyStatement({
+          actions: [
+            'ec2:DescribeNetworkInterfaces',
+            'ec2:DescribeSubnets',
+            'ec2:DescribeVpcs',
+            'ec2:DescribeSecurityGroups',
+            'ec2:DescribeInstances',
+            'ec2:DescribeInstanceTypes',
+            'ec2:DescribeTags',
+            'ec2:CreateNetworkInterface',
+            'ec2:AttachNetworkInterface',
+            'ec2:DetachNetworkInterface',
+            'ec2:DeleteNetworkInterface',
+            'ec2:ModifyNetworkInterfaceAttribute',
+            'ec2:AssignPrivateIpAddresses',
+            'ec2:UnassignPrivateIpAddresses',
+            'ec2:CreateTags',
+          ],
+          resources: ['*'],
+        }),
+      ],
+    });
+
+    // Install Cilium with kube-proxy replacement, talking to the API server directly
+    const hubble = props.hubble ?? true;
+    const image = (name: string) => props.imageRegistry ? { repository: `${props.imageRegistry}/cilium/${name}` } : undefined;
+    this.chart = new eks.HelmChart(this, 'Resource', {
+      cluster,
+      chart: 'cilium',
+      release: 'cilium',
+      repository: 'https://helm.cilium.io/',
+      version: props.version ?? Cilium.DEFAULT_VERSION,
+      namespace: 'kube-system',
+      wait: true,
+      values: {
+        eni: {
+          enabled: true,
+        },
+        ipam: {
+          mode: 'eni',
+        },
+        routingMode: 'native',
+        egressMasqueradeInterfaces: 'eth+',
+        kubeProxyReplacement: true,
+        k8sServiceHost: cdk.Fn.select(1, cdk.Fn.split('//', cluster.clusterEndpoint)),
+        k8sServicePort: 443,
+        cni: {
+          exclusive: true,
+        },
+        policyEnforcementMode: 'default',
+        image: image('cilium'),
+        operator: {
+          replicas: 2,
+          image: image('operator'),
+        },
+        envoy: {
+          image: image('cilium-envoy'),
+        },
+        serviceAccounts: {
+          operator: {
+            create: false,
+            name: this.operatorIdentity.serviceAccountName,
+          },
+        },
+        hubble: {
+          enabled: hubble,
+          relay: {
+            enabled: hubble,
+            image: image('hubble-relay'),
+          },
+        },
+        ...props.values,
+      },
+    });
+
+    this.chart.node.addDependency(this.operatorIdentity, ...disabled);
+  }
+
+  /**
+   * Adds the Cilium startup taint to every Karpenter NodePool under `scope`
+   */
+  public static addStartupTaints(scope: IConstruct): void {
+    cdk.Aspects.of(scope).add(new CiliumStartupTaintAspect());
+  }
+}
+
+/**
+ * Adds the Cilium startup taint to Karpenter NodePools
+ */
+class CiliumStartupTaintAspect implements cdk.IAspect {
+  public visit(node: IConstruct): void {
+    if (node instanceof KarpenterNodePool) {
+      node.addStartupTaint(Cilium.STARTUP_TAINT);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import { Construct } from 'constructs';
+
+export interface ClusterEncryptionKeyProps {
+  /**
+   * ARN of an existing key to import instead of creating one.
+   * Its key policy must already contain the grants this construct adds to a new key.
+   * @default - a new key is created
+   */
+  keyArn?: string;
+
+  /**
+   * Alias of the created key
+   * @default - no alias
+   */
+  alias?: string;
+}
+
+/**
+ * CDK Construct for the customer-managed KMS key of a cluster
+ * Encrypts node EBS volumes, the interruption queue and Kubernetes secrets
+ */
+export class ClusterEncryptionKey extends Construct {
+  public readonly key: kms.IKey;
+
+  constructor(scope: Construct, id: string, props: ClusterEncryptionKeyProps = {}) {
+    super(scope, id);
+
+    if (props.keyArn) {
+      this.key = kms.Key.fromKeyArn(this, 'Key', props.keyArn);
+      return;
+    }
+
+    const key = new kms.Key(this, 'Key', {
+      description: 'Encrypts EKS secrets, Karpenter node volumes, persistent volumes and the interruption queue',
+      alias: props.alias,
+      enableKeyRotation: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // EventBridge encrypts the messages it delivers to the interruption queue
+    key.addToResourcePolicy(new iam.PolicyStatement({
+      sid: 'AllowEventBridgeToEncryptQueueMessages',
+      principals: [new iam.ServicePrincipal('events.amazonaws.com')],
+      actions: ['kms:GenerateDataKey*', 'kms:Decrypt'],
+      resources: ['*'],
+    }));
+
+    // Spot instances are launched by the EC2 Spot service-linked role, which
+    // needs access to the key to attach encrypted volumes
+    const spotServiceRole = new iam.ArnPrincipal(cdk.Stack.of(this).formatArn({
+      service: 'iam',
+      region: '',
+      resource: 'role',
+      resourceName: 'aws-service-role/spot.amazonaws.com/AWSServiceRoleForEC2Spot',
+    }));
+    key.addToResourcePolicy(new iam.PolicyStatement({
+      sid: 'AllowEc2SpotToUseKeyForVolumes',
+      principals: [spotServiceRole],
+      actions: ['kms:Encrypt', 'kms:Decrypt', 'kms:ReEncrypt*', 'kms:GenerateDataKey*', 'kms:DescribeKey'],
+      resources: ['*'],
+    }));
+    key.addToResourcePolicy(new iam.PolicyStatement({
+      sid: 'AllowEc2SpotToCreateVolumeGrants',
+      principals: [spotServiceRole],
+      actions: ['kms:CreateGrant'],
+      resources: ['*'],
+      conditions: {
+        Bool: {
+          'kms:GrantIsForAWSResource': true,
+        },
+      },
+    }));
+
+    this.key = key;
+  }
+}
@@ -0,0 +1,73 @@
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import { Construct } from 'constructs';
+
+export interface ClusterVpcEndpointsProps {
+  /**
+   * VPC of the cluster
+   */
+  vpc: ec2.IVpc;
+
+  /**
+   * Subnets the interface endpoints are placed in and the S3 gateway endpoint is routed from
+   */
+  subnets: ec2.SubnetSelection;
+}
+
+/**
+ * AWS APIs the nodes, Karpenter and the add-ons call, keyed by construct ID
+ *
+ * Karpenter also calls the pricing API, which has no endpoint; `isolatedVPC` makes it use its built-in prices.
+ */
+const INTERFACE_ENDPOINTS: Record<string, ec2.InterfaceVpcEndpointAwsService> = {
+  EcrApi: ec2.InterfaceVpcEndpointAwsService.ECR,
+  EcrDocker: ec2.InterfaceVpcEndpointAwsService.ECR_DOCKER,
+  Sts: ec2.InterfaceVpcEndpointAwsService.STS,
+  Sqs: ec2.InterfaceVpcEndpointAwsService.SQS,
+  Ec2: ec2.InterfaceVpcEndpointAwsService.EC2,
+  Ssm: ec2.InterfaceVpcEndpointAwsService.SSM,
+  SsmMessages: ec2.InterfaceVpcEndpointAwsService.SSM_MESSAGES,
+  Ec2Messages: ec2.InterfaceVpcEndpointAwsService.EC2_MESSAGES,
+  Eks: ec2.InterfaceVpcEndpointAwsService.EKS,
+  EksAuth: ec2.InterfaceVpcEndpointAwsService.EKS_AUTH,
+  Logs: ec2.InterfaceVpcEndpointAwsService.CLOUDWATCH_LOGS,
+  SecretsManager: ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+};
+
+/**
+ * CDK Construct for the VPC endpoints of a cluster without internet egress
+ * Creates the interface endpoints behind one security group and the S3 gateway endpoint that serves ECR image layers
+ */
+export class ClusterVpcEndpoints extends Construct {
+  public readonly securityGroup: ec2.SecurityGroup;
+  public readonly interfaceEndpoints: ec2.InterfaceVpcEndpoint[];
+  public readonly s3Endpoint: ec2.GatewayVpcEndpoint;
+
+  constructor(scope: Construct, id: string, props: ClusterVpcEndpointsProps) {
+    super(scope, id);
+
+    const { vpc, subnets } = props;
+
+    this.securityGroup = new ec2.SecurityGroup(this, 'SecurityGroup', {
+      vpc,
+      description: 'HTTPS from the VPC to the AWS API endpoints',
+      allowAllOutbound: false,
+    });
+    this.securityGroup.addIngressRule(ec2.Peer.ipv4(vpc.vpcCidrBlock), ec2.Port.tcp(443), 'HTTPS from the VPC');
+
+    this.interfaceEndpoints = Object.entries(INTERFACE_ENDPOINTS).map(([endpointId, service]) =>
+      new ec2.InterfaceVpcEndpoint(this, endpointId, {
+        vpc,
+        service,
+        subnets,
+        securityGroups: [this.securityGroup],
+        privateDnsEnabled: true,
+        open: false,
+      }));
+
+    this.s3Endpoint = new ec2.GatewayVpcEndpoint(this, 'S3', {
+      vpc,
+      service: ec2.GatewayVpcEndpointAwsService.S3,
+      subnets: [subnets],
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { DisruptionBudget, DisruptionReason } from './karpenter-node-pool';
+
+export interface BusinessHoursFreezeOptions {
+  /**
+   * Hour of the day in UTC the freeze starts
+   * @default 7
+   */
+  startHour?: number;
+
+  /**
+   * Length of the freeze in hours
+   * @default 11
+   */
+  hours?: number;
+
+  /**
+   * Cron day-of-week field of the days the freeze applies to
+   * @default 'mon-fri'
+   */
+  days?: string;
+
+  /**
+   * Disruption reasons blocked during the freeze
+   * @default - every reason
+   */
+  reasons?: DisruptionReason[];
+
+  /**
+   * Nodes Karpenter may disrupt at once outside the freeze
+   * @default '10%'
+   */
+  nodes?: string;
+}
+
+/**
+ * Returns budgets that block voluntary disruption during business hours and cap it outside them
+ *
+ * Budgets do not cover expiration; nodes reaching `expireAfter` are replaced during the freeze too.
+ */
+export function businessHoursFreeze(options: BusinessHoursFreezeOptions = {}): DisruptionBudget[] {
+  const { startHour = 7, hours = 11, days = 'mon-fri', reasons, nodes = '10%' } = options;
+  if (!Number.isInteger(startHour) || startHour < 0 || startHour > 23) {
+    throw new Error(`Business hours freeze startHour must be an integer between 0 and 23, got ${startHour}`);
+  }
+  if (!Number.isInteger(hours) || hours < 1 || hours > 24) {
+    throw new Error(`Business hours freeze hours must be an integer between 1 and 24, got ${hours}`);
+  }
+
+  return [
+    {
+      nodes: '0',
+      schedule: `0 ${startHour} * * ${days}`,
+      duration: `${hours}h`,
+      reasons,
+    },
+    {
+      nodes,
+    },
+  ];
+}
+
+/**
+ * Returns the explicit budgets and the business hours freeze of a pool, or `defaults` when neither is set
+ */
+export function configuredDisruptionBudgets(
+  config: { disruptionBudgets?: DisruptionBudget[]; businessHoursFreeze?: BusinessHoursFreezeOptions },
+  defaults: DisruptionBudget[],
+): DisruptionBudget[] {
+  if (!config.disruptionBudgets && !config.businessHoursFreeze) {
+    return defaults;
+  }
+  return [
+    ...config.businessHoursFreeze ? businessHoursFreeze(config.businessHoursFreeze) : [],
+    ...config.disruptionBudgets ?? [],
+  ];
+}
@@ -0,0 +1,139 @@
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import { Construct } from 'constructs';
+import { managedAddon, managedAddonRole } from './managed-addons';
+
+/**
+ * Settings of the io2 StorageClass
+ */
+export interface Io2StorageClassOptions {
+  /**
+   * Provisioned IOPS per GiB of volume size
+   * @default 50
+   */
+  iopsPerGb?: number;
+}
+
+export interface EbsStorageProps {
+  /**
+   * The EKS cluster; the aws-ebs-csi-driver managed add-on must be installed
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * Key that encrypts the volumes
+   * @default - the AWS managed `aws/ebs` key
+   */
+  encryptionKey?: kms.IKey;
+
+  /**
+   * Add an `io2` StorageClass for latency-sensitive volumes
+   * @default - no io2 StorageClass
+   */
+  io2?: Io2StorageClassOptions;
+
+  /**
+   * Add a `gp3-retain` StorageClass whose volumes outlive their claims
+   * @default false
+   */
+  retain?: boolean;
+}
+
+const PROVISIONER = 'ebs.csi.aws.com';
+const DEFAULT_CLASS_ANNOTATION = 'storageclass.kubernetes.io/is-default-class';
+
+/**
+ * CDK Construct for EBS-backed persistent volumes
+ * Defines encrypted StorageClasses for the EBS CSI driver add-on and makes gp3 the default in place of gp2
+ */
+export class EbsStorage extends Construct {
+  /**
+   * Name of the default StorageClass
+   */
+  public static readonly DEFAULT_STORAGE_CLASS = 'gp3';
+
+  public readonly storageClassNames: string[];
+  public readonly manifest: eks.KubernetesManifest;
+
+  constructor(scope: Construct, id: string, props: EbsStorageProps) {
+    super(scope, id);
+
+    const { cluster, encryptionKey } = props;
+    const driver = managedAddon(cluster, 'aws-ebs-csi-driver');
+    if (!driver) {
+      throw new Error(`${this.node.path}: the cluster has no aws-ebs-csi-driver add-on; install it with addManagedAddons first`);
+    }
+
+    const iopsPerGb = props.io2?.iopsPerGb ?? 50;
+    if (!Number.isInteger(iopsPerGb) || iopsPerGb < 1 || iopsPerGb > 1000) {
+      throw new Error(`${this.node.path}: io2.iopsPerGb must be an integer between 1 and 1000, got ${iopsPerGb}`);
+    }
+
+    // The driver creates and attaches the volumes, so it needs the key and grants for EC2
+    const driverRole = managedAddonRole(cluster, 'aws-ebs-csi-driver');
+    if (encryptionKey && driverRole) {
+      driverRole.addToPrincipalPolicy(new iam.PolicyStatement({
+        actions: ['kms:Encrypt', 'kms:Decrypt', 'kms:ReEncrypt*', 'kms:GenerateDataKey*', 'kms:DescribeKey'],
+        resources: [encryptionKey.keyArn],
+      }));
+      driverRole.addToPrincipalPolicy(new iam.PolicyStatement({
+        actions: ['kms:CreateGrant', 'kms:ListGrants', 'kms:RevokeGrant'],
+        resources: [encryptionKey.keyArn],
+        conditions: {
+          Bool: {
+            'kms:GrantIsForAWSResource': true,
+          },
+        },
+      }));
+    }
+
+    const encryption = {
+      'encrypted': 'true',
+      'kmsKeyId': encryptionKey?.keyArn,
+      'csi.storage.k8s.io/fstype': 'ext4',
+    };
+
+    // WaitForFirstConsumer creates the volume in the zone of the node Karpenter launches for the pod
+    const storageClass = (name: string, parameters: Record<string, string | undefined>, reclaimPolicy = 'Delete', isDefault = false) => ({
+      apiVersion: 'storage.k8s.io/v1',
+      kind: 'StorageClass',
+      metadata: {
+        name,
+        annotations: isDefault ? { [DEFAULT_CLASS_ANNOTATION]: 'true' } : undefined,
+      },
+      provisioner: PROVISIONER,
+      parameters: { ...parameters, ...encryption },
+      reclaimPolicy,
+      volumeBindingMode: 'WaitForFirstConsumer',
+      allowVolumeExpansion: true,
+    });
+
+    const storageClasses = [
+      storageClass(EbsStorage.DEFAULT_STORAGE_CLASS, { type: 'gp3' }, 'Delete', true),
+    ];
+    if (props.io2) {
+      storageClasses.push(storageClass('io2', { type: 'io2', iopsPerGB: `${iopsPerGb}`, allowAutoIOPSPerGBIncrease: 'true' }));
+    }
+    if (props.retain) {
+      storageClasses.push(storageClass('gp3-retain', { type: 'gp3' }, 'Retain'));
+    }
+    this.storageClassNames = storageClasses.map(storageClassObject => storageClassObject.metadata.name);
+
+    this.manifest = new eks.KubernetesManifest(this, 'Resource', {
+      cluster,
+      manifest: storageClasses,
+    });
+    this.manifest.node.addDependency(driver);
+
+    // EKS before 1.30 creates gp2 as the default StorageClass; two defaults make claims without a class ambiguous.
+    // Removal leaves gp2 alone, since newer clusters never had it as their default
+    const gp2 = new eks.KubernetesPatch(this, 'Gp2NotDefault', {
+      cluster,
+      resourceName: 'storageclass/gp2',
+      applyPatch: { metadata: { annotations: { [DEFAULT_CLASS_ANNOTATION]: 'false' } } },
+      restorePatch: {},
+    });
+    this.manifest.node.addDependency(gp2);
+  }
+}
@@ -0,0 +1,290 @@
+import * as cdk from 'aws-cdk-lib';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct, IDependable } from 'constructs';
+import { BottlerocketSettings } from './bottlerocket-settings';
+import { validateEc2NodeClass } from './karpenter-schema';
+import { assertKubernetesName } from './kubernetes-types';
+
+/**
+ * Selector term used to discover subnets and security groups
+ */
+export interface SelectorTerm {
+  /**
+   * Tags the resource must carry
+   */
+  tags?: Record<string, string>;
+
+  /**
+   * Explicit resource ID
+   */
+  id?: string;
+}
+
+/**
+ * Selector term used to resolve the AMI for launched nodes
+ */
+export interface AmiSelectorTerm {
+  /**
+   * AMI alias, e.g. `bottlerocket@latest`
+   */
+  alias?: string;
+
+  /**
+   * Explicit AMI ID
+   */
+  id?: string;
+
+  /**
+   * AMI name, wildcards allowed
+   */
+  name?: string;
+
+  /**
+   * AMI owner account ID or alias
+   */
+  owner?: string;
+
+  /**
+   * Tags the AMI must carry
+   */
+  tags?: Record<string, string>;
+}
+
+/**
+ * EBS volume attached through a block device mapping
+ */
+export interface EbsVolume {
+  /**
+   * Volume size as a Kubernetes quantity, e.g. `20Gi`
+   */
+  volumeSize: string;
+
+  /**
+   * EBS volume type
+   */
+  volumeType: 'standard' | 'io1' | 'io2' | 'gp2' | 'sc1' | 'st1' | 'gp3';
+
+  /**
+   * Provisioned IOPS
+   */
+  iops?: number;
+
+  /**
+   * Provisioned throughput in MiB/s (gp3 only)
+   */
+  throughput?: number;
+
+  /**
+   * Delete the volume when the instance terminates
+   */
+  deleteOnTermination?: boolean;
+
+  /**
+   * Encrypt the volume
+   */
+  encrypted?: boolean;
+
+  /**
+   * KMS key used to encrypt the volume
+   */
+  kmsKeyID?: string;
+
+  /**
+   * Snapshot to create the volume from
+   */
+  snapshotID?: string;
+}
+
+/**
+ * Block device mapping for nodes launched from an EC2NodeClass
+ */
+export interface BlockDeviceMapping {
+  /**
+   * Device name, e.g. `/dev/xvda`
+   */
+  deviceName: string;
+
+  /**
+   * EBS volume for the device
+   */
+  ebs: EbsVolume;
+
+  /**
+   * Whether this device is the root volume
+   */
+  rootVolume?: boolean;
+}
+
+/**
+ * AMI aliases resolving to the latest AMI of a family for the node's architecture
+ */
+const AMI_ALIASES: Partial<Record<NonNullable<Ec2NodeClassProps['amiFamily']>, string>> = {
+  AL2: 'al2@latest',
+  AL2023: 'al2023@latest',
+  Bottlerocket: 'bottlerocket@latest',
+  Windows2019: 'windows2019@latest',
+  Windows2022: 'windows2022@latest',
+};
+
+export interface Ec2NodeClassProps {
+  /**
+   * The EKS cluster the EC2NodeClass is applied to
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * The construct that installs Karpenter and its CRDs
+   */
+  karpenterInstallation: IDependable;
+
+  /**
+   * Name of the EC2NodeClass object
+   */
+  nodeClassName: string;
+
+  /**
+   * IAM role assumed by the launched nodes; Karpenter creates an instance profile for it
+   * @default - none, `instanceProfile` must be set
+   */
+  role?: iam.IRole;
+
+  /**
+   * Name of an existing instance profile of the launched nodes, for controllers that cannot reach IAM, e.g. in a private cluster
+   * @default - none, `role` must be set
+   */
+  instanceProfile?: string;
+
+  /**
+   * AMI family of the launched nodes
+   * @default 'Bottlerocket'
+   */
+  amiFamily?: 'AL2' | 'AL2023' | 'Bottlerocket' | 'Windows2019' | 'Windows2022' | 'Custom';
+
+  /**
+   * AMI selector terms
+   * @default - the latest AMI of the family for each architecture, e.g. `bottlerocket@latest`
+   */
+  amiSelectorTerms?: AmiSelectorTerm[];
+
+  /**
+   * Subnet selector terms
+   * @default - subnets tagged with `karpenter.sh/discovery: <clusterName>`
+   */
+  subnetSelectorTerms?: SelectorTerm[];
+
+  /**
+   * Security group selector terms
+   * @default - security groups tagged with `karpenter.sh/discovery: <clusterName>`
+   */
+  securityGroupSelectorTerms?: SelectorTerm[];
+
+  /**
+   * How instance store volumes are exposed to the node
+   */
+  instanceStorePolicy?: 'RAID0';
+
+  /**
+   * User data passed to the launched nodes
+   */
+  userData?: string;
+
+  /**
+   * Bottlerocket settings rendered as the node user data
+   */
+  bottlerocketSettings?: BottlerocketSettings;
+
+  /**
+   * Block device mappings of the launched nodes
+   */
+  blockDeviceMappings?: BlockDeviceMapping[];
+
+  /**
+   * Additional tags applied to the launched EC2 resources
+   */
+  tags?: Record<string, string>;
+}
+
+/**
+ * CDK Construct for a Karpenter EC2NodeClass
+ * Applies the karpenter.k8s.aws/v1 object once Karpenter is installed
+ */
+export class Ec2NodeClass extends Construct {
+  public static readonly GROUP = 'karpenter.k8s.aws';
+  public static readonly KIND = 'EC2NodeClass';
+
+  public readonly cluster: eks.ICluster;
+  public readonly karpenterInstallation: IDependable;
+  public readonly nodeClassName: string;
+  public readonly manifest: eks.KubernetesManifest;
+
+  constructor(scope: Construct, id: string, props: Ec2NodeClassProps) {
+    super(scope, id);
+
+    const { cluster, nodeClassName } = props;
+    assertKubernetesName(this, nodeClassName);
+
+    if ((props.role === undefined) === (props.instanceProfile === undefined)) {
+      throw new Error(`${this.node.path}: specify either role or instanceProfile`);
+    }
+    const amiFamily = props.amiFamily ?? 'Bottlerocket';
+    if (props.bottlerocketSettings && props.userData !== undefined) {
+      throw new Error(`${this.node.path}: specify either userData or bottlerocketSettings, not both`);
+    }
+    if (props.bottlerocketSettings && amiFamily !== 'Bottlerocket') {
+      throw new Error(`${this.node.path}: bottlerocketSettings require the Bottlerocket AMI family, got ${amiFamily}`);
+    }
+
+    this.cluster = cluster;
+    this.karpenterInstallation = props.karpenterInstallation;
+    this.nodeClassName = nodeClassName;
+
+    const alias = AMI_ALIASES[amiFamily];
+    const amiSelectorTerms = props.amiSelectorTerms ?? (alias ? [{ alias }] : undefined);
+
+    const discoveryTerms: SelectorTerm[] = [
+      {
+        tags: {
+          'karpenter.sh/discovery': cluster.clusterName,
+        },
+      },
+    ];
+
+    const nodeClass = {
+      apiVersion: `${Ec2NodeClass.GROUP}/v1`,
+      kind: Ec2NodeClass.KIND,
+      metadata: {
+        name: nodeClassName,
+      },
+      spec: {
+        amiFamily,
+        amiSelectorTerms,
+        subnetSelectorTerms: props.subnetSelectorTerms ?? discoveryTerms,
+        securityGroupSelectorTerms: props.securityGroupSelectorTerms ?? discoveryTerms,
+        instanceStorePolicy: props.instanceStorePolicy,
+        userData: props.bottlerocketSettings?.render() ?? props.userData,
+        blockDeviceMappings: props.blockDeviceMappings,
+        role: props.role?.roleName,
+        instanceProfile: props.instanceProfile,
+        // Karpenter tags instances with the cluster name itself and v1 rejects kubernetes.io/cluster/ tags
+        tags: {
+          'karpenter.sh/discovery': cluster.clusterName,
+          ...props.tags,
+        },
+      },
+    };
+
+    this.manifest = new eks.KubernetesManifest(this, 'Resource', {
+      cluster,
+      manifest: [nodeClass],
+    });
+
+    // The API server only rejects an invalid object at deploy time, so check it against the CRD schema at synth
+    this.node.addValidation({
+      validate: () => validateEc2NodeClass(cdk.Stack.of(this).resolve(nodeClass)),
+    });
+
+    // The EC2NodeClass CRD must exist before the object is applied
+    this.manifest.node.addDependency(props.karpenterInstallation);
+  }
+}
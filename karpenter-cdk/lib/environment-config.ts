@@ -0,0 +1,895 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { CredentialMode } from './workload-identity';
+import { IamSettings, validateIamSettings } from './iam-settings';
+import { PullThroughCacheUpstream, RegistryMirrorsProps } from './registry-mirrors';
+import { ProxyConfig } from './proxy-config';
+import { ClusterCni } from './cilium';
+import { ResourceRequirements } from './kubernetes-types';
+import { NodeArchitecture } from './node-architecture';
+import { InstanceRequirementsProps } from './instance-requirements';
+import { CapacityPoolOptions, CapacityStrategy } from './capacity-node-pools';
+import { DisruptionBudget } from './karpenter-node-pool';
+import { BusinessHoursFreezeOptions } from './disruption-budgets';
+import { ManagedAddonName, ManagedAddonOptions } from './managed-addons';
+import { Io2StorageClassOptions } from './ebs-storage';
+import { KarpenterChartOptions } from './karpenter-chart';
+
+/**
+ * VPC settings of an environment
+ */
+export interface NetworkConfig {
+  /**
+   * IPv4 CIDR of the VPC
+   */
+  vpcCidr: string;
+
+  /**
+   * Maximum number of availability zones
+   */
+  maxAzs: number;
+
+  /**
+   * Number of NAT gateways
+   */
+  natGateways: number;
+
+  /**
+   * IPv4 CIDR of Kubernetes services; changing it replaces the cluster
+   * @default - assigned by EKS
+   */
+  serviceCidr?: string;
+
+  /**
+   * Private cluster: a private API endpoint, nodes in isolated subnets and VPC endpoints for the AWS APIs.
+   * NAT gateways only serve the control plane ENIs and the kubectl handler that fetches the Helm charts, so at least
+   * one is required; node images come from ECR through `registryMirrors.pullThroughCache`, which must cache
+   * `ecr-public`, plus `quay` with Cilium, `ghcr` with GitHub runners and their credentials and `docker-hub` with Nexus.
+   * @default false
+   */
+  private?: boolean;
+}
+
+/**
+ * Per-environment overrides of a NodePool
+ */
+export interface NodePoolConfig {
+  /**
+   * Architectures the pool launches; instance families are chosen per architecture
+   * @default ['amd64']
+   */
+  architectures?: NodeArchitecture[];
+
+  /**
+   * Allowed instance types, replacing the attribute selection
+   */
+  instanceTypes?: string[];
+
+  /**
+   * Instance attributes replacing the pool's defaults; cannot be combined with `instanceTypes`
+   */
+  instanceRequirements?: Omit<InstanceRequirementsProps, 'architectures' | 'instanceTypes'>;
+
+  /**
+   * How the pool mixes spot and on-demand capacity
+   * @default 'spot-first'
+   */
+  capacityStrategy?: CapacityStrategy;
+
+  /**
+   * Spot pool weight and limits of the `spot-first` strategy
+   */
+  spot?: CapacityPoolOptions;
+
+  /**
+   * On-demand pool weight and limits of the `spot-first` and `on-demand` strategies
+   */
+  onDemand?: CapacityPoolOptions;
+
+  /**
+   * Allowed capacity types of the `mixed` strategy
+   */
+  capacityTypes?: Array<'spot' | 'on-demand'>;
+
+  /**
+   * Lifetime of a node before it is replaced, e.g. `720h`
+   */
+  expireAfter?: string;
+
+  /**
+   * How long a draining node waits for its pods before it is terminated, e.g. `6h`
+   */
+  terminationGracePeriod?: string;
+
+  /**
+   * Budgets capping concurrent disruptions, replacing the pool's defaults
+   */
+  disruptionBudgets?: DisruptionBudget[];
+
+  /**
+   * Block voluntary disruption during business hours, replacing the pool's default budgets; `{}` uses the preset defaults
+   */
+  businessHoursFreeze?: BusinessHoursFreezeOptions;
+
+  /**
+   * Resource limits across the pool's nodes
+   */
+  limits?: {
+    cpu?: string;
+    memory?: string;
+  };
+}
+
+/**
+ * Karpenter chart settings of an environment; batch durations are written as e.g. `10s` or `1m`
+ */
+export interface KarpenterConfig extends Omit<KarpenterChartOptions, 'isolatedVpc' | 'values'> {
+  /**
+   * ARN of an existing controller role, so several clusters share one role; requires `credentialMode` 'pod-identity'
+   * @default - a role is created for the cluster
+   */
+  controllerRoleArn?: string;
+}
+
+/**
+ * Customer-managed KMS key of an environment
+ */
+export interface EncryptionConfig {
+  /**
+   * ARN of an existing key; its policy must grant EventBridge and the EC2 Spot service-linked role access
+   * @default - a key is created
+   */
+  keyArn?: string;
+}
+
+/**
+ * Persistent volume settings of an environment
+ */
+export interface StorageConfig {
+  /**
+   * ARN of the key that encrypts the volumes; the EBS CSI driver is granted access to it
+   * @default - the environment's encryption key, or the AWS managed `aws/ebs` key
+   */
+  kmsKeyArn?: string;
+
+  /**
+   * Add an `io2` StorageClass
+   * @default - no io2 StorageClass
+   */
+  io2?: Io2StorageClassOptions;
+
+  /**
+   * Add a `gp3-retain` StorageClass whose volumes outlive their claims
+   * @default false
+   */
+  retain?: boolean;
+}
+
+/**
+ * Nexus Repository Manager settings of an environment
+ */
+export interface NexusConfig {
+  /**
+   * Host name Nexus is exposed on through the ingress controller
+   * @default - Nexus is only reachable inside the cluster
+   */
+  ingressHost?: string;
+
+  /**
+   * cert-manager ClusterIssuer that signs the ingress certificate
+   * @default - the `nexus-tls` secret is managed outside the app
+   */
+  clusterIssuer?: string;
+
+  /**
+   * Storage class of the data volume
+   * @default 'gp3'
+   */
+  storageClass?: string;
+
+  /**
+   * Size of the data volume
+   * @default '100Gi'
+   */
+  storageSize?: string;
+
+  /**
+   * Nexus container resources
+   * @default - 2 CPU and 4Gi memory requested, 4 CPU and 8Gi memory limits
+   */
+  resources?: ResourceRequirements;
+}
+
+/**
+ * GitHub Actions runner settings of an environment
+ */
+export interface GitHubRunnersConfig {
+  /**
+   * URL of the GitHub Enterprise Server instance
+   */
+  url: string;
+
+  /**
+   * Organization the runners register with
+   */
+  organization: string;
+
+  /**
+   * Secret in the runner namespace holding the GitHub credentials
+   * @default 'github-config'
+   */
+  configSecret?: string;
+
+  /**
+   * Complete ARN of the Secrets Manager secret synced into `configSecret` and the registry pull secrets
+   * @default - `configSecret` is managed outside the app
+   */
+  credentialsSecretArn?: string;
+
+  /**
+   * Whether the credentials are a GitHub App or a personal access token
+   * @default 'app'
+   */
+  authentication?: 'app' | 'token';
+
+  /**
+   * Container registry host the pull secrets authenticate to
+   * @default - no pull secrets are created
+   */
+  registry?: string;
+
+  /**
+   * Existing namespaces that receive the registry pull secret
+   * @default ['default']
+   */
+  pullSecretNamespaces?: string[];
+
+  /**
+   * Runner scale sets
+   * @default - a `github-runners` scale set, plus `github-runners-arm64` when the NodePool launches arm64
+   */
+  scaleSets?: Array<{
+    name: string;
+    labels?: string[];
+    architecture?: NodeArchitecture;
+    capacityTypeMaxSkew?: number;
+    minRunners?: number;
+    maxRunners?: number;
+    containerMode?: 'dind' | 'kubernetes';
+  }>;
+}
+
+/**
+ * Alarm routing of an environment
+ */
+export interface MonitoringConfig {
+  /**
+   * ARN of an existing topic notified by the alarms
+   */
+  alarmTopicArn?: string;
+
+  /**
+   * Email addresses subscribed to a topic created for the alarms
+   */
+  alarmEmails?: string[];
+
+  /**
+   * Percentage of a NodePool limit at which the saturation alarms fire
+   * @default 90
+   */
+  limitSaturationPercent?: number;
+}
+
+/**
+ * Configuration of one deployment environment
+ */
+export interface EnvironmentConfig {
+  /**
+   * Environment name, e.g. `dev`
+   */
+  name: string;
+
+  /**
+   * CloudFormation stack name
+   */
+  stackName: string;
+
+  /**
+   * Target AWS account
+   * @default - CDK_DEFAULT_ACCOUNT
+   */
+  account?: string;
+
+  /**
+   * Target AWS region
+   * @default - CDK_DEFAULT_REGION, or us-west-2
+   */
+  region?: string;
+
+  /**
+   * Name of the EKS cluster
+   */
+  clusterName: string;
+
+  /**
+   * Kubernetes version of the cluster, e.g. `1.28`
+   */
+  kubernetesVersion: string;
+
+  /**
+   * VPC settings
+   */
+  network: NetworkConfig;
+
+  /**
+   * Permissions boundary, IAM path and name prefix
+   */
+  iam?: IamSettings;
+
+  /**
+   * CNI plugin of the cluster
+   * @default 'aws-vpc-cni'
+   */
+  cni?: ClusterCni;
+
+  /**
+   * EKS managed add-on overrides keyed by add-on name
+   * @default - every add-on at the version pinned for the Kubernetes version
+   */
+  addons?: Partial<Record<ManagedAddonName, ManagedAddonOptions>>;
+
+  /**
+   * Outbound HTTP proxy of the nodes, Karpenter and the cluster handlers
+   * @default - direct internet access
+   */
+  proxy?: ProxyConfig;
+
+  /**
+   * Encrypt secrets, node and persistent volumes and the interruption queue with a customer-managed key
+   * @default - AWS managed keys
+   */
+  encryption?: EncryptionConfig;
+
+  /**
+   * StorageClasses of the EBS CSI driver
+   * @default - the default gp3 StorageClass only
+   */
+  storage?: StorageConfig;
+
+  /**
+   * How Karpenter and workloads obtain AWS credentials
+   * @default CredentialMode.IRSA
+   */
+  credentialMode?: CredentialMode;
+
+  /**
+   * Karpenter chart settings
+   */
+  karpenter?: KarpenterConfig;
+
+  /**
+   * Alarm routing and thresholds
+   */
+  monitoring?: MonitoringConfig;
+
+  /**
+   * Registry mirrors and ECR pull-through cache rules of the Karpenter nodes
+   * @default - Docker Hub is mirrored through mirror.gcr.io
+   */
+  registryMirrors?: RegistryMirrorsProps;
+
+  /**
+   * GitHub Actions runner scale sets on the `github-runners` NodePool
+   * @default - no runners are installed
+   */
+  githubRunners?: GitHubRunnersConfig;
+
+  /**
+   * Nexus Repository Manager on the `nexus` NodePool, shared by the runners as an artifact proxy
+   * @default - Nexus is not installed
+   */
+  nexus?: NexusConfig;
+
+  /**
+   * NodePool overrides keyed by NodePool name
+   */
+  nodePools?: Partial<Record<NodePoolName, NodePoolConfig>>;
+
+  /**
+   * Tags applied to every resource
+   */
+  tags: Record<string, string>;
+}
+
+/**
+ * NodePools whose settings can be overridden per environment
+ */
+export type NodePoolName = 'default' | 'github-runners' | 'nexus';
+
+const NODE_POOL_NAMES: NodePoolName[] = ['default', 'github-runners', 'nexus'];
+
+const ADDON_NAMES: ManagedAddonName[] = [
+  'vpc-cni', 'coredns', 'kube-proxy', 'aws-ebs-csi-driver', 'eks-pod-identity-agent', 'metrics-server',
+];
+
+/**
+ * Default location of the environments file, relative to the project root
+ */
+export const DEFAULT_CONFIG_FILE = path.join(__dirname, '..', 'config', 'environments.json');
+
+/**
+ * Loads the environments selected through CDK context
+ *
+ * `-c configFile=<path>` chooses the environments file and `-c environment=<name>`
+ * selects a single environment; without it every environment in the file is returned.
+ */
+export function loadEnvironments(scope: Construct): EnvironmentConfig[] {
+  const configFile = scope.node.tryGetContext('configFile') ?? DEFAULT_CONFIG_FILE;
+  const selected: string | undefined = scope.node.tryGetContext('environment');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(path.resolve(configFile), 'utf-8'));
+  } catch (err) {
+    throw new Error(`Unable to read environments file ${configFile}: ${(err as Error).message}`);
+  }
+
+  if (!isObject(raw) || Object.keys(raw).length === 0) {
+    throw new Error(`${configFile}: expected an object of environments keyed by name`);
+  }
+
+  const environments = Object.entries(raw).map(([name, value]) => parseEnvironment(name, value));
+  if (selected === undefined) {
+    return environments;
+  }
+
+  const environment = environments.find(env => env.name === selected);
+  if (!environment) {
+    throw new Error(`Environment '${selected}' is not defined in ${configFile} (found: ${environments.map(env => env.name).join(', ')})`);
+  }
+  return [environment];
+}
+
+/**
+ * Validates a raw environment object against the configuration schema
+ */
+export function parseEnvironment(name: string, raw: unknown): EnvironmentConfig {
+  const reader = new ConfigReader(name);
+  const env = reader.object(raw, '', [
+    'stackName', 'account', 'region', 'clusterName', 'kubernetesVersion', 'network', 'cni', 'addons', 'iam', 'proxy', 'encryption', 'storage', 'credentialMode', 'karpenter', 'monitoring', 'registryMirrors', 'githubRunners', 'nexus', 'nodePools', 'tags',
+  ]);
+
+  const network = reader.object(env.network, 'network', ['vpcCidr', 'maxAzs', 'natGateways', 'serviceCidr', 'private']);
+  const iam = env.iam === undefined
+    ? undefined
+    : reader.object(env.iam, 'iam', ['permissionsBoundaryArn', 'path', 'namePrefix']);
+  const proxy = env.proxy === undefined
+    ? undefined
+    : reader.object(env.proxy, 'proxy', ['httpsProxy', 'noProxy']);
+  const encryption = env.encryption === undefined
+    ? undefined
+    : reader.object(env.encryption, 'encryption', ['keyArn']);
+  const storage = env.storage === undefined
+    ? undefined
+    : reader.object(env.storage, 'storage', ['kmsKeyArn', 'io2', 'retain']);
+  const karpenter = env.karpenter === undefined
+    ? undefined
+    : reader.object(env.karpenter, 'karpenter', [
+      'version', 'logLevel', 'batchMaxDuration', 'batchIdleDuration', 'featureGates', 'controllerResources', 'replicas', 'controllerRoleArn',
+    ]);
+  const monitoring = env.monitoring === undefined
+    ? undefined
+    : reader.object(env.monitoring, 'monitoring', ['alarmTopicArn', 'alarmEmails', 'limitSaturationPercent']);
+  const registryMirrors = env.registryMirrors === undefined
+    ? undefined
+    : reader.object(env.registryMirrors, 'registryMirrors', ['pullThroughCache', 'mirrors']);
+  const githubRunners = env.githubRunners === undefined
+    ? undefined
+    : reader.object(env.githubRunners, 'githubRunners', [
+      'url', 'organization', 'configSecret', 'credentialsSecretArn', 'authentication', 'registry', 'pullSecretNamespaces', 'scaleSets',
+    ]);
+  const nexus = env.nexus === undefined
+    ? undefined
+    : reader.object(env.nexus, 'nexus', ['ingressHost', 'clusterIssuer', 'storageClass', 'storageSize', 'resources']);
+  const addons = env.addons === undefined
+    ? undefined
+    : reader.object(env.addons, 'addons', ADDON_NAMES);
+  const nodePools = env.nodePools === undefined
+    ? undefined
+    : reader.object(env.nodePools, 'nodePools', NODE_POOL_NAMES);
+
+  const config: EnvironmentConfig = {
+    name,
+    stackName: reader.string(env.stackName, 'stackName', /^[A-Za-z][A-Za-z0-9-]*$/),
+    account: reader.optional(env.account, 'account', (v, p) => reader.string(v, p, /^\d{12}$/)),
+    region: reader.optional(env.region, 'region', (v, p) => reader.string(v, p, /^[a-z]{2}(-[a-z]+)+-\d$/)),
+    clusterName: reader.string(env.clusterName, 'clusterName', /^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/),
+    kubernetesVersion: reader.string(env.kubernetesVersion, 'kubernetesVersion', /^1\.\d+$/),
+    network: {
+      vpcCidr: reader.string(network.vpcCidr, 'network.vpcCidr', /^(\d{1,3}\.){3}\d{1,3}\/(1[6-9]|2[0-8])$/),
+      maxAzs: reader.integer(network.maxAzs, 'network.maxAzs', 1, 6),
+      natGateways: reader.integer(network.natGateways, 'network.natGateways', 0, 6),
+      serviceCidr: reader.optional(network.serviceCidr, 'network.serviceCidr', (v, p) =>
+        reader.string(v, p, /^(\d{1,3}\.){3}\d{1,3}\/(1[2-9]|2[0-4])$/)),
+      private: reader.optional(network.private, 'network.private', (v, p) => reader.boolean(v, p)),
+    },
+    iam: iam && {
+      permissionsBoundaryArn: reader.optional(iam.permissionsBoundaryArn, 'iam.permissionsBoundaryArn', (v, p) =>
+        reader.string(v, p, /^arn:aws[a-z-]*:iam::(\d{12}|aws):policy\/.+$/)),
+      path: reader.optional(iam.path, 'iam.path', (v, p) => reader.string(v, p)),
+      namePrefix: reader.optional(iam.namePrefix, 'iam.namePrefix', (v, p) => reader.string(v, p)),
+    },
+    cni: reader.optional(env.cni, 'cni', (v, p) => reader.oneOf(v, p, ['aws-vpc-cni', 'cilium'] as const)),
+    addons: addons && Object.fromEntries(
+      Object.entries(addons).map(([addon, value]) => [addon, parseAddon(reader, value, `addons.${addon}`)]),
+    ),
+    proxy: proxy && {
+      httpsProxy: reader.string(proxy.httpsProxy, 'proxy.httpsProxy', /^https?:\/\/[^\s/]+\/?$/),
+      noProxy: reader.optional(proxy.noProxy, 'proxy.noProxy', (v, p) =>
+        reader.list(v, p, (item, itemPath) => reader.string(item, itemPath, /^[^\s,]+$/))),
+    },
+    encryption: encryption && {
+      keyArn: reader.optional(encryption.keyArn, 'encryption.keyArn', (v, p) =>
+        reader.string(v, p, /^arn:aws[a-z-]*:kms:[a-z0-9-]+:\d{12}:key\/[0-9a-f-]+$/)),
+    },
+    storage: storage && {
+      kmsKeyArn: reader.optional(storage.kmsKeyArn, 'storage.kmsKeyArn', (v, p) =>
+        reader.string(v, p, /^arn:aws[a-z-]*:kms:[a-z0-9-]+:\d{12}:key\/[0-9a-f-]+$/)),
+      io2: reader.optional(storage.io2, 'storage.io2', (v, p) => {
+        const io2 = reader.object(v, p, ['iopsPerGb']);
+        return { iopsPerGb: reader.optional(io2.iopsPerGb, `${p}.iopsPerGb`, (iv, ip) => reader.integer(iv, ip, 1, 1000)) };
+      }),
+      retain: reader.optional(storage.retain, 'storage.retain', (v, p) => reader.boolean(v, p)),
+    },
+    credentialMode: reader.optional(env.credentialMode, 'credentialMode', (v, p) =>
+      reader.oneOf(v, p, Object.values(CredentialMode))),
+    karpenter: karpenter && {
+      version: reader.optional(karpenter.version, 'karpenter.version', (v, p) => reader.string(v, p, /^\d+\.\d+\.\d+$/)),
+      logLevel: reader.optional(karpenter.logLevel, 'karpenter.logLevel', (v, p) => reader.oneOf(v, p, ['debug', 'info', 'error'] as const)),
+      batchMaxDuration: reader.optional(karpenter.batchMaxDuration, 'karpenter.batchMaxDuration', (v, p) => reader.duration(v, p)),
+      batchIdleDuration: reader.optional(karpenter.batchIdleDuration, 'karpenter.batchIdleDuration', (v, p) => reader.duration(v, p)),
+      featureGates: reader.optional(karpenter.featureGates, 'karpenter.featureGates', (v, p) => {
+        const gates = reader.object(v, p, ['spotToSpotConsolidation', 'nodeRepair', 'reservedCapacity']);
+        return {
+          spotToSpotConsolidation: reader.optional(gates.spotToSpotConsolidation, `${p}.spotToSpotConsolidation`, (gv, gp) => reader.boolean(gv, gp)),
+          nodeRepair: reader.optional(gates.nodeRepair, `${p}.nodeRepair`, (gv, gp) => reader.boolean(gv, gp)),
+          reservedCapacity: reader.optional(gates.reservedCapacity, `${p}.reservedCapacity`, (gv, gp) => reader.boolean(gv, gp)),
+        };
+      }),
+      controllerResources: reader.optional(karpenter.controllerResources, 'karpenter.controllerResources', (v, p) =>
+        parseResources(reader, v, p)),
+      replicas: reader.optional(karpenter.replicas, 'karpenter.replicas', (v, p) => reader.integer(v, p, 1, 10)),
+      controllerRoleArn: reader.optional(karpenter.controllerRoleArn, 'karpenter.controllerRoleArn', (v, p) =>
+        reader.string(v, p, /^arn:aws[a-z-]*:iam::\d{12}:role\/.+$/)),
+    },
+    monitoring: monitoring && {
+      alarmTopicArn: reader.optional(monitoring.alarmTopicArn, 'monitoring.alarmTopicArn', (v, p) =>
+        reader.string(v, p, /^arn:aws[a-z-]*:sns:[a-z0-9-]+:\d{12}:[A-Za-z0-9_-]+$/)),
+      alarmEmails: reader.optional(monitoring.alarmEmails, 'monitoring.alarmEmails', (v, p) =>
+        reader.list(v, p, (item, itemPath) => reader.string(item, itemPath, /^[^@\s]+@[^@\s]+$/))),
+      limitSaturationPercent: reader.optional(monitoring.limitSaturationPercent, 'monitoring.limitSaturationPercent', (v, p) =>
+        reader.integer(v, p, 1, 100)),
+    },
+    registryMirrors: registryMirrors && {
+      pullThroughCache: reader.optional(registryMirrors.pullThroughCache, 'registryMirrors.pullThroughCache', (v, p) =>
+        reader.list(v, p, (item, itemPath) => {
+          const rule = reader.object(item, itemPath, ['upstream', 'credentialArn', 'repositoryPrefix']);
+          return {
+            upstream: reader.oneOf(rule.upstream, `${itemPath}.upstream`, ['docker-hub', 'ghcr', 'quay', 'ecr-public'] as const),
+            credentialArn: reader.optional(rule.credentialArn, `${itemPath}.credentialArn`, (cv, cp) =>
+              reader.string(cv, cp, /^arn:aws[a-z-]*:secretsmanager:[a-z0-9-]+:\d{12}:secret:ecr-pullthroughcache\/.+$/)),
+            repositoryPrefix: reader.optional(rule.repositoryPrefix, `${itemPath}.repositoryPrefix`, (cv, cp) =>
+              reader.string(cv, cp, /^[a-z0-9][a-z0-9._\/-]{1,29}$/)),
+          };
+        })),
+      mirrors: reader.optional(registryMirrors.mirrors, 'registryMirrors.mirrors', (v, p) =>
+        reader.list(v, p, (item, itemPath) => {
+          const mirror = reader.object(item, itemPath, ['registry', 'endpoints']);
+          return {
+            registry: reader.string(mirror.registry, `${itemPath}.registry`),
+            endpoints: reader.list(mirror.endpoints, `${itemPath}.endpoints`, (ev, ep) => reader.string(ev, ep, /^https?:\/\/.+$/)),
+          };
+        })),
+    },
+    githubRunners: githubRunners && {
+      url: reader.string(githubRunners.url, 'githubRunners.url', /^https:\/\/[^/]+$/),
+      organization: reader.string(githubRunners.organization, 'githubRunners.organization', /^[A-Za-z0-9-]+$/),
+      configSecret: reader.optional(githubRunners.configSecret, 'githubRunners.configSecret', (v, p) => reader.string(v, p)),
+      credentialsSecretArn: reader.optional(githubRunners.credentialsSecretArn, 'githubRunners.credentialsSecretArn', (v, p) =>
+        reader.string(v, p, /^arn:aws[a-z-]*:secretsmanager:[a-z0-9-]+:\d{12}:secret:.+-[A-Za-z0-9]{6}$/)),
+      authentication: reader.optional(githubRunners.authentication, 'githubRunners.authentication', (v, p) =>
+        reader.oneOf(v, p, ['app', 'token'] as const)),
+      registry: reader.optional(githubRunners.registry, 'githubRunners.registry', (v, p) => reader.string(v, p, /^[a-z0-9.-]+(:\d+)?$/)),
+      pullSecretNamespaces: reader.optional(githubRunners.pullSecretNamespaces, 'githubRunners.pullSecretNamespaces', (v, p) =>
+        reader.list(v, p, (item, itemPath) => reader.string(item, itemPath))),
+      scaleSets: reader.optional(githubRunners.scaleSets, 'githubRunners.scaleSets', (v, p) =>
+        reader.list(v, p, (item, itemPath) => parseScaleSet(reader, item, itemPath))),
+    },
+    nexus: nexus && {
+      ingressHost: reader.optional(nexus.ingressHost, 'nexus.ingressHost', (v, p) => reader.string(v, p, /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?$/)),
+      clusterIssuer: reader.optional(nexus.clusterIssuer, 'nexus.clusterIssuer', (v, p) => reader.string(v, p)),
+      storageClass: reader.optional(nexus.storageClass, 'nexus.storageClass', (v, p) => reader.string(v, p)),
+      storageSize: reader.optional(nexus.storageSize, 'nexus.storageSize', (v, p) => reader.string(v, p, /^\d+(Gi|Ti)$/)),
+      resources: reader.optional(nexus.resources, 'nexus.resources', (v, p) => parseResources(reader, v, p)),
+    },
+    nodePools: nodePools && Object.fromEntries(
+      Object.entries(nodePools).map(([pool, value]) => [pool, parseNodePool(reader, value, `nodePools.${pool}`)]),
+    ),
+    tags: reader.stringMap(env.tags, 'tags'),
+  };
+
+  if (config.iam) {
+    try {
+      validateIamSettings(config.iam);
+    } catch (err) {
+      reader.fail('iam', `is invalid: ${(err as Error).message}`);
+    }
+  }
+  if (config.karpenter?.controllerRoleArn && config.credentialMode !== CredentialMode.POD_IDENTITY) {
+    reader.fail('karpenter.controllerRoleArn', `requires credentialMode '${CredentialMode.POD_IDENTITY}'`);
+  }
+  if (config.monitoring?.alarmTopicArn && config.monitoring.alarmEmails) {
+    reader.fail('monitoring', 'cannot set both alarmTopicArn and alarmEmails');
+  }
+  for (const addon of ['vpc-cni', 'kube-proxy'] as const) {
+    if (config.cni === 'cilium' && config.addons?.[addon]?.enabled) {
+      reader.fail(`addons.${addon}`, "cannot be enabled with cni 'cilium', which replaces it");
+    }
+  }
+  if (config.storage && config.addons?.['aws-ebs-csi-driver']?.enabled === false) {
+    reader.fail('storage', 'requires the aws-ebs-csi-driver add-on');
+  }
+  if (config.network.natGateways > config.network.maxAzs) {
+    reader.fail('network.natGateways', `(${config.network.natGateways}) exceeds network.maxAzs (${config.network.maxAzs})`);
+  }
+  if (config.network.private) {
+    if (config.network.natGateways === 0) {
+      reader.fail('network.private', 'requires natGateways > 0, since the kubectl handler fetches the Helm charts from the internet');
+    }
+    const required: PullThroughCacheUpstream[] = [
+      'ecr-public',
+      ...config.cni === 'cilium' ? ['quay' as const] : [],
+      // The ARC controller and External Secrets Operator, which syncs the runner credentials, come from ghcr.io
+      ...config.githubRunners ? ['ghcr' as const] : [],
+      ...config.nexus ? ['docker-hub' as const] : [],
+    ];
+    const cached = (config.registryMirrors?.pullThroughCache ?? []).map(rule => rule.upstream);
+    const missing = required.filter(upstream => !cached.includes(upstream));
+    if (missing.length > 0) {
+      reader.fail('network.private', `requires registryMirrors.pullThroughCache rules for ${missing.join(', ')}, since isolated nodes only pull images from ECR`);
+    }
+  }
+  return config;
+}
+
+function parseAddon(reader: ConfigReader, raw: unknown, at: string): ManagedAddonOptions {
+  const addon = reader.object(raw, at, ['enabled', 'version', 'configurationValues']);
+
+  return {
+    enabled: reader.optional(addon.enabled, `${at}.enabled`, (v, p) => reader.boolean(v, p)),
+    version: reader.optional(addon.version, `${at}.version`, (v, p) => reader.string(v, p, /^v\d+\.\d+\.\d+-eksbuild\.\d+$/)),
+    configurationValues: reader.optional(addon.configurationValues, `${at}.configurationValues`, (v, p) =>
+      reader.object(v, p, Object.keys(isObject(v) ? v : {}))),
+  };
+}
+
+function parseNodePool(reader: ConfigReader, raw: unknown, at: string): NodePoolConfig {
+  const pool = reader.object(raw, at, [
+    'architectures', 'instanceTypes', 'instanceRequirements', 'capacityStrategy', 'spot', 'onDemand', 'capacityTypes', 'expireAfter',
+    'terminationGracePeriod', 'disruptionBudgets', 'businessHoursFreeze', 'limits',
+  ]);
+  if (pool.instanceTypes !== undefined && pool.instanceRequirements !== undefined) {
+    reader.fail(at, 'cannot set both instanceTypes and instanceRequirements');
+  }
+  if (pool.capacityTypes !== undefined && pool.capacityStrategy !== 'mixed') {
+    reader.fail(`${at}.capacityTypes`, "requires capacityStrategy 'mixed'");
+  }
+  const capacityPool = (value: unknown, path: string) => {
+    const options = reader.object(value, path, ['weight', 'limits']);
+    return {
+      weight: reader.optional(options.weight, `${path}.weight`, (v, p) => reader.integer(v, p, 1, 100)),
+      limits: reader.optional(options.limits, `${path}.limits`, (v, p) => parseLimits(reader, v, p)),
+    };
+  };
+
+  return {
+    architectures: reader.optional(pool.architectures, `${at}.architectures`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => reader.oneOf(item, itemPath, ['amd64', 'arm64'] as const))),
+    instanceTypes: reader.optional(pool.instanceTypes, `${at}.instanceTypes`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => reader.string(item, itemPath, /^[a-z][a-z0-9-]*\.[a-z0-9]+$/))),
+    instanceRequirements: reader.optional(pool.instanceRequirements, `${at}.instanceRequirements`, (v, p) =>
+      parseInstanceRequirements(reader, v, p)),
+    capacityStrategy: reader.optional(pool.capacityStrategy, `${at}.capacityStrategy`, (v, p) =>
+      reader.oneOf(v, p, ['mixed', 'spot-first', 'on-demand'] as const)),
+    spot: reader.optional(pool.spot, `${at}.spot`, capacityPool),
+    onDemand: reader.optional(pool.onDemand, `${at}.onDemand`, capacityPool),
+    capacityTypes: reader.optional(pool.capacityTypes, `${at}.capacityTypes`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => reader.oneOf(item, itemPath, ['spot', 'on-demand'] as const))),
+    expireAfter: reader.optional(pool.expireAfter, `${at}.expireAfter`, (v, p) => reader.string(v, p, /^(\d+(s|m|h))+$|^Never$/)),
+    terminationGracePeriod: reader.optional(pool.terminationGracePeriod, `${at}.terminationGracePeriod`, (v, p) =>
+      reader.string(v, p, /^(\d+(s|m|h))+$/)),
+    disruptionBudgets: reader.optional(pool.disruptionBudgets, `${at}.disruptionBudgets`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => parseDisruptionBudget(reader, item, itemPath))),
+    businessHoursFreeze: reader.optional(pool.businessHoursFreeze, `${at}.businessHoursFreeze`, (v, p) =>
+      parseBusinessHoursFreeze(reader, v, p)),
+    limits: reader.optional(pool.limits, `${at}.limits`, (v, p) => parseLimits(reader, v, p)),
+  };
+}
+
+function parseDisruptionBudget(reader: ConfigReader, raw: unknown, at: string): DisruptionBudget {
+  const budget = reader.object(raw, at, ['nodes', 'schedule', 'duration', 'reasons']);
+  if ((budget.schedule === undefined) !== (budget.duration === undefined)) {
+    reader.fail(at, 'schedule and duration must be set together');
+  }
+
+  return {
+    nodes: reader.string(budget.nodes, `${at}.nodes`, /^((100|[0-9]{1,2})%|[0-9]+)$/),
+    schedule: reader.optional(budget.schedule, `${at}.schedule`, (v, p) => reader.string(v, p)),
+    duration: reader.optional(budget.duration, `${at}.duration`, (v, p) => reader.string(v, p, /^\d+h(\d+m)?$|^\d+m$/)),
+    reasons: reader.optional(budget.reasons, `${at}.reasons`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => reader.oneOf(item, itemPath, ['Underutilized', 'Empty', 'Drifted'] as const))),
+  };
+}
+
+function parseBusinessHoursFreeze(reader: ConfigReader, raw: unknown, at: string): BusinessHoursFreezeOptions {
+  const freeze = reader.object(raw, at, ['startHour', 'hours', 'days', 'reasons', 'nodes']);
+
+  return {
+    startHour: reader.optional(freeze.startHour, `${at}.startHour`, (v, p) => reader.integer(v, p, 0, 23)),
+    hours: reader.optional(freeze.hours, `${at}.hours`, (v, p) => reader.integer(v, p, 1, 24)),
+    days: reader.optional(freeze.days, `${at}.days`, (v, p) => reader.string(v, p)),
+    reasons: reader.optional(freeze.reasons, `${at}.reasons`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => reader.oneOf(item, itemPath, ['Underutilized', 'Empty', 'Drifted'] as const))),
+    nodes: reader.optional(freeze.nodes, `${at}.nodes`, (v, p) => reader.string(v, p, /^((100|[0-9]{1,2})%|[0-9]+)$/)),
+  };
+}
+
+function parseLimits(reader: ConfigReader, raw: unknown, at: string): NonNullable<NodePoolConfig['limits']> {
+  const limits = reader.object(raw, at, ['cpu', 'memory']);
+
+  return {
+    cpu: reader.optional(limits.cpu, `${at}.cpu`, (v, p) => reader.string(v, p, /^\d+m?$/)),
+    memory: reader.optional(limits.memory, `${at}.memory`, (v, p) => reader.string(v, p, /^\d+(Ki|Mi|Gi|Ti)?$/)),
+  };
+}
+
+function parseInstanceRequirements(reader: ConfigReader, raw: unknown, at: string): NodePoolConfig['instanceRequirements'] {
+  const requirements = reader.object(raw, at, [
+    'categories', 'minGeneration', 'cpu', 'memory', 'excludedFamilies', 'localNvme', 'minNetworkBandwidth',
+  ]);
+  const range = <T>(value: unknown, path: string, read: (v: unknown, p: string) => T) => {
+    const bounds = reader.object(value, path, ['min', 'max']);
+    return {
+      min: reader.optional(bounds.min, `${path}.min`, read),
+      max: reader.optional(bounds.max, `${path}.max`, read),
+    };
+  };
+
+  return {
+    categories: reader.optional(requirements.categories, `${at}.categories`, (v, p) =>
+      reader.list(v, p, (item, itemPath) =>
+        reader.oneOf(item, itemPath, ['general', 'compute', 'memory', 'storage', 'burstable', 'accelerated'] as const))),
+    minGeneration: reader.optional(requirements.minGeneration, `${at}.minGeneration`, (v, p) => reader.integer(v, p, 1, 20)),
+    cpu: reader.optional(requirements.cpu, `${at}.cpu`, (v, p) => range(v, p, (cv, cp) => reader.integer(cv, cp, 1, 1024))),
+    memory: reader.optional(requirements.memory, `${at}.memory`, (v, p) =>
+      range(v, p, (mv, mp) => reader.string(mv, mp, /^\d+(Mi|Gi|Ti)$/))),
+    excludedFamilies: reader.optional(requirements.excludedFamilies, `${at}.excludedFamilies`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => reader.string(item, itemPath, /^[a-z][a-z0-9-]*$/))),
+    localNvme: reader.optional(requirements.localNvme, `${at}.localNvme`, (v, p) => reader.boolean(v, p)),
+    minNetworkBandwidth: reader.optional(requirements.minNetworkBandwidth, `${at}.minNetworkBandwidth`, (v, p) =>
+      reader.integer(v, p, 1, 400000)),
+  };
+}
+
+function parseResources(reader: ConfigReader, raw: unknown, at: string): ResourceRequirements {
+  const resources = reader.object(raw, at, ['requests', 'limits']);
+  const amounts = (value: unknown, path: string) => {
+    const amount = reader.object(value, path, ['cpu', 'memory']);
+    return {
+      cpu: reader.optional(amount.cpu, `${path}.cpu`, (v, p) => reader.string(v, p, /^\d+(\.\d+)?m?$/)),
+      memory: reader.optional(amount.memory, `${path}.memory`, (v, p) => reader.string(v, p, /^\d+(Ki|Mi|Gi|Ti)?$/)),
+    };
+  };
+
+  return {
+    requests: reader.optional(resources.requests, `${at}.requests`, amounts),
+    limits: reader.optional(resources.limits, `${at}.limits`, amounts),
+  };
+}
+
+function parseScaleSet(reader: ConfigReader, raw: unknown, at: string): NonNullable<GitHubRunnersConfig['scaleSets']>[number] {
+  const scaleSet = reader.object(raw, at, ['name', 'labels', 'architecture', 'capacityTypeMaxSkew', 'minRunners', 'maxRunners', 'containerMode']);
+
+  return {
+    name: reader.string(scaleSet.name, `${at}.name`, /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/),
+    labels: reader.optional(scaleSet.labels, `${at}.labels`, (v, p) =>
+      reader.list(v, p, (item, itemPath) => reader.string(item, itemPath))),
+    architecture: reader.optional(scaleSet.architecture, `${at}.architecture`, (v, p) => reader.oneOf(v, p, ['amd64', 'arm64'] as const)),
+    capacityTypeMaxSkew: reader.optional(scaleSet.capacityTypeMaxSkew, `${at}.capacityTypeMaxSkew`, (v, p) => reader.integer(v, p, 1, 1000)),
+    minRunners: reader.optional(scaleSet.minRunners, `${at}.minRunners`, (v, p) => reader.integer(v, p, 0, 1000)),
+    maxRunners: reader.optional(scaleSet.maxRunners, `${at}.maxRunners`, (v, p) => reader.integer(v, p, 1, 1000)),
+    containerMode: reader.optional(scaleSet.containerMode, `${at}.containerMode`, (v, p) =>
+      reader.oneOf(v, p, ['dind', 'kubernetes'] as const)),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Typed accessors that report the offending environment and key path
+ */
+class ConfigReader {
+  constructor(private readonly environment: string) {}
+
+  public object(value: unknown, at: string, keys: readonly string[]): Record<string, unknown> {
+    if (!isObject(value)) {
+      this.fail(at, 'must be an object');
+    }
+    for (const key of Object.keys(value)) {
+      if (!keys.includes(key)) {
+        this.fail(at ? `${at}.${key}` : key, `is not a known setting (expected one of: ${keys.join(', ')})`);
+      }
+    }
+    return value;
+  }
+
+  public string(value: unknown, at: string, pattern?: RegExp): string {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(at, 'must be a non-empty string');
+    }
+    if (pattern && !pattern.test(value)) {
+      this.fail(at, `'${value}' does not match ${pattern}`);
+    }
+    return value;
+  }
+
+  public integer(value: unknown, at: string, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      this.fail(at, `must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  public duration(value: unknown, at: string): cdk.Duration {
+    const [, amount, unit] = /^(\d+)(s|m)$/.exec(this.string(value, at, /^\d+(s|m)$/))!;
+    return unit === 's' ? cdk.Duration.seconds(Number(amount)) : cdk.Duration.minutes(Number(amount));
+  }
+
+  public boolean(value: unknown, at: string): boolean {
+    if (typeof value !== 'boolean') {
+      this.fail(at, 'must be true or false');
+    }
+    return value;
+  }
+
+  public oneOf<T extends string>(value: unknown, at: string, allowed: readonly T[]): T {
+    if (!allowed.includes(value as T)) {
+      this.fail(at, `must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  public list<T>(value: unknown, at: string, item: (value: unknown, at: string) => T): T[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.fail(at, 'must be a non-empty list');
+    }
+    return value.map((entry, index) => item(entry, `${at}[${index}]`));
+  }
+
+  public stringMap(value: unknown, at: string): Record<string, string> {
+    const map = this.object(value, at, Object.keys(isObject(value) ? value : {}));
+    return Object.fromEntries(Object.entries(map).map(([key, entry]) => [key, this.string(entry, `${at}.${key}`)]));
+  }
+
+  public optional<T>(value: unknown, at: string, read: (value: unknown, at: string) => T): T | undefined {
+    return value === undefined ? undefined : read(value, at);
+  }
+
+  public fail(at: string, message: string): never {
+    throw new Error(`Invalid configuration for environment '${this.environment}': ${at || '<root>'} ${message}`);
+  }
+}
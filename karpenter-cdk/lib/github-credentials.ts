@@ -0,0 +1,260 @@
+import * as cdk from 'aws-cdk-lib';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+import { assertKubernetesName } from './kubernetes-types';
+import { CredentialMode, createWorkloadIdentity, IWorkloadIdentity } from './workload-identity';
+
+export interface GitHubCredentialsProps {
+  /**
+   * The EKS cluster the credentials are synced into
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * Secrets Manager secret holding the credentials as JSON.
+   *
+   * A GitHub App uses `github_app_id`, `github_app_installation_id` and `github_app_private_key`;
+   * a personal access token uses `github_token`. The pull secret is built from
+   * `registry_username` and `registry_password`.
+   */
+  secret: secretsmanager.ISecret;
+
+  /**
+   * Credential fields of the ARC secret
+   * @default 'app'
+   */
+  authentication?: 'app' | 'token';
+
+  /**
+   * Existing namespace of the runner scale sets, e.g. `GitHubRunnerScaleSet.runnerNamespace`
+   * @default 'arc-runners'
+   */
+  runnerNamespace?: string;
+
+  /**
+   * Name of the ARC credential secret in the runner namespace
+   * @default 'github-config'
+   */
+  configSecretName?: string;
+
+  /**
+   * Host of the GitHub Enterprise Server container registry, e.g. `containers.github.example.com`
+   * @default - no pull secrets are created
+   */
+  registry?: string;
+
+  /**
+   * Existing namespaces that receive the registry pull secret
+   * @default ['default']
+   */
+  pullSecretNamespaces?: string[];
+
+  /**
+   * Name of the registry pull secret
+   * @default 'ghes-registry-secret'
+   */
+  pullSecretName?: string;
+
+  /**
+   * How often changes to the secret, such as rotations, are synced
+   * @default cdk.Duration.hours(1)
+   */
+  refreshInterval?: cdk.Duration;
+
+  /**
+   * How External Secrets Operator obtains AWS credentials
+   * @default CredentialMode.IRSA
+   */
+  credentialMode?: CredentialMode;
+
+  /**
+   * Registry serving the External Secrets Operator image in place of ghcr.io, e.g. an ECR pull-through cache
+   * @default - ghcr.io
+   */
+  imageRegistry?: string;
+
+  /**
+   * External Secrets Operator chart version
+   * @default '0.10.4'
+   */
+  version?: string;
+}
+
+/**
+ * Secret fields read for each ARC authentication method
+ */
+const ARC_SECRET_KEYS: Record<NonNullable<GitHubCredentialsProps['authentication']>, string[]> = {
+  app: ['github_app_id', 'github_app_installation_id', 'github_app_private_key'],
+  token: ['github_token'],
+};
+
+/**
+ * CDK Construct for GitHub credentials synced from Secrets Manager
+ * Installs External Secrets Operator and keeps the ARC credential and registry pull secrets in step with the source secret
+ */
+export class GitHubCredentials extends Construct {
+  public static readonly DEFAULT_VERSION = '0.10.4';
+
+  public readonly operatorIdentity: IWorkloadIdentity;
+  public readonly operator: eks.HelmChart;
+  public readonly configSecretName: string;
+  public readonly pullSecretName: string;
+  public readonly manifest: eks.KubernetesManifest;
+
+  constructor(scope: Construct, id: string, props: GitHubCredentialsProps) {
+    super(scope, id);
+
+    const { cluster, secret, registry } = props;
+    const operatorNamespace = 'external-secrets';
+    const runnerNamespace = props.runnerNamespace ?? 'arc-runners';
+    const pullSecretNamespaces = props.pullSecretNamespaces ?? ['default'];
+    const refreshInterval = `${(props.refreshInterval ?? cdk.Duration.hours(1)).toSeconds()}s`;
+    this.configSecretName = props.configSecretName ?? 'github-config';
+    this.pullSecretName = props.pullSecretName ?? 'ghes-registry-secret';
+
+    for (const name of [runnerNamespace, this.configSecretName, this.pullSecretName, ...pullSecretNamespaces]) {
+      assertKubernetesName(this, name);
+    }
+
+    // Create External Secrets Operator namespace and identity
+    const namespace = new eks.KubernetesManifest(this, 'Namespaces', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'v1',
+          kind: 'Namespace',
+          metadata: {
+            name: operatorNamespace,
+          },
+        },
+      ],
+    });
+
+    this.operatorIdentity = createWorkloadIdentity(this, 'OperatorServiceAccount', props.credentialMode ?? CredentialMode.IRSA, {
+      cluster,
+      namespace: operatorNamespace,
+      serviceAccountName: 'external-secrets',
+      description: `IAM Role for External Secrets Operator in cluster ${cluster.clusterName}`,
+    });
+    this.operatorIdentity.node.addDependency(namespace);
+    secret.grantRead(this.operatorIdentity);
+
+    // Install External Secrets Operator; its controller, webhook and cert controller run on the system nodes
+    const tolerations = [
+      {
+        key: 'CriticalAddonsOnly',
+        operator: 'Exists',
+      },
+    ];
+    const image = props.imageRegistry ? { repository: `${props.imageRegistry}/external-secrets/external-secrets` } : undefined;
+    this.operator = new eks.HelmChart(this, 'Operator', {
+      cluster,
+      chart: 'external-secrets',
+      release: 'external-secrets',
+      repository: 'https://charts.external-secrets.io',
+      version: props.version ?? GitHubCredentials.DEFAULT_VERSION,
+      namespace: operatorNamespace,
+      wait: true,
+      values: {
+        installCRDs: true,
+        serviceAccount: {
+          create: false,
+          name: this.operatorIdentity.serviceAccountName,
+        },
+        image,
+        tolerations,
+        webhook: { image, tolerations },
+        certController: { image, tolerations },
+      },
+    });
+    this.operator.node.addDependency(this.operatorIdentity);
+
+    // Sync the ARC credential and the registry pull secrets; the store uses the operator's own credentials
+    const storeName = 'github-credentials';
+    const secretRef = (property: string) => ({
+      secretKey: property,
+      remoteRef: {
+        key: secret.secretArn,
+        property,
+      },
+    });
+
+    const pullSecrets = registry === undefined ? [] : pullSecretNamespaces.map(pullSecretNamespace => ({
+      apiVersion: 'external-secrets.io/v1beta1',
+      kind: 'ExternalSecret',
+      metadata: {
+        name: this.pullSecretName,
+        namespace: pullSecretNamespace,
+      },
+      spec: {
+        refreshInterval,
+        secretStoreRef: {
+          kind: 'ClusterSecretStore',
+          name: storeName,
+        },
+        target: {
+          name: this.pullSecretName,
+          template: {
+            type: 'kubernetes.io/dockerconfigjson',
+            engineVersion: 'v2',
+            data: {
+              '.dockerconfigjson': JSON.stringify({
+                auths: {
+                  [registry]: {
+                    username: '{{ .registry_username }}',
+                    password: '{{ .registry_password }}',
+                    auth: '{{ printf "%s:%s" .registry_username .registry_password | b64enc }}',
+                  },
+                },
+              }),
+            },
+          },
+        },
+        data: ['registry_username', 'registry_password'].map(secretRef),
+      },
+    }));
+
+    this.manifest = new eks.KubernetesManifest(this, 'Resource', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'external-secrets.io/v1beta1',
+          kind: 'ClusterSecretStore',
+          metadata: {
+            name: storeName,
+          },
+          spec: {
+            provider: {
+              aws: {
+                service: 'SecretsManager',
+                region: cdk.Stack.of(this).region,
+              },
+            },
+          },
+        },
+        {
+          apiVersion: 'external-secrets.io/v1beta1',
+          kind: 'ExternalSecret',
+          metadata: {
+            name: this.configSecretName,
+            namespace: runnerNamespace,
+          },
+          spec: {
+            refreshInterval,
+            secretStoreRef: {
+              kind: 'ClusterSecretStore',
+              name: storeName,
+            },
+            target: {
+              name: this.configSecretName,
+            },
+            data: ARC_SECRET_KEYS[props.authentication ?? 'app'].map(secretRef),
+          },
+        },
+        ...pullSecrets,
+      ],
+    });
+    this.manifest.node.addDependency(this.operator);
+  }
+}
@@ -0,0 +1,350 @@
+import * as eks from 'aws-cdk-lib/aws-eks';
+import { Construct } from 'constructs';
+import { KarpenterNodePool } from './karpenter-node-pool';
+import { assertKubernetesName, ResourceRequirements, tolerationFor } from './kubernetes-types';
+import { capacitySpreadConstraint } from './capacity-node-pools';
+import { NodeArchitecture } from './node-architecture';
+
+/**
+ * How runners execute job and service containers
+ */
+export type RunnerContainerMode = 'dind' | 'kubernetes';
+
+/**
+ * Settings of one runner scale set
+ */
+export interface RunnerScaleSetOptions {
+  /**
+   * Name of the scale set, registered with GitHub and used as its Helm release name
+   */
+  name: string;
+
+  /**
+   * Additional labels workflows target with `runs-on`
+   * @default - only the scale set name
+   */
+  labels?: string[];
+
+  /**
+   * Architecture of the runner nodes; its GitHub label (`X64` or `ARM64`) is added to the labels
+   * @default - the NodePool's first architecture
+   */
+  architecture?: NodeArchitecture;
+
+  /**
+   * Spread runners evenly across spot and on-demand nodes, allowing this many more on one capacity type,
+   * so long jobs keep an on-demand floor
+   * @default - runners go to whichever NodePool Karpenter prefers
+   */
+  capacityTypeMaxSkew?: number;
+
+  /**
+   * Number of idle runners kept ready
+   * @default 0
+   */
+  minRunners?: number;
+
+  /**
+   * Maximum number of concurrent runners
+   * @default 10
+   */
+  maxRunners?: number;
+
+  /**
+   * Container mode of the runners
+   * @default - jobs run directly in the runner container
+   */
+  containerMode?: RunnerContainerMode;
+
+  /**
+   * Storage class of the job work volume in `kubernetes` container mode
+   * @default 'gp3'
+   */
+  workVolumeStorageClass?: string;
+
+  /**
+   * Size of the job work volume in `kubernetes` container mode
+   * @default '20Gi'
+   */
+  workVolumeSize?: string;
+
+  /**
+   * Runner container resources
+   * @default - 2 CPU and 4Gi memory requested, 4 CPU and 8Gi memory limits
+   */
+  resources?: ResourceRequirements;
+
+  /**
+   * Runner image
+   * @default GitHubRunnerScaleSet.DEFAULT_RUNNER_IMAGE
+   */
+  image?: string;
+}
+
+export interface GitHubRunnerScaleSetProps {
+  /**
+   * The EKS cluster the runners run in
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * NodePools the runners are scheduled onto, e.g. a spot pool and its on-demand fallback
+   */
+  nodePools: KarpenterNodePool[];
+
+  /**
+   * URL of the GitHub Enterprise Server instance, e.g. `https://github.example.com`
+   */
+  githubUrl: string;
+
+  /**
+   * Organization the runners register with
+   */
+  organization: string;
+
+  /**
+   * Secret in the runner namespace holding the GitHub App or token credentials
+   */
+  githubConfigSecret: string;
+
+  /**
+   * Runner scale sets to install
+   */
+  scaleSets: RunnerScaleSetOptions[];
+
+  /**
+   * ARC chart version used for the controller and the scale sets
+   * @default '0.13.0'
+   */
+  version?: string;
+
+  /**
+   * Registry serving the controller and listener image in place of ghcr.io, e.g. an ECR pull-through cache
+   * @default - ghcr.io
+   */
+  imageRegistry?: string;
+
+  /**
+   * Namespace of the ARC controller
+   * @default 'arc-systems'
+   */
+  controllerNamespace?: string;
+
+  /**
+   * Namespace of the runners
+   * @default 'arc-runners'
+   */
+  runnerNamespace?: string;
+}
+
+/**
+ * Runner label GitHub uses for each architecture
+ */
+const ARCHITECTURE_LABELS: Record<NodeArchitecture, string> = {
+  amd64: 'X64',
+  arm64: 'ARM64',
+};
+
+/**
+ * CDK Construct for GitHub Actions Runner Controller scale sets
+ * Installs the ARC controller and runner scale sets scheduled onto Karpenter NodePools
+ */
+export class GitHubRunnerScaleSet extends Construct {
+  public static readonly REPOSITORY = 'oci://ghcr.io/actions/actions-runner-controller-charts';
+  public static readonly DEFAULT_VERSION = '0.13.0';
+  public static readonly DEFAULT_RUNNER_IMAGE = 'ghcr.io/actions/actions-runner:2.328.0';
+
+  public readonly version: string;
+  public readonly controllerNamespace: string;
+  public readonly runnerNamespace: string;
+
+  /**
+   * The runner namespace; constructs placing objects in it, such as the ARC credential secret, should depend on it
+   */
+  public readonly runnerNamespaceManifest: eks.KubernetesManifest;
+  public readonly controller: eks.HelmChart;
+  public readonly scaleSets: eks.HelmChart[] = [];
+
+  private readonly props: GitHubRunnerScaleSetProps;
+
+  constructor(scope: Construct, id: string, props: GitHubRunnerScaleSetProps) {
+    super(scope, id);
+
+    const { cluster } = props;
+    this.props = props;
+    this.version = props.version ?? GitHubRunnerScaleSet.DEFAULT_VERSION;
+    this.controllerNamespace = props.controllerNamespace ?? 'arc-systems';
+    this.runnerNamespace = props.runnerNamespace ?? 'arc-runners';
+    assertKubernetesName(this, this.controllerNamespace);
+    assertKubernetesName(this, this.runnerNamespace);
+
+    if (!/^https:\/\/[^/]+$/.test(props.githubUrl)) {
+      throw new Error(`${this.node.path}: githubUrl '${props.githubUrl}' must be an https URL without a path`);
+    }
+    if (props.nodePools.length === 0) {
+      throw new Error(`${this.node.path}: at least one NodePool is required`);
+    }
+    if (props.scaleSets.length === 0) {
+      throw new Error(`${this.node.path}: at least one scale set is required`);
+    }
+
+    // Create the runner namespace, owned here so it lives as long as the runners in it
+    this.runnerNamespaceManifest = new eks.KubernetesManifest(this, 'RunnerNamespace', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'v1',
+          kind: 'Namespace',
+          metadata: {
+            name: this.runnerNamespace,
+          },
+        },
+      ],
+    });
+
+    // Create ARC controller
+    this.controller = new eks.HelmChart(this, 'Controller', {
+      cluster,
+      chart: 'gha-runner-scale-set-controller',
+      release: 'arc',
+      repository: `${GitHubRunnerScaleSet.REPOSITORY}/gha-runner-scale-set-controller`,
+      version: this.version,
+      namespace: this.controllerNamespace,
+      wait: true,
+      values: {
+        image: props.imageRegistry ? { repository: `${props.imageRegistry}/actions/gha-runner-scale-set-controller` } : undefined,
+        // Run next to Karpenter on the system nodes
+        tolerations: [
+          {
+            key: 'CriticalAddonsOnly',
+            operator: 'Exists',
+          },
+        ],
+      },
+    });
+
+    for (const options of props.scaleSets) {
+      this.addScaleSet(options);
+    }
+  }
+
+  /**
+   * Installs a runner scale set scheduled onto the NodePool
+   */
+  public addScaleSet(options: RunnerScaleSetOptions): eks.HelmChart {
+    const { cluster, nodePools } = this.props;
+    assertKubernetesName(this, options.name);
+
+    const minRunners = options.minRunners ?? 0;
+    const maxRunners = options.maxRunners ?? 10;
+    if (minRunners < 0 || maxRunners < 1 || minRunners > maxRunners) {
+      throw new Error(`${this.node.path}: scale set '${options.name}' needs 0 <= minRunners <= maxRunners and maxRunners >= 1`);
+    }
+    if (this.scaleSets.some(chart => chart.node.id === options.name)) {
+      throw new Error(`${this.node.path}: scale set '${options.name}' is defined more than once`);
+    }
+    const architecture = options.architecture ?? nodePools[0].architectures[0];
+    const mismatched = nodePools.filter(pool => !pool.architectures.includes(architecture));
+    if (mismatched.length > 0) {
+      throw new Error(`${this.node.path}: scale set '${options.name}' needs ${architecture} nodes, which NodePool ${mismatched.map(pool => `'${pool.nodePoolName}'`).join(', ')} does not launch`);
+    }
+    if (options.capacityTypeMaxSkew !== undefined && (!Number.isInteger(options.capacityTypeMaxSkew) || options.capacityTypeMaxSkew < 1)) {
+      throw new Error(`${this.node.path}: scale set '${options.name}' needs a positive integer capacityTypeMaxSkew`);
+    }
+    const capacityTypes = new Set(nodePools.flatMap(pool => pool.capacityTypes));
+    if (options.capacityTypeMaxSkew !== undefined && capacityTypes.size < 2) {
+      throw new Error(`${this.node.path}: scale set '${options.name}' spreads across capacity types, but its NodePools only launch ${[...capacityTypes].join(', ')}`);
+    }
+    const tolerations = nodePools.flatMap(pool => (pool.taints ?? []).map(tolerationFor));
+    const labels = options.labels ?? [];
+
+    const containerMode = options.containerMode === 'kubernetes'
+      ? {
+        type: 'kubernetes',
+        kubernetesModeWorkVolumeClaim: {
+          accessModes: ['ReadWriteOnce'],
+          storageClassName: options.workVolumeStorageClass ?? 'gp3',
+          resources: {
+            requests: {
+              storage: options.workVolumeSize ?? '20Gi',
+            },
+          },
+        },
+      }
+      : options.containerMode && { type: options.containerMode };
+
+    const chart = new eks.HelmChart(this, options.name, {
+      cluster,
+      chart: 'gha-runner-scale-set',
+      release: options.name,
+      repository: `${GitHubRunnerScaleSet.REPOSITORY}/gha-runner-scale-set`,
+      version: this.version,
+      namespace: this.runnerNamespace,
+      values: {
+        githubConfigUrl: `${this.props.githubUrl}/${this.props.organization}`,
+        githubConfigSecret: this.props.githubConfigSecret,
+        runnerScaleSetName: options.name,
+        scaleSetLabels: labels.includes(ARCHITECTURE_LABELS[architecture]) ? labels : [...labels, ARCHITECTURE_LABELS[architecture]],
+        minRunners,
+        maxRunners,
+        containerMode,
+        controllerServiceAccount: {
+          namespace: this.controllerNamespace,
+          name: 'arc-gha-rs-controller',
+        },
+        template: {
+          metadata: {
+            // Keep Karpenter from draining a node while a runner on it executes a job
+            annotations: {
+              'karpenter.sh/do-not-disrupt': 'true',
+            },
+          },
+          spec: {
+            // Schedule runners onto the NodePools' nodes only
+            nodeSelector: {
+              'kubernetes.io/arch': architecture,
+            },
+            affinity: {
+              nodeAffinity: {
+                requiredDuringSchedulingIgnoredDuringExecution: {
+                  nodeSelectorTerms: [
+                    {
+                      matchExpressions: [
+                        {
+                          key: 'karpenter.sh/nodepool',
+                          operator: 'In',
+                          values: nodePools.map(pool => pool.nodePoolName),
+                        },
+                      ],
+                    },
+                  ],
+                },
+              },
+            },
+            topologySpreadConstraints: options.capacityTypeMaxSkew === undefined ? undefined : [
+              capacitySpreadConstraint({ 'actions.github.com/scale-set-name': options.name }, options.capacityTypeMaxSkew),
+            ],
+            tolerations: tolerations.filter((toleration, index) =>
+              tolerations.findIndex(other => JSON.stringify(other) === JSON.stringify(toleration)) === index),
+            containers: [
+              {
+                name: 'runner',
+                image: options.image ?? GitHubRunnerScaleSet.DEFAULT_RUNNER_IMAGE,
+                command: ['/home/runner/run.sh'],
+                resources: options.resources ?? {
+                  requests: { cpu: '2', memory: '4Gi' },
+                  limits: { cpu: '4', memory: '8Gi' },
+                },
+              },
+            ],
+          },
+        },
+      },
+    });
+
+    // The scale set needs the controller's CRDs, and runners need the NodePools to launch nodes
+    chart.node.addDependency(this.controller, this.runnerNamespaceManifest, ...nodePools);
+    this.scaleSets.push(chart);
+    return chart;
+  }
+}
@@ -0,0 +1,93 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { IConstruct } from 'constructs';
+
+/**
+ * Organization-wide controls applied to IAM resources and physical names
+ */
+export interface IamSettings {
+  /**
+   * ARN of the permissions boundary attached to every role
+   */
+  permissionsBoundaryArn?: string;
+
+  /**
+   * IAM path of every role, instance profile and managed policy, e.g. `/platform/`
+   * @default '/'
+   */
+  path?: string;
+
+  /**
+   * Prefix of fixed physical names, so several deployments can share an account
+   * @default ''
+   */
+  namePrefix?: string;
+}
+
+const IAM_PATH = /^\/([\x21-\x7e]*\/)?$/;
+const NAME_PREFIX = /^[A-Za-z0-9_-]*$/;
+
+/**
+ * Throws if the IAM path or name prefix are not valid IAM identifiers
+ */
+export function validateIamSettings(settings: IamSettings): void {
+  if (settings.path !== undefined && (settings.path.length > 512 || !IAM_PATH.test(settings.path))) {
+    throw new Error(`IAM path '${settings.path}' must begin and end with '/'`);
+  }
+  if (settings.namePrefix !== undefined && !NAME_PREFIX.test(settings.namePrefix)) {
+    throw new Error(`Name prefix '${settings.namePrefix}' may only contain alphanumerics, '-' and '_'`);
+  }
+}
+
+/**
+ * Returns `name` with the configured prefix
+ */
+export function prefixedName(settings: IamSettings | undefined, name: string): string {
+  return `${settings?.namePrefix ?? ''}${name}`;
+}
+
+/**
+ * Returns the configured permissions boundary, if any
+ */
+function permissionsBoundary(scope: IConstruct, settings: IamSettings | undefined): iam.IManagedPolicy | undefined {
+  if (!settings?.permissionsBoundaryArn) {
+    return undefined;
+  }
+  const id = 'PermissionsBoundary';
+  const stack = cdk.Stack.of(scope);
+  return (stack.node.tryFindChild(id) as iam.IManagedPolicy | undefined)
+    ?? iam.ManagedPolicy.fromManagedPolicyArn(stack, id, settings.permissionsBoundaryArn);
+}
+
+/**
+ * Applies the permissions boundary and IAM path to every IAM resource under `scope`,
+ * including roles created internally by CDK constructs
+ */
+export function applyIamSettings(scope: IConstruct, settings: IamSettings | undefined): void {
+  if (!settings) {
+    return;
+  }
+  validateIamSettings(settings);
+
+  const boundary = permissionsBoundary(scope, settings);
+  if (boundary) {
+    iam.PermissionsBoundary.of(scope).apply(boundary);
+  }
+  if (settings.path) {
+    cdk.Aspects.of(scope).add(new IamPathAspect(settings.path));
+  }
+}
+
+/**
+ * Sets the IAM path of roles, instance profiles and managed policies that do not set one
+ * `iam.ManagedPolicy` always renders the root path, so `/` counts as not set
+ */
+class IamPathAspect implements cdk.IAspect {
+  constructor(private readonly path: string) {}
+
+  public visit(node: IConstruct): void {
+    if (node instanceof iam.CfnRole || node instanceof iam.CfnInstanceProfile || node instanceof iam.CfnManagedPolicy) {
+      node.path = node.path === undefined || node.path === '/' ? this.path : node.path;
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import { NodeSelectorRequirement, parseQuantity } from './kubernetes-types';
+import { instanceTypeArchitecture, NodeArchitecture } from './node-architecture';
+
+/**
+ * Workload profile of an instance category
+ */
+export type InstanceCategory = 'general' | 'compute' | 'memory' | 'storage' | 'burstable' | 'accelerated';
+
+/**
+ * Inclusive range of a numeric instance attribute
+ */
+export interface AttributeRange<T> {
+  /**
+   * Smallest allowed value
+   */
+  min?: T;
+
+  /**
+   * Largest allowed value
+   */
+  max?: T;
+}
+
+export interface InstanceRequirementsProps {
+  /**
+   * Architectures the pool launches
+   * @default ['amd64']
+   */
+  architectures?: NodeArchitecture[];
+
+  /**
+   * Instance categories, e.g. `compute` for the c families
+   * @default - every category
+   */
+  categories?: InstanceCategory[];
+
+  /**
+   * Oldest instance generation, e.g. `6` for m6i and m6g
+   * @default - every generation
+   */
+  minGeneration?: number;
+
+  /**
+   * vCPUs per instance
+   * @default - any size
+   */
+  cpu?: AttributeRange<number>;
+
+  /**
+   * Memory per instance as Kubernetes quantities, e.g. `{ min: '8Gi' }`
+   * @default - any size
+   */
+  memory?: AttributeRange<string>;
+
+  /**
+   * Instance families never launched, e.g. `['c7gn', 'm5zn']`
+   * @default - none
+   */
+  excludedFamilies?: string[];
+
+  /**
+   * Require local NVMe instance storage, or rule it out with `false`
+   * @default - either
+   */
+  localNvme?: boolean;
+
+  /**
+   * Lowest baseline network bandwidth in Mbps
+   * @default - any bandwidth
+   */
+  minNetworkBandwidth?: number;
+
+  /**
+   * Explicit instance types replacing the attribute selection; each must match one of the architectures
+   * @default - instance types are chosen by attribute
+   */
+  instanceTypes?: string[];
+}
+
+/**
+ * Karpenter `instance-category` values and the GiB of memory per vCPU of each category
+ */
+const CATEGORIES: Record<InstanceCategory, { values: string[]; memoryPerCpu: [number, number] }> = {
+  general: { values: ['m'], memoryPerCpu: [4, 4] },
+  compute: { values: ['c'], memoryPerCpu: [2, 2] },
+  memory: { values: ['r', 'x', 'z'], memoryPerCpu: [8, 32] },
+  storage: { values: ['i', 'd'], memoryPerCpu: [4, 8] },
+  burstable: { values: ['t'], memoryPerCpu: [0.25, 4] },
+  accelerated: { values: ['g', 'p', 'inf', 'trn'], memoryPerCpu: [2, 16] },
+};
+
+/**
+ * Highest baseline bandwidth of burstable instances, in Mbps
+ */
+const BURSTABLE_MAX_BANDWIDTH = 5000;
+
+/**
+ * Attribute settings that select instances without listing types
+ */
+const ATTRIBUTES: Array<keyof InstanceRequirementsProps> = [
+  'categories', 'minGeneration', 'cpu', 'memory', 'excludedFamilies', 'localNvme', 'minNetworkBandwidth',
+];
+
+/**
+ * NodePool requirements built from instance attributes
+ * Expresses instance selection through Karpenter's well-known labels so new generations are picked up without changes
+ */
+export class InstanceRequirements {
+  public readonly props: InstanceRequirementsProps;
+
+  constructor(props: InstanceRequirementsProps) {
+    validate(props);
+    this.props = props;
+  }
+
+  /**
+   * Returns new requirements with the defined `overrides` replacing these; explicit instance types replace
+   * the attribute selection and attributes replace explicit instance types
+   */
+  public with(overrides: InstanceRequirementsProps): InstanceRequirements {
+    const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    if (overrides.instanceTypes) {
+      return new InstanceRequirements({ architectures: this.props.architectures, ...defined });
+    }
+    const base = ATTRIBUTES.some(key => overrides[key] !== undefined)
+      ? { ...this.props, instanceTypes: undefined }
+      : this.props;
+    return new InstanceRequirements({ ...base, ...defined });
+  }
+
+  /**
+   * Renders the NodePool requirements
+   */
+  public render(): NodeSelectorRequirement[] {
+    const { props } = this;
+    const requirements: NodeSelectorRequirement[] = [
+      {
+        key: 'kubernetes.io/arch',
+        operator: 'In',
+        values: props.architectures ?? ['amd64'],
+      },
+    ];
+    const add = (key: string, operator: NodeSelectorRequirement['operator'], values?: string[]) => {
+      requirements.push({ key, operator, values });
+    };
+
+    if (props.instanceTypes) {
+      add('node.kubernetes.io/instance-type', 'In', props.instanceTypes);
+      return requirements;
+    }
+
+    // Karpenter compares numbers strictly, so inclusive bounds move by one
+    if (props.categories) {
+      add('karpenter.k8s.aws/instance-category', 'In', props.categories.flatMap(category => CATEGORIES[category].values));
+    }
+    if (props.minGeneration !== undefined) {
+      add('karpenter.k8s.aws/instance-generation', 'Gt', [`${props.minGeneration - 1}`]);
+    }
+    if (props.cpu?.min !== undefined) {
+      add('karpenter.k8s.aws/instance-cpu', 'Gt', [`${props.cpu.min - 1}`]);
+    }
+    if (props.cpu?.max !== undefined) {
+      add('karpenter.k8s.aws/instance-cpu', 'Lt', [`${props.cpu.max + 1}`]);
+    }
+    if (props.memory?.min !== undefined) {
+      add('karpenter.k8s.aws/instance-memory', 'Gt', [`${Math.ceil(mebibytes(props.memory.min)) - 1}`]);
+    }
+    if (props.memory?.max !== undefined) {
+      add('karpenter.k8s.aws/instance-memory', 'Lt', [`${Math.floor(mebibytes(props.memory.max)) + 1}`]);
+    }
+    if (props.excludedFamilies) {
+      add('karpenter.k8s.aws/instance-family', 'NotIn', props.excludedFamilies);
+    }
+    if (props.localNvme !== undefined) {
+      add('karpenter.k8s.aws/instance-local-nvme', props.localNvme ? 'Exists' : 'DoesNotExist');
+    }
+    if (props.minNetworkBandwidth !== undefined) {
+      add('karpenter.k8s.aws/instance-network-bandwidth', 'Gt', [`${props.minNetworkBandwidth - 1}`]);
+    }
+    return requirements;
+  }
+}
+
+function mebibytes(quantity: string): number {
+  return parseQuantity(quantity) / 2 ** 20;
+}
+
+/**
+ * Rejects settings no instance type can satisfy
+ */
+function validate(props: InstanceRequirementsProps): void {
+  const architectures = props.architectures ?? ['amd64'];
+  const fail = (message: string): never => {
+    throw new Error(`Instance requirements ${message}`);
+  };
+
+  if (architectures.length === 0) {
+    fail('need at least one architecture');
+  }
+
+  if (props.instanceTypes) {
+    const attributes = ATTRIBUTES.filter(key => props[key] !== undefined);
+    if (attributes.length > 0) {
+      fail(`cannot combine instanceTypes with ${attributes.join(', ')}`);
+    }
+    if (props.instanceTypes.length === 0) {
+      fail('need at least one instance type');
+    }
+    const mismatched = props.instanceTypes.filter(type => !architectures.includes(instanceTypeArchitecture(type)));
+    if (mismatched.length > 0) {
+      fail(`list ${mismatched.join(', ')}, which do not match the architectures ${architectures.join(', ')}`);
+    }
+    return;
+  }
+
+  const categories = props.categories ?? Object.keys(CATEGORIES) as InstanceCategory[];
+  if (categories.length === 0) {
+    fail('need at least one category');
+  }
+
+  for (const [name, value] of [['minGeneration', props.minGeneration], ['cpu.min', props.cpu?.min], ['cpu.max', props.cpu?.max], ['minNetworkBandwidth', props.minNetworkBandwidth]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      fail(`${name} must be a positive integer, got ${value}`);
+    }
+  }
+
+  const cpu = props.cpu ?? {};
+  if (cpu.min !== undefined && cpu.max !== undefined && cpu.min > cpu.max) {
+    fail(`cpu.min ${cpu.min} exceeds cpu.max ${cpu.max}`);
+  }
+
+  const memoryMin = props.memory?.min === undefined ? undefined : mebibytes(props.memory.min) / 1024;
+  const memoryMax = props.memory?.max === undefined ? undefined : mebibytes(props.memory.max) / 1024;
+  if (memoryMin !== undefined && memoryMax !== undefined && memoryMin > memoryMax) {
+    fail(`memory.min ${props.memory!.min} exceeds memory.max ${props.memory!.max}`);
+  }
+
+  // Memory scales with vCPUs within each category, so both ranges have to meet
+  const lowestRatio = Math.min(...categories.map(category => CATEGORIES[category].memoryPerCpu[0]));
+  const highestRatio = Math.max(...categories.map(category => CATEGORIES[category].memoryPerCpu[1]));
+  if (memoryMin !== undefined && cpu.max !== undefined && memoryMin > cpu.max * highestRatio) {
+    fail(`ask for at least ${props.memory!.min} of memory, but ${categories.join(', ')} instances with at most ${cpu.max} vCPUs have no more than ${cpu.max * highestRatio}Gi`);
+  }
+  if (memoryMax !== undefined && cpu.min !== undefined && memoryMax < cpu.min * lowestRatio) {
+    fail(`allow at most ${props.memory!.max} of memory, but ${categories.join(', ')} instances with at least ${cpu.min} vCPUs have ${cpu.min * lowestRatio}Gi or more`);
+  }
+
+  if (categories.every(category => category === 'burstable')) {
+    if (props.localNvme) {
+      fail('ask for local NVMe storage, which burstable instances do not have');
+    }
+    if (props.minNetworkBandwidth !== undefined && props.minNetworkBandwidth > BURSTABLE_MAX_BANDWIDTH) {
+      fail(`ask for ${props.minNetworkBandwidth} Mbps, above the ${BURSTABLE_MAX_BANDWIDTH} Mbps of burstable instances`);
+    }
+  }
+}
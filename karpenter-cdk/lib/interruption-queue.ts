@@ -0,0 +1,150 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as sqs from 'aws-cdk-lib/aws-sqs';
+import { Construct } from 'constructs';
+
+export interface InterruptionQueueProps {
+  /**
+   * Name of the queue passed to Karpenter as `settings.interruptionQueue`
+   */
+  queueName: string;
+
+  /**
+   * Customer-managed key for server-side encryption
+   * @default - SQS managed SSE
+   */
+  encryptionKey?: kms.IKey;
+
+  /**
+   * Age of the oldest message above which Karpenter is considered to have stopped consuming
+   * @default cdk.Duration.minutes(2)
+   */
+  maxMessageAge?: cdk.Duration;
+
+  /**
+   * Number of visible messages above which the queue is considered backed up
+   * @default 100
+   */
+  maxQueueDepth?: number;
+}
+
+/**
+ * EventBridge events Karpenter handles, keyed by construct id
+ */
+const INTERRUPTION_EVENTS: Record<string, events.EventPattern> = {
+  ScheduledChangeRule: {
+    source: ['aws.health'],
+    detailType: ['AWS Health Event'],
+    detail: {
+      service: ['EC2'],
+      eventTypeCategory: ['scheduledChange'],
+    },
+  },
+  SpotInterruptionRule: {
+    source: ['aws.ec2'],
+    detailType: ['EC2 Spot Instance Interruption Warning'],
+  },
+  RebalanceRule: {
+    source: ['aws.ec2'],
+    detailType: ['EC2 Instance Rebalance Recommendation'],
+  },
+  InstanceStateChangeRule: {
+    source: ['aws.ec2'],
+    detailType: ['EC2 Instance State-change Notification'],
+  },
+};
+
+/**
+ * CDK Construct for the Karpenter interruption queue
+ * Routes spot, rebalance, scheduled-change and state-change events to an encrypted queue and alarms when they are not consumed
+ */
+export class InterruptionQueue extends Construct {
+  public readonly queue: sqs.Queue;
+  public readonly deadLetterQueue: sqs.Queue;
+  public readonly rules: events.Rule[];
+  public readonly alarms: cloudwatch.Alarm[];
+
+  constructor(scope: Construct, id: string, props: InterruptionQueueProps) {
+    super(scope, id);
+
+    const encryption = props.encryptionKey
+      ? { encryption: sqs.QueueEncryption.KMS, encryptionMasterKey: props.encryptionKey }
+      : { encryption: sqs.QueueEncryption.SQS_MANAGED };
+
+    // Holds events that EventBridge could not deliver or Karpenter repeatedly failed to process
+    this.deadLetterQueue = new sqs.Queue(this, 'DeadLetterQueue', {
+      ...encryption,
+      retentionPeriod: cdk.Duration.days(14),
+      enforceSSL: true,
+    });
+
+    // Interruption notices are only actionable for a few minutes
+    this.queue = new sqs.Queue(this, 'Queue', {
+      ...encryption,
+      queueName: props.queueName,
+      retentionPeriod: cdk.Duration.seconds(300),
+      enforceSSL: true,
+      deadLetterQueue: {
+        queue: this.deadLetterQueue,
+        maxReceiveCount: 5,
+      },
+    });
+
+    // Allow EventBridge and SQS to deliver messages from this account
+    this.queue.addToResourcePolicy(new iam.PolicyStatement({
+      sid: 'AllowEventDelivery',
+      principals: [
+        new iam.ServicePrincipal('events.amazonaws.com'),
+        new iam.ServicePrincipal('sqs.amazonaws.com'),
+      ],
+      actions: ['sqs:SendMessage'],
+      resources: [this.queue.queueArn],
+      conditions: {
+        StringEquals: {
+          'aws:SourceAccount': cdk.Aws.ACCOUNT_ID,
+        },
+      },
+    }));
+
+    // Route interruption events to the queue
+    this.rules = Object.entries(INTERRUPTION_EVENTS).map(([ruleId, eventPattern]) => {
+      const rule = new events.Rule(this, ruleId, { eventPattern });
+      rule.addTarget(new targets.SqsQueue(this.queue, {
+        deadLetterQueue: this.deadLetterQueue,
+      }));
+      return rule;
+    });
+
+    // Alarm when Karpenter stops consuming, falls behind or drops events
+    this.alarms = [
+      new cloudwatch.Alarm(this, 'MessageAgeAlarm', {
+        alarmDescription: `Karpenter is not consuming interruption events from ${props.queueName}`,
+        metric: this.queue.metricApproximateAgeOfOldestMessage({ period: cdk.Duration.minutes(1) }),
+        threshold: (props.maxMessageAge ?? cdk.Duration.minutes(2)).toSeconds(),
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+      new cloudwatch.Alarm(this, 'QueueDepthAlarm', {
+        alarmDescription: `Interruption events are backing up in ${props.queueName}`,
+        metric: this.queue.metricApproximateNumberOfMessagesVisible({ period: cdk.Duration.minutes(1) }),
+        threshold: props.maxQueueDepth ?? 100,
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+      new cloudwatch.Alarm(this, 'DeadLetterAlarm', {
+        alarmDescription: `Interruption events were dropped to the dead-letter queue of ${props.queueName}`,
+        metric: this.deadLetterQueue.metricApproximateNumberOfMessagesVisible({ period: cdk.Duration.minutes(5) }),
+        threshold: 1,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+    ];
+  }
+}
@@ -0,0 +1,133 @@
+import * as cdk from 'aws-cdk-lib';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { assertKubernetesName } from './kubernetes-types';
+
+export interface IrsaServiceAccountProps {
+  /**
+   * The EKS cluster, new or imported; it must expose its OIDC provider
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * Namespace of the service account
+   */
+  namespace: string;
+
+  /**
+   * Name of the service account
+   */
+  serviceAccountName: string;
+
+  /**
+   * Physical name of the IAM role
+   * @default - generated by CloudFormation
+   */
+  roleName?: string;
+
+  /**
+   * Description of the IAM role
+   * @default - names the service account
+   */
+  description?: string;
+
+  /**
+   * Policy statements added to the role
+   */
+  policyStatements?: iam.PolicyStatement[];
+
+  /**
+   * Managed policies attached to the role
+   */
+  managedPolicies?: iam.IManagedPolicy[];
+
+  /**
+   * Additional labels of the service account
+   */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Returns a principal for roles assumed by one service account through the cluster's OIDC provider
+ */
+export function irsaPrincipal(
+  scope: Construct,
+  id: string,
+  cluster: eks.ICluster,
+  namespace: string,
+  serviceAccountName: string,
+): iam.OpenIdConnectPrincipal {
+  // The issuer is only known at deploy time, so the condition keys are resolved through CfnJson
+  const issuer = cluster.openIdConnectProvider.openIdConnectProviderIssuer;
+  const conditions = new cdk.CfnJson(scope, id, {
+    value: {
+      [`${issuer}:sub`]: `system:serviceaccount:${namespace}:${serviceAccountName}`,
+      [`${issuer}:aud`]: 'sts.amazonaws.com',
+    },
+  });
+
+  return new iam.OpenIdConnectPrincipal(cluster.openIdConnectProvider, {
+    StringEquals: conditions,
+  });
+}
+
+/**
+ * CDK Construct for an IAM Roles for Service Accounts (IRSA) identity
+ * Creates an IAM role trusted by one Kubernetes service account and the annotated service account
+ */
+export class IrsaServiceAccount extends Construct implements iam.IGrantable {
+  public readonly role: iam.Role;
+  public readonly namespace: string;
+  public readonly serviceAccountName: string;
+  public readonly manifest: eks.KubernetesManifest;
+  public readonly grantPrincipal: iam.IPrincipal;
+
+  constructor(scope: Construct, id: string, props: IrsaServiceAccountProps) {
+    super(scope, id);
+
+    const { cluster, namespace, serviceAccountName } = props;
+    assertKubernetesName(this, namespace);
+    assertKubernetesName(this, serviceAccountName);
+
+    this.namespace = namespace;
+    this.serviceAccountName = serviceAccountName;
+
+    this.role = new iam.Role(this, 'Role', {
+      roleName: props.roleName,
+      description: props.description ?? `IAM Role for the ${serviceAccountName} service account in ${namespace}`,
+      assumedBy: irsaPrincipal(this, 'TrustConditions', cluster, namespace, serviceAccountName),
+      managedPolicies: props.managedPolicies,
+    });
+    this.grantPrincipal = this.role;
+
+    for (const statement of props.policyStatements ?? []) {
+      this.role.addToPrincipalPolicy(statement);
+    }
+
+    this.manifest = new eks.KubernetesManifest(this, 'Resource', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'v1',
+          kind: 'ServiceAccount',
+          metadata: {
+            name: serviceAccountName,
+            namespace,
+            labels: props.labels,
+            annotations: {
+              'eks.amazonaws.com/role-arn': this.role.roleArn,
+            },
+          },
+        },
+      ],
+    });
+  }
+
+  /**
+   * Adds a statement to the role's policy
+   */
+  public addToPrincipalPolicy(statement: iam.PolicyStatement): iam.AddToPrincipalPolicyResult {
+    return this.role.addToPrincipalPolicy(statement);
+  }
+}
@@ -0,0 +1,204 @@
+import * as cdk from 'aws-cdk-lib';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import { Construct } from 'constructs';
+import { karpenterMinorVersion } from './karpenter-controller-policy';
+import { proxyEnvironment, ResolvedProxy } from './proxy-config';
+
+/**
+ * Compute resources of the Karpenter controller container
+ */
+export interface KarpenterControllerResources {
+  /**
+   * Requested CPU and memory
+   */
+  requests?: { cpu?: string; memory?: string };
+
+  /**
+   * CPU and memory limits
+   */
+  limits?: { cpu?: string; memory?: string };
+}
+
+/**
+ * Karpenter feature gates
+ */
+export interface KarpenterFeatureGates {
+  /**
+   * Consolidate spot nodes onto cheaper spot nodes
+   */
+  spotToSpotConsolidation?: boolean;
+
+  /**
+   * Replace unhealthy nodes automatically
+   */
+  nodeRepair?: boolean;
+
+  /**
+   * Launch into on-demand capacity reservations
+   */
+  reservedCapacity?: boolean;
+}
+
+export interface KarpenterChartOptions {
+  /**
+   * Karpenter chart version
+   * @default '1.6.1'
+   */
+  version?: string;
+
+  /**
+   * Controller log level
+   * @default 'info'
+   */
+  logLevel?: 'debug' | 'info' | 'error';
+
+  /**
+   * Maximum time a batch of pending pods is collected before provisioning
+   * @default Duration.seconds(10)
+   */
+  batchMaxDuration?: cdk.Duration;
+
+  /**
+   * Idle time after which a batch of pending pods is provisioned
+   * @default Duration.seconds(1)
+   */
+  batchIdleDuration?: cdk.Duration;
+
+  /**
+   * Feature gates
+   * @default - spot-to-spot consolidation enabled
+   */
+  featureGates?: KarpenterFeatureGates;
+
+  /**
+   * Run without the AWS pricing API, which has no VPC endpoint; on-demand prices come from the data built into the release
+   * @default false
+   */
+  isolatedVpc?: boolean;
+
+  /**
+   * Controller container resources
+   * @default - 1 CPU and 1Gi memory for requests and limits
+   */
+  controllerResources?: KarpenterControllerResources;
+
+  /**
+   * Number of controller replicas
+   * @default 2
+   */
+  replicas?: number;
+
+  /**
+   * Additional chart values; top-level keys replace the typed values
+   */
+  values?: Record<string, unknown>;
+}
+
+export interface KarpenterChartProps extends KarpenterChartOptions {
+  /**
+   * The EKS cluster Karpenter is installed into
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * Namespace of the Karpenter release
+   */
+  namespace: string;
+
+  /**
+   * Existing service account used by the controller
+   */
+  serviceAccountName: string;
+
+  /**
+   * Name of the interruption SQS queue
+   */
+  interruptionQueueName: string;
+
+  /**
+   * Proxy the controller reaches AWS APIs through
+   * @default - no proxy
+   */
+  proxy?: ResolvedProxy;
+
+  /**
+   * Registry serving the controller image in place of public.ecr.aws, e.g. an ECR pull-through cache
+   * @default - public.ecr.aws
+   */
+  imageRegistry?: string;
+}
+
+/**
+ * CDK Construct for the Karpenter Helm releases
+ * Installs the karpenter-crd chart followed by the controller chart
+ */
+export class KarpenterChart extends Construct {
+  public static readonly REPOSITORY = 'oci://public.ecr.aws/karpenter';
+  public static readonly DEFAULT_VERSION = '1.6.1';
+
+  public readonly version: string;
+  public readonly crdChart: eks.HelmChart;
+  public readonly chart: eks.HelmChart;
+
+  constructor(scope: Construct, id: string, props: KarpenterChartProps) {
+    super(scope, id);
+
+    const { cluster, namespace } = props;
+    this.version = props.version ?? KarpenterChart.DEFAULT_VERSION;
+    karpenterMinorVersion(this.version);
+
+    // CRDs are released separately so chart upgrades also upgrade them
+    this.crdChart = new eks.HelmChart(this, 'Crds', {
+      cluster,
+      chart: 'karpenter-crd',
+      release: 'karpenter-crd',
+      repository: `${KarpenterChart.REPOSITORY}/karpenter-crd`,
+      version: this.version,
+      namespace,
+      wait: true,
+    });
+
+    const resources = props.controllerResources ?? {
+      requests: { cpu: '1', memory: '1Gi' },
+      limits: { cpu: '1', memory: '1Gi' },
+    };
+
+    this.chart = new eks.HelmChart(this, 'Controller', {
+      cluster,
+      chart: 'karpenter',
+      release: 'karpenter',
+      repository: `${KarpenterChart.REPOSITORY}/karpenter`,
+      version: this.version,
+      namespace,
+      skipCrds: true,
+      wait: true,
+      values: {
+        replicas: props.replicas ?? 2,
+        logLevel: props.logLevel ?? 'info',
+        serviceAccount: {
+          create: false,
+          name: props.serviceAccountName,
+        },
+        settings: {
+          clusterName: cluster.clusterName,
+          clusterEndpoint: cluster.clusterEndpoint,
+          interruptionQueue: props.interruptionQueueName,
+          batchMaxDuration: `${(props.batchMaxDuration ?? cdk.Duration.seconds(10)).toSeconds()}s`,
+          batchIdleDuration: `${(props.batchIdleDuration ?? cdk.Duration.seconds(1)).toSeconds()}s`,
+          featureGates: props.featureGates ?? {
+            spotToSpotConsolidation: true,
+          },
+          isolatedVPC: props.isolatedVpc ?? false,
+        },
+        controller: {
+          image: props.imageRegistry ? { repository: `${props.imageRegistry}/karpenter/controller` } : undefined,
+          resources,
+          env: props.proxy && Object.entries(proxyEnvironment(props.proxy)).map(([name, value]) => ({ name, value })),
+        },
+        ...props.values,
+      },
+    });
+
+    this.chart.node.addDependency(this.crdChart);
+  }
+}
@@ -2,10 +2,11 @@ import * as cdk from 'aws-cdk-lib';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
 import { Construct } from 'constructs';
+import { IamSettings, prefixedName } from './iam-settings';
 
 export interface KarpenterControllerPolicyProps {
   /**
-   * The name of the EKS cluster
+   * The name of the EKS cluster; must not be a token, because condition keys embed it
    */
   clusterName: string;
   
@@ -18,22 +19,68 @@ export interface KarpenterControllerPolicyProps {
    * The ARN of the Karpenter node IAM role
    */
   karpenterNodeRoleArn: string;
+
+  /**
+   * The installed Karpenter version, e.g. `1.6.1`
+   */
+  karpenterVersion: string;
+
+  /**
+   * ARNs of customer-managed KMS keys that encrypt node volumes
+   * @default - volumes use the AWS managed EBS key
+   */
+  kmsKeyArns?: string[];
+
+  /**
+   * IAM path and name prefix of the managed policy
+   */
+  iam?: IamSettings;
+}
+
+/**
+ * Karpenter minor releases whose upstream controller policy is the one modelled below
+ *
+ * Releases before 1.3 lack the capacity reservation permissions; add a release only after comparing its policy.
+ */
+const SUPPORTED_RELEASES = ['1.3', '1.4', '1.5', '1.6'];
+
+/**
+ * Returns the supported `major.minor` release of a Karpenter version such as `1.6.1`
+ */
+export function karpenterMinorVersion(version: string): string {
+  const match = /^v?(\d+)\.(\d+)\.\d+(-[0-9A-Za-z.-]+)?$/.exec(version);
+  if (!match) {
+    throw new Error(`'${version}' is not a valid Karpenter version`);
+  }
+
+  const minor = `${match[1]}.${match[2]}`;
+  if (!SUPPORTED_RELEASES.includes(minor)) {
+    throw new Error(`Karpenter ${version} has no controller policy (supported releases: ${SUPPORTED_RELEASES.join(', ')})`);
+  }
+  return minor;
 }
 
 /**
  * CDK Construct for Karpenter Controller IAM Policy
- * Based on the official Karpenter v1.6.1 policy requirements
+ * Based on the official Karpenter policy requirements of the given v1 minor release
  */
 export class KarpenterControllerPolicy extends Construct {
   public readonly managedPolicy: iam.ManagedPolicy;
+  public readonly karpenterVersion: string;
 
   constructor(scope: Construct, id: string, props: KarpenterControllerPolicyProps) {
     super(scope, id);
 
     const { clusterName, karpenterInterruptionQueueArn, karpenterNodeRoleArn } = props;
+    if (cdk.Token.isUnresolved(clusterName)) {
+      throw new Error(`${this.node.path}: clusterName must be a literal, since IAM condition keys cannot contain tokens`);
+    }
+    karpenterMinorVersion(props.karpenterVersion);
+    this.karpenterVersion = props.karpenterVersion;
 
     this.managedPolicy = new iam.ManagedPolicy(this, 'Policy', {
-      managedPolicyName: `KarpenterControllerPolicy-${clusterName}`,
+      managedPolicyName: prefixedName(props.iam, `KarpenterControllerPolicy-${clusterName}`),
+      path: props.iam?.path,
       description: `IAM policy for Karpenter controller in cluster ${clusterName}`,
       statements: [
         // Allow scoped EC2 instance access actions
@@ -321,5 +368,39 @@ export class KarpenterControllerPolicy extends Construct {
         }),
       ],
     });
+
+    if (props.kmsKeyArns?.length) {
+      // Allow EC2 to use the volume encryption keys on behalf of the controller
+      this.managedPolicy.addStatements(
+        new iam.PolicyStatement({
+          sid: 'AllowScopedVolumeEncryption',
+          effect: iam.Effect.ALLOW,
+          resources: props.kmsKeyArns,
+          actions: [
+            'kms:Encrypt',
+            'kms:Decrypt',
+            'kms:ReEncrypt*',
+            'kms:GenerateDataKey*',
+            'kms:DescribeKey',
+          ],
+          conditions: {
+            StringEquals: {
+              'kms:ViaService': `ec2.${cdk.Aws.REGION}.amazonaws.com`,
+            },
+          },
+        }),
+        new iam.PolicyStatement({
+          sid: 'AllowScopedVolumeEncryptionGrants',
+          effect: iam.Effect.ALLOW,
+          resources: props.kmsKeyArns,
+          actions: ['kms:CreateGrant'],
+          conditions: {
+            Bool: {
+              'kms:GrantIsForAWSResource': true,
+            },
+          },
+        }),
+      );
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,468 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as logs from 'aws-cdk-lib/aws-logs';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+import { InterruptionQueue } from './interruption-queue';
+import { KarpenterNodePool } from './karpenter-node-pool';
+import { parseQuantity } from './kubernetes-types';
+import { CredentialMode, createWorkloadIdentity, IWorkloadIdentity } from './workload-identity';
+
+export interface KarpenterMonitoringProps {
+  /**
+   * The EKS cluster running Karpenter
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * The queue Karpenter reads interruption events from
+   */
+  interruptionQueue: InterruptionQueue;
+
+  /**
+   * NodePools shown on the dashboard; pools with limits get saturation alarms
+   */
+  nodePools: KarpenterNodePool[];
+
+  /**
+   * Namespace of the Karpenter release
+   * @default 'karpenter'
+   */
+  karpenterNamespace?: string;
+
+  /**
+   * How the CloudWatch agent obtains AWS credentials
+   * @default CredentialMode.IRSA
+   */
+  credentialMode?: CredentialMode;
+
+  /**
+   * Topic notified when an alarm changes state
+   * @default - alarms have no actions
+   */
+  alarmTopic?: sns.ITopic;
+
+  /**
+   * Percentage of a NodePool limit at which the saturation alarms fire
+   * @default 90
+   */
+  limitSaturationPercent?: number;
+
+  /**
+   * Retention of the controller metrics log group
+   * @default logs.RetentionDays.ONE_MONTH
+   */
+  logRetention?: logs.RetentionDays;
+
+  /**
+   * Registry serving the CloudWatch agent image in place of public.ecr.aws, e.g. an ECR pull-through cache
+   * @default - public.ecr.aws
+   */
+  imageRegistry?: string;
+
+  /**
+   * CloudWatch agent image that scrapes the controller
+   * @default - `cloudwatch-agent/cloudwatch-agent` at KarpenterMonitoring.AGENT_VERSION from `imageRegistry`
+   */
+  agentImage?: string;
+}
+
+/**
+ * Karpenter Prometheus metrics published to CloudWatch, with the dimensions they are published under
+ */
+const PUBLISHED_METRICS: Array<{ dimensions: string[]; metrics: string[] }> = [
+  {
+    dimensions: ['ClusterName', 'nodepool', 'resource_type'],
+    metrics: ['karpenter_nodepools_usage', 'karpenter_nodepools_limit'],
+  },
+  {
+    dimensions: ['ClusterName', 'nodepool'],
+    metrics: ['karpenter_nodeclaims_created_total', 'karpenter_nodeclaims_terminated_total'],
+  },
+  {
+    dimensions: ['ClusterName', 'method'],
+    metrics: ['karpenter_cloudprovider_errors_total'],
+  },
+  {
+    dimensions: ['ClusterName'],
+    metrics: ['karpenter_scheduler_unschedulable_pods_count'],
+  },
+];
+
+/**
+ * CDK Construct for Karpenter monitoring
+ * Scrapes the controller's Prometheus metrics into CloudWatch and builds a dashboard and alarms on them
+ */
+export class KarpenterMonitoring extends Construct {
+  /**
+   * CloudWatch namespace of the scraped controller metrics
+   */
+  public static readonly NAMESPACE = 'Karpenter';
+  public static readonly AGENT_VERSION = '1.300032.2b361';
+
+  public readonly logGroup: logs.LogGroup;
+  public readonly agentIdentity: IWorkloadIdentity;
+  public readonly dashboard: cloudwatch.Dashboard;
+  public readonly alarms: cloudwatch.Alarm[];
+
+  private readonly clusterName: string;
+
+  constructor(scope: Construct, id: string, props: KarpenterMonitoringProps) {
+    super(scope, id);
+
+    const { cluster, interruptionQueue, nodePools } = props;
+    const stack = cdk.Stack.of(this);
+    const namespace = 'amazon-cloudwatch';
+    const saturationPercent = props.limitSaturationPercent ?? 90;
+    this.clusterName = cluster.clusterName;
+
+    if (saturationPercent <= 0 || saturationPercent > 100) {
+      throw new Error(`${this.node.path}: limitSaturationPercent must be between 1 and 100`);
+    }
+
+    // Create log group receiving the controller metrics as embedded metric format
+    this.logGroup = new logs.LogGroup(this, 'LogGroup', {
+      logGroupName: `/aws/eks/${cluster.clusterName}/karpenter`,
+      retention: props.logRetention ?? logs.RetentionDays.ONE_MONTH,
+    });
+
+    // Create CloudWatch agent namespace and identity
+    const agentNamespace = new eks.KubernetesManifest(this, 'Namespace', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'v1',
+          kind: 'Namespace',
+          metadata: {
+            name: namespace,
+          },
+        },
+      ],
+    });
+
+    this.agentIdentity = createWorkloadIdentity(this, 'AgentServiceAccount', props.credentialMode ?? CredentialMode.IRSA, {
+      cluster,
+      namespace,
+      serviceAccountName: 'cloudwatch-agent-karpenter',
+      description: `IAM Role for the CloudWatch agent scraping Karpenter in cluster ${cluster.clusterName}`,
+      policyStatements: [
+        new iam.PolicyStatement({
+          actions: ['logs:CreateLogStream', 'logs:DescribeLogStreams', 'logs:PutLogEvents'],
+          resources: [this.logGroup.logGroupArn, `${this.logGroup.logGroupArn}:log-stream:*`],
+        }),
+        new iam.PolicyStatement({
+          actions: ['logs:DescribeLogGroups'],
+          resources: ['*'],
+        }),
+      ],
+    });
+    this.agentIdentity.node.addDependency(agentNamespace);
+
+    // Scrape the controller's metrics endpoint
+    const karpenterNamespace = props.karpenterNamespace ?? 'karpenter';
+    const prometheusConfig = {
+      global: {
+        scrape_interval: '1m',
+        scrape_timeout: '10s',
+      },
+      scrape_configs: [
+        {
+          job_name: 'karpenter',
+          static_configs: [
+            {
+              targets: [`karpenter.${karpenterNamespace}.svc.cluster.local:8080`],
+              labels: {
+                ClusterName: cluster.clusterName,
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    const agentConfig = {
+      agent: {
+        region: stack.region,
+      },
+      logs: {
+        metrics_collected: {
+          prometheus: {
+            cluster_name: cluster.clusterName,
+            log_group_name: this.logGroup.logGroupName,
+            prometheus_config_path: '/etc/prometheusconfig/prometheus.yaml',
+            emf_processor: {
+              metric_namespace: KarpenterMonitoring.NAMESPACE,
+              metric_declaration: PUBLISHED_METRICS.map(({ dimensions, metrics }) => ({
+                source_labels: ['job'],
+                label_matcher: '^karpenter$',
+                dimensions: [dimensions],
+                metric_selectors: metrics.map(metric => `^${metric}$`),
+              })),
+            },
+          },
+        },
+        force_flush_interval: 5,
+      },
+    };
+
+    const agent = new eks.KubernetesManifest(this, 'Agent', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'v1',
+          kind: 'ConfigMap',
+          metadata: {
+            name: 'karpenter-cwagentconfig',
+            namespace,
+          },
+          data: {
+            'cwagentconfig.json': stack.toJsonString(agentConfig),
+          },
+        },
+        {
+          apiVersion: 'v1',
+          kind: 'ConfigMap',
+          metadata: {
+            name: 'karpenter-prometheus-config',
+            namespace,
+          },
+          data: {
+            'prometheus.yaml': stack.toJsonString(prometheusConfig),
+          },
+        },
+        {
+          apiVersion: 'apps/v1',
+          kind: 'Deployment',
+          metadata: {
+            name: 'cloudwatch-agent-karpenter',
+            namespace,
+          },
+          spec: {
+            replicas: 1,
+            selector: {
+              matchLabels: {
+                app: 'cloudwatch-agent-karpenter',
+              },
+            },
+            template: {
+              metadata: {
+                labels: {
+                  app: 'cloudwatch-agent-karpenter',
+                },
+              },
+              spec: {
+                serviceAccountName: this.agentIdentity.serviceAccountName,
+                // Run next to the controller on the system nodes
+                tolerations: [
+                  {
+                    key: 'CriticalAddonsOnly',
+                    operator: 'Exists',
+                  },
+                ],
+                containers: [
+                  {
+                    name: 'cloudwatch-agent',
+                    image: props.agentImage
+                      ?? `${props.imageRegistry ?? 'public.ecr.aws'}/cloudwatch-agent/cloudwatch-agent:${KarpenterMonitoring.AGENT_VERSION}`,
+                    resources: {
+                      requests: {
+                        cpu: '100m',
+                        memory: '128Mi',
+                      },
+                      limits: {
+                        cpu: '500m',
+                        memory: '512Mi',
+                      },
+                    },
+                    volumeMounts: [
+                      {
+                        name: 'cwagentconfig',
+                        mountPath: '/etc/cwagentconfig',
+                      },
+                      {
+                        name: 'prometheus-config',
+                        mountPath: '/etc/prometheusconfig',
+                      },
+                    ],
+                  },
+                ],
+                volumes: [
+                  {
+                    name: 'cwagentconfig',
+                    configMap: {
+                      name: 'karpenter-cwagentconfig',
+                    },
+                  },
+                  {
+                    name: 'prometheus-config',
+                    configMap: {
+                      name: 'karpenter-prometheus-config',
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      ],
+    });
+    agent.node.addDependency(this.agentIdentity);
+
+    // Create alarms on launch failures, unschedulable pods and NodePool limits
+    const launchErrors = this.metric('karpenter_cloudprovider_errors_total', { method: 'Create' }, 'Sum');
+    const unschedulablePods = this.metric('karpenter_scheduler_unschedulable_pods_count', {}, 'Maximum');
+
+    this.alarms = [
+      new cloudwatch.Alarm(this, 'LaunchFailureAlarm', {
+        alarmDescription: `Karpenter keeps failing to launch instances in cluster ${cluster.clusterName}`,
+        metric: launchErrors,
+        threshold: 1,
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+      new cloudwatch.Alarm(this, 'UnschedulablePodsAlarm', {
+        alarmDescription: `Karpenter cannot provision capacity for pending pods in cluster ${cluster.clusterName}`,
+        metric: unschedulablePods,
+        threshold: 1,
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+    ];
+
+    const capacityWidgets: cloudwatch.IWidget[] = [];
+    for (const pool of nodePools) {
+      const cpu = this.usage(pool, 'cpu');
+      const memory = this.usage(pool, 'memory');
+      const leftAnnotations: cloudwatch.HorizontalAnnotation[] = [];
+      const rightAnnotations: cloudwatch.HorizontalAnnotation[] = [];
+
+      if (pool.limits?.cpu) {
+        const limit = parseQuantity(pool.limits.cpu);
+        leftAnnotations.push({ value: limit, label: `CPU limit (${pool.limits.cpu})` });
+        this.alarms.push(this.saturationAlarm(pool, 'cpu', cpu, limit, pool.limits.cpu, saturationPercent));
+      }
+      if (pool.limits?.memory) {
+        const limit = parseQuantity(pool.limits.memory);
+        rightAnnotations.push({ value: limit, label: `Memory limit (${pool.limits.memory})` });
+        this.alarms.push(this.saturationAlarm(pool, 'memory', memory, limit, pool.limits.memory, saturationPercent));
+      }
+
+      capacityWidgets.push(new cloudwatch.GraphWidget({
+        title: `NodePool ${pool.nodePoolName}: usage against limits`,
+        left: [cpu],
+        right: [memory],
+        leftAnnotations,
+        rightAnnotations,
+        leftYAxis: { label: 'vCPU', showUnits: false, min: 0 },
+        rightYAxis: { label: 'Bytes', showUnits: false, min: 0 },
+        width: 12,
+      }));
+    }
+
+    // Notify the alarm topic, including the interruption queue alarms
+    const allAlarms = [...interruptionQueue.alarms, ...this.alarms];
+    if (props.alarmTopic) {
+      const action = new cloudwatchActions.SnsAction(props.alarmTopic);
+      for (const alarm of allAlarms) {
+        alarm.addAlarmAction(action);
+        alarm.addOkAction(action);
+      }
+    }
+
+    // Create dashboard
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: `Karpenter-${cluster.clusterName}`,
+    });
+
+    this.dashboard.addWidgets(
+      new cloudwatch.AlarmStatusWidget({
+        title: 'Alarms',
+        alarms: allAlarms,
+        width: 24,
+      }),
+    );
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: 'Interruption queue',
+        left: [
+          interruptionQueue.queue.metricApproximateNumberOfMessagesVisible({ label: 'Visible messages' }),
+          interruptionQueue.deadLetterQueue.metricApproximateNumberOfMessagesVisible({ label: 'Dead-lettered messages' }),
+        ],
+        right: [
+          interruptionQueue.queue.metricApproximateAgeOfOldestMessage({ label: 'Age of oldest message' }),
+        ],
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Nodes per NodePool',
+        left: nodePools.map(pool => this.usage(pool, 'nodes')),
+        width: 12,
+      }),
+    );
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: 'Failed launches and unschedulable pods',
+        left: [launchErrors.with({ label: 'Launch errors' })],
+        right: [unschedulablePods.with({ label: 'Unschedulable pods' })],
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Nodes created per NodePool',
+        left: nodePools.map(pool =>
+          this.metric('karpenter_nodeclaims_created_total', { nodepool: pool.nodePoolName }, 'Sum').with({ label: pool.nodePoolName })),
+        width: 12,
+      }),
+    );
+    this.dashboard.addWidgets(...capacityWidgets);
+  }
+
+  /**
+   * Returns a scraped controller metric of this cluster
+   */
+  private metric(metricName: string, dimensions: Record<string, string>, statistic: string): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      namespace: KarpenterMonitoring.NAMESPACE,
+      metricName,
+      dimensionsMap: {
+        ClusterName: this.clusterName,
+        ...dimensions,
+      },
+      statistic,
+      period: cdk.Duration.minutes(5),
+    });
+  }
+
+  /**
+   * Returns the usage of one resource type across a NodePool's nodes
+   */
+  private usage(pool: KarpenterNodePool, resourceType: string): cloudwatch.Metric {
+    return this.metric('karpenter_nodepools_usage', { nodepool: pool.nodePoolName, resource_type: resourceType }, 'Maximum')
+      .with({ label: `${pool.nodePoolName} ${resourceType}` });
+  }
+
+  /**
+   * Returns an alarm on a NodePool approaching one of its limits
+   */
+  private saturationAlarm(
+    pool: KarpenterNodePool,
+    resourceType: string,
+    usage: cloudwatch.Metric,
+    limit: number,
+    quantity: string,
+    saturationPercent: number,
+  ): cloudwatch.Alarm {
+    return new cloudwatch.Alarm(this, `${pool.nodePoolName}-${resourceType}-SaturationAlarm`, {
+      alarmDescription: `NodePool ${pool.nodePoolName} is using ${saturationPercent}% of its ${resourceType} limit (${quantity}); new nodes will not be launched beyond it`,
+      metric: usage,
+      threshold: limit * saturationPercent / 100,
+      evaluationPeriods: 2,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    });
+  }
+}
@@ -0,0 +1,236 @@
+import * as cdk from 'aws-cdk-lib';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import { Construct } from 'constructs';
+import { Ec2NodeClass } from './ec2-node-class';
+import { validateNodePool } from './karpenter-schema';
+import { assertKubernetesName, NodeSelectorRequirement, Taint } from './kubernetes-types';
+import { NodeArchitecture } from './node-architecture';
+
+/**
+ * Voluntary disruption a budget applies to
+ */
+export type DisruptionReason = 'Underutilized' | 'Empty' | 'Drifted';
+
+/**
+ * Cap on how many of a pool's nodes Karpenter disrupts at once
+ */
+export interface DisruptionBudget {
+  /**
+   * Node count or percentage of the pool's nodes, e.g. `1`, `10%` or `0` to block disruption
+   */
+  nodes: string;
+
+  /**
+   * Cron schedule in UTC the budget becomes active at, e.g. `0 8 * * mon-fri`
+   * @default - the budget is always active
+   */
+  schedule?: string;
+
+  /**
+   * How long the budget stays active after each scheduled start, e.g. `10h`; required with a schedule
+   * @default - the budget is always active
+   */
+  duration?: string;
+
+  /**
+   * Disruption reasons the budget caps
+   * @default - every reason
+   */
+  reasons?: DisruptionReason[];
+}
+
+/**
+ * Disruption settings of a NodePool
+ */
+export interface NodePoolDisruption {
+  /**
+   * Which nodes Karpenter considers for consolidation
+   */
+  consolidationPolicy?: 'WhenEmpty' | 'WhenEmptyOrUnderutilized';
+
+  /**
+   * How long Karpenter waits before consolidating a node, e.g. `30s`
+   */
+  consolidateAfter?: string;
+
+  /**
+   * Budgets capping concurrent disruptions; the most restrictive active budget applies
+   * @default - 10% of the pool's nodes at any time
+   */
+  budgets?: DisruptionBudget[];
+}
+
+/**
+ * Resource limits of a NodePool
+ */
+export interface NodePoolLimits {
+  /**
+   * Maximum total CPU across the pool's nodes
+   */
+  cpu?: string;
+
+  /**
+   * Maximum total memory across the pool's nodes
+   */
+  memory?: string;
+}
+
+export interface KarpenterNodePoolProps {
+  /**
+   * The EC2NodeClass the pool launches nodes from
+   */
+  nodeClass: Ec2NodeClass;
+
+  /**
+   * Name of the NodePool object
+   */
+  nodePoolName: string;
+
+  /**
+   * Scheduling requirements of the launched nodes
+   */
+  requirements: NodeSelectorRequirement[];
+
+  /**
+   * Labels applied to the launched nodes
+   */
+  labels?: Record<string, string>;
+
+  /**
+   * Annotations applied to the launched nodes
+   */
+  annotations?: Record<string, string>;
+
+  /**
+   * Taints applied to the launched nodes
+   */
+  taints?: Taint[];
+
+  /**
+   * Taints applied at startup and expected to be removed by a daemon
+   */
+  startupTaints?: Taint[];
+
+  /**
+   * Lifetime of a node before it is replaced, e.g. `720h`
+   */
+  expireAfter?: string;
+
+  /**
+   * How long a draining node waits for its pods, including `karpenter.sh/do-not-disrupt` pods, before it is terminated, e.g. `6h`
+   * @default - nodes wait for their pods indefinitely
+   */
+  terminationGracePeriod?: string;
+
+  /**
+   * Disruption settings
+   */
+  disruption?: NodePoolDisruption;
+
+  /**
+   * Resource limits across the pool's nodes
+   */
+  limits?: NodePoolLimits;
+
+  /**
+   * Priority of the pool relative to other pools
+   */
+  weight?: number;
+}
+
+/**
+ * CDK Construct for a Karpenter NodePool
+ * Applies the karpenter.sh/v1 object after its EC2NodeClass
+ */
+export class KarpenterNodePool extends Construct {
+  public readonly nodePoolName: string;
+  public readonly nodeClass: Ec2NodeClass;
+  public readonly labels?: Record<string, string>;
+  public readonly taints?: Taint[];
+
+  /**
+   * Architectures the pool launches; Karpenter defaults to amd64 without a `kubernetes.io/arch` requirement
+   */
+  public readonly architectures: NodeArchitecture[];
+
+  /**
+   * Capacity types the pool launches; Karpenter defaults to on-demand without a `karpenter.sh/capacity-type` requirement
+   */
+  public readonly capacityTypes: Array<'spot' | 'on-demand'>;
+  public readonly limits?: NodePoolLimits;
+  public readonly manifest: eks.KubernetesManifest;
+
+  private readonly startupTaints: Taint[];
+
+  constructor(scope: Construct, id: string, props: KarpenterNodePoolProps) {
+    super(scope, id);
+
+    const { nodeClass, nodePoolName } = props;
+    assertKubernetesName(this, nodePoolName);
+
+    this.nodePoolName = nodePoolName;
+    this.nodeClass = nodeClass;
+    this.labels = props.labels;
+    this.taints = props.taints;
+    const arch = props.requirements.find(requirement => requirement.key === 'kubernetes.io/arch' && requirement.operator === 'In');
+    this.architectures = (arch?.values ?? ['amd64']) as NodeArchitecture[];
+    const capacityType = props.requirements.find(requirement => requirement.key === 'karpenter.sh/capacity-type' && requirement.operator === 'In');
+    this.capacityTypes = (capacityType?.values ?? ['on-demand']) as Array<'spot' | 'on-demand'>;
+    this.limits = props.limits;
+    this.startupTaints = [...props.startupTaints ?? []];
+
+    const nodePool = {
+      apiVersion: 'karpenter.sh/v1',
+      kind: 'NodePool',
+      metadata: {
+        name: nodePoolName,
+      },
+      spec: {
+        template: {
+          metadata: {
+            labels: props.labels,
+            annotations: props.annotations,
+          },
+          spec: {
+            requirements: props.requirements,
+            nodeClassRef: {
+              group: Ec2NodeClass.GROUP,
+              kind: Ec2NodeClass.KIND,
+              name: nodeClass.nodeClassName,
+            },
+            taints: props.taints,
+            startupTaints: cdk.Lazy.any({ produce: () => this.startupTaints.length ? this.startupTaints : undefined }),
+            expireAfter: props.expireAfter,
+            terminationGracePeriod: props.terminationGracePeriod,
+          },
+        },
+        disruption: props.disruption,
+        limits: props.limits,
+        weight: props.weight,
+      },
+    };
+
+    this.manifest = new eks.KubernetesManifest(this, 'Resource', {
+      cluster: nodeClass.cluster,
+      manifest: [nodePool],
+    });
+
+    this.node.addValidation({
+      validate: () => validateNodePool(cdk.Stack.of(this).resolve(nodePool)),
+    });
+
+    // The NodePool CRD must exist and the referenced EC2NodeClass should be applied first
+    this.manifest.node.addDependency(nodeClass.karpenterInstallation);
+    this.manifest.node.addDependency(nodeClass);
+  }
+
+  /**
+   * Adds a taint that a daemon removes once the node is ready, e.g. for a CNI agent
+   */
+  public addStartupTaint(taint: Taint): void {
+    if (this.startupTaints.some(existing => existing.key === taint.key && existing.effect === taint.effect)) {
+      return;
+    }
+    this.startupTaints.push(taint);
+  }
+}
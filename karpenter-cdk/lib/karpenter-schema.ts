@@ -0,0 +1,348 @@
+import { parseQuantity } from './kubernetes-types';
+
+const DURATION = /^([0-9]+(s|m|h))+$/;
+const DURATION_OR_NEVER = /^(([0-9]+(s|m|h))+|Never)$/;
+const LABEL_KEY = /^([a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*\/)?[A-Za-z0-9]([-A-Za-z0-9_.]*[A-Za-z0-9])?$/;
+const INTEGER = /^[0-9]+$/;
+
+const OPERATORS = ['In', 'NotIn', 'Exists', 'DoesNotExist', 'Gt', 'Lt'];
+const TAINT_EFFECTS = ['NoSchedule', 'PreferNoSchedule', 'NoExecute'];
+const CONSOLIDATION_POLICIES = ['WhenEmpty', 'WhenEmptyOrUnderutilized'];
+const AMI_FAMILIES = ['AL2', 'AL2023', 'Bottlerocket', 'Windows2019', 'Windows2022', 'Custom'];
+const AMI_ALIAS = /^(al2|al2023|bottlerocket|windows2019|windows2022)@(latest|v\d+(\.\d+)*(-\d+)?)$/;
+const VOLUME_TYPES = ['standard', 'io1', 'io2', 'gp2', 'sc1', 'st1', 'gp3'];
+const DISRUPTION_REASONS = ['Underutilized', 'Empty', 'Drifted'];
+const BUDGET_NODES = /^((100|[0-9]{1,2})%|[0-9]+)$/;
+const BUDGET_DURATION = /^((([0-9]+(h|m))|([0-9]+h[0-9]+m))(0s)?)$/;
+const CRON_MACRO = /^@(annually|yearly|monthly|weekly|daily|midnight|hourly)$/;
+
+/**
+ * Ranges and names of the five cron fields Karpenter accepts in budget schedules
+ */
+const CRON_FIELDS: Array<{ name: string; min: number; max: number; names?: string[] }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 6, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/**
+ * Labels the NodePool requirements and node labels may not set
+ */
+const RESTRICTED_LABELS = ['karpenter.sh/nodepool', 'kubernetes.io/hostname'];
+
+/**
+ * Label domains reserved for Karpenter's well-known labels, which nodes get from their instance type
+ */
+const RESTRICTED_LABEL_DOMAINS = ['karpenter.sh', 'karpenter.k8s.aws'];
+
+/**
+ * Tags Karpenter sets itself on the EC2 resources it launches
+ */
+const RESTRICTED_TAGS = [/^kubernetes\.io\/cluster\//, /^karpenter\.sh\/nodepool$/, /^karpenter\.sh\/nodeclaim$/, /^karpenter\.k8s\.aws\/ec2nodeclass$/, /^eks:eks-cluster-name$/];
+
+/**
+ * Checks a resolved NodePool object against the karpenter.sh/v1 CRD schema
+ * Returns one message per violation, prefixed with its field path
+ */
+export function validateNodePool(object: any): string[] {
+  const errors: string[] = [];
+  const error = (path: string, message: string) => errors.push(`${path}: ${message}`);
+
+  if (object.apiVersion !== 'karpenter.sh/v1' || object.kind !== 'NodePool') {
+    error('apiVersion', `expected karpenter.sh/v1 NodePool, got ${object.apiVersion} ${object.kind}`);
+  }
+  if (object.metadata?.namespace !== undefined) {
+    error('metadata.namespace', 'NodePools are cluster-scoped and take no namespace');
+  }
+
+  const spec = object.spec ?? {};
+  const template = spec.template?.spec ?? {};
+  if (spec.expireAfter !== undefined || spec.disruption?.expireAfter !== undefined) {
+    error('spec.disruption.expireAfter', 'moved to spec.template.spec.expireAfter in v1');
+  }
+
+  const nodeClassRef = template.nodeClassRef;
+  if (nodeClassRef === undefined) {
+    error('spec.template.spec.nodeClassRef', 'is required');
+  } else {
+    if (nodeClassRef.apiVersion !== undefined) {
+      error('spec.template.spec.nodeClassRef.apiVersion', 'was replaced by group in v1');
+    }
+    for (const field of ['group', 'kind', 'name']) {
+      if (nodeClassRef[field] === undefined) {
+        error(`spec.template.spec.nodeClassRef.${field}`, 'is required');
+      }
+    }
+  }
+
+  const requirements: any[] = template.requirements ?? [];
+  if (requirements.length > 100) {
+    error('spec.template.spec.requirements', `allows at most 100 entries, got ${requirements.length}`);
+  }
+  requirements.forEach((requirement, index) => validateRequirement(requirement, `spec.template.spec.requirements[${index}]`, error));
+
+  for (const [key] of Object.entries(spec.template?.metadata?.labels ?? {})) {
+    const path = `spec.template.metadata.labels.${key}`;
+    if (!isResolved(key)) {
+      continue;
+    }
+    if (!LABEL_KEY.test(key)) {
+      error(path, 'is not a valid label key');
+    } else if (RESTRICTED_LABELS.includes(key) || isRestrictedDomain(key)) {
+      error(path, 'is restricted to Karpenter');
+    }
+  }
+
+  for (const field of ['taints', 'startupTaints']) {
+    (template[field] ?? []).forEach((taint: any, index: number) => {
+      const path = `spec.template.spec.${field}[${index}]`;
+      if (isResolved(taint.key) && !LABEL_KEY.test(taint.key)) {
+        error(`${path}.key`, `'${taint.key}' is not a valid taint key`);
+      }
+      if (!TAINT_EFFECTS.includes(taint.effect)) {
+        error(`${path}.effect`, `must be one of ${TAINT_EFFECTS.join(', ')}, got ${taint.effect}`);
+      }
+    });
+  }
+
+  checkPattern(template.expireAfter, DURATION_OR_NEVER, 'spec.template.spec.expireAfter', error);
+  checkPattern(template.terminationGracePeriod, DURATION, 'spec.template.spec.terminationGracePeriod', error);
+
+  const disruption = spec.disruption;
+  if (disruption !== undefined) {
+    if (disruption.consolidationPolicy !== undefined && !CONSOLIDATION_POLICIES.includes(disruption.consolidationPolicy)) {
+      const hint = disruption.consolidationPolicy === 'WhenUnderutilized' ? '; WhenUnderutilized was renamed WhenEmptyOrUnderutilized in v1' : '';
+      error('spec.disruption.consolidationPolicy', `must be one of ${CONSOLIDATION_POLICIES.join(', ')}, got ${disruption.consolidationPolicy}${hint}`);
+    }
+    checkPattern(disruption.consolidateAfter, DURATION_OR_NEVER, 'spec.disruption.consolidateAfter', error);
+
+    const budgets: any[] = disruption.budgets ?? [];
+    if (budgets.length > 50) {
+      error('spec.disruption.budgets', `allows at most 50 budgets, got ${budgets.length}`);
+    }
+    budgets.forEach((budget, index) => validateBudget(budget, `spec.disruption.budgets[${index}]`, error));
+  }
+
+  for (const [resource, quantity] of Object.entries(spec.limits ?? {})) {
+    checkQuantity(quantity, `spec.limits.${resource}`, error);
+  }
+
+  if (spec.weight !== undefined && (!Number.isInteger(spec.weight) || spec.weight < 1 || spec.weight > 100)) {
+    error('spec.weight', `must be an integer between 1 and 100, got ${spec.weight}`);
+  }
+  return errors;
+}
+
+/**
+ * Checks a resolved EC2NodeClass object against the karpenter.k8s.aws/v1 CRD schema
+ * Returns one message per violation, prefixed with its field path
+ */
+export function validateEc2NodeClass(object: any): string[] {
+  const errors: string[] = [];
+  const error = (path: string, message: string) => errors.push(`${path}: ${message}`);
+
+  if (object.apiVersion !== 'karpenter.k8s.aws/v1' || object.kind !== 'EC2NodeClass') {
+    error('apiVersion', `expected karpenter.k8s.aws/v1 EC2NodeClass, got ${object.apiVersion} ${object.kind}`);
+  }
+  if (object.metadata?.namespace !== undefined) {
+    error('metadata.namespace', 'EC2NodeClasses are cluster-scoped and take no namespace');
+  }
+
+  const spec = object.spec ?? {};
+  if (spec.amiFamily !== undefined && !AMI_FAMILIES.includes(spec.amiFamily)) {
+    error('spec.amiFamily', `must be one of ${AMI_FAMILIES.join(', ')}, got ${spec.amiFamily}`);
+  }
+
+  // An alias term stands alone and implies the AMI family
+  const amiSelectorTerms: any[] | undefined = spec.amiSelectorTerms;
+  if (amiSelectorTerms === undefined || amiSelectorTerms.length === 0) {
+    error('spec.amiSelectorTerms', 'is required in v1, e.g. [{ alias: \'bottlerocket@latest\' }]');
+  } else {
+    if (amiSelectorTerms.length > 30) {
+      error('spec.amiSelectorTerms', `allows at most 30 terms, got ${amiSelectorTerms.length}`);
+    }
+    amiSelectorTerms.forEach((term, index) => {
+      const path = `spec.amiSelectorTerms[${index}]`;
+      if (term.alias !== undefined) {
+        if (Object.keys(term).length > 1 || amiSelectorTerms.length > 1) {
+          error(path, 'an alias cannot be combined with other fields or terms');
+        }
+        if (isResolved(term.alias) && !AMI_ALIAS.test(term.alias)) {
+          error(`${path}.alias`, `'${term.alias}' is not <family>@latest or <family>@<version>`);
+        } else if (spec.amiFamily !== undefined && isResolved(term.alias) && term.alias.split('@')[0] !== spec.amiFamily.toLowerCase()) {
+          error(`${path}.alias`, `'${term.alias}' does not match amiFamily ${spec.amiFamily}`);
+        }
+      } else if (term.id === undefined && term.name === undefined && term.tags === undefined) {
+        error(path, 'needs one of alias, id, name or tags');
+      }
+      checkPattern(term.id, /^ami-[0-9a-z]+$/, `${path}.id`, error);
+    });
+    if (spec.amiFamily === undefined && !amiSelectorTerms.some(term => term.alias !== undefined)) {
+      error('spec.amiFamily', 'is required unless an AMI alias is used');
+    }
+  }
+
+  for (const [field, idPattern] of [['subnetSelectorTerms', /^subnet-[0-9a-z]+$/], ['securityGroupSelectorTerms', /^sg-[0-9a-z]+$/]] as const) {
+    const terms: any[] | undefined = spec[field];
+    if (terms === undefined || terms.length === 0) {
+      error(`spec.${field}`, 'is required');
+      continue;
+    }
+    terms.forEach((term, index) => {
+      const path = `spec.${field}[${index}]`;
+      if (term.id === undefined && term.tags === undefined && term.name === undefined) {
+        error(path, 'needs one of id, name or tags');
+      }
+      checkPattern(term.id, idPattern, `${path}.id`, error);
+    });
+  }
+
+  if ((spec.role === undefined) === (spec.instanceProfile === undefined)) {
+    error('spec.role', 'exactly one of role and instanceProfile is required');
+  }
+
+  for (const key of Object.keys(spec.tags ?? {})) {
+    if (isResolved(key) && RESTRICTED_TAGS.some(pattern => pattern.test(key))) {
+      error(`spec.tags.${key}`, 'is set by Karpenter and restricted in v1');
+    }
+  }
+
+  const mappings: any[] = spec.blockDeviceMappings ?? [];
+  if (mappings.filter(mapping => mapping.rootVolume).length > 1) {
+    error('spec.blockDeviceMappings', 'at most one mapping can be the root volume');
+  }
+  mappings.forEach((mapping, index) => {
+    const path = `spec.blockDeviceMappings[${index}].ebs`;
+    const ebs = mapping.ebs ?? {};
+    checkQuantity(ebs.volumeSize, `${path}.volumeSize`, error);
+    if (ebs.volumeType !== undefined && !VOLUME_TYPES.includes(ebs.volumeType)) {
+      error(`${path}.volumeType`, `must be one of ${VOLUME_TYPES.join(', ')}, got ${ebs.volumeType}`);
+    }
+    if (ebs.throughput !== undefined && ebs.volumeType !== 'gp3') {
+      error(`${path}.throughput`, 'only applies to gp3 volumes');
+    }
+    if (ebs.iops !== undefined && !['io1', 'io2', 'gp3'].includes(ebs.volumeType)) {
+      error(`${path}.iops`, 'only applies to io1, io2 and gp3 volumes');
+    }
+  });
+  return errors;
+}
+
+function validateRequirement(requirement: any, path: string, error: (path: string, message: string) => void): void {
+  const { key, operator, minValues } = requirement;
+  const values: unknown[] = requirement.values ?? [];
+
+  if (isResolved(key)) {
+    if (!LABEL_KEY.test(key)) {
+      error(`${path}.key`, `'${key}' is not a valid label key`);
+    } else if (RESTRICTED_LABELS.includes(key)) {
+      error(`${path}.key`, `'${key}' is restricted to Karpenter`);
+    }
+  }
+
+  if (!OPERATORS.includes(operator)) {
+    error(`${path}.operator`, `must be one of ${OPERATORS.join(', ')}, got ${operator}`);
+    return;
+  }
+  if (operator === 'In' && values.length === 0) {
+    error(`${path}.values`, 'In requires at least one value');
+  }
+  if ((operator === 'Exists' || operator === 'DoesNotExist') && values.length > 0) {
+    error(`${path}.values`, `${operator} takes no values`);
+  }
+  if ((operator === 'Gt' || operator === 'Lt') && (values.length !== 1 || (isResolved(values[0]) && !INTEGER.test(values[0] as string)))) {
+    error(`${path}.values`, `${operator} takes a single non-negative integer`);
+  }
+  if (minValues !== undefined) {
+    if (!Number.isInteger(minValues) || minValues < 1 || minValues > 50) {
+      error(`${path}.minValues`, `must be an integer between 1 and 50, got ${minValues}`);
+    } else if (operator === 'In' && values.length < minValues) {
+      error(`${path}.minValues`, `${minValues} exceeds the ${values.length} values`);
+    }
+  }
+}
+
+function validateBudget(budget: any, path: string, error: (path: string, message: string) => void): void {
+  if (budget.nodes === undefined) {
+    error(`${path}.nodes`, 'is required');
+  }
+  checkPattern(budget.nodes, BUDGET_NODES, `${path}.nodes`, error);
+  checkPattern(budget.duration, BUDGET_DURATION, `${path}.duration`, error);
+  if ((budget.schedule === undefined) !== (budget.duration === undefined)) {
+    error(path, 'schedule and duration must be set together');
+  }
+  if (budget.schedule !== undefined && isResolved(budget.schedule)) {
+    const problem = cronProblem(budget.schedule);
+    if (problem) {
+      error(`${path}.schedule`, `'${budget.schedule}' ${problem}`);
+    }
+  }
+  (budget.reasons ?? []).forEach((reason: unknown, index: number) => {
+    if (!DISRUPTION_REASONS.includes(reason as string)) {
+      error(`${path}.reasons[${index}]`, `must be one of ${DISRUPTION_REASONS.join(', ')}, got ${reason}`);
+    }
+  });
+}
+
+/**
+ * Describes why a cron expression is invalid, or returns undefined for a valid one
+ */
+function cronProblem(schedule: string): string | undefined {
+  if (CRON_MACRO.test(schedule)) {
+    return undefined;
+  }
+  const fields = schedule.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return `has ${fields.length} fields, expected minute, hour, day of month, month and day of week`;
+  }
+  for (const [index, field] of fields.entries()) {
+    const { name, min, max, names } = CRON_FIELDS[index];
+    const value = (token: string) => {
+      const named = names?.indexOf(token.toLowerCase()) ?? -1;
+      const number = named !== -1 ? named + min : INTEGER.test(token) ? Number(token) : NaN;
+      return number >= min && number <= max;
+    };
+    const valid = field.split(',').every(part => {
+      const match = /^(\*|\?|([^-/]+)(-([^-/]+))?)(\/([0-9]+))?$/.exec(part);
+      return match !== null
+        && (match[2] === undefined || value(match[2]))
+        && (match[4] === undefined || value(match[4]))
+        && (match[6] === undefined || Number(match[6]) > 0);
+    });
+    if (!valid) {
+      return `has an invalid ${name} field '${field}', expected values between ${min} and ${max}${names ? ` or ${names[0]}-${names[names.length - 1]}` : ''}`;
+    }
+  }
+  return undefined;
+}
+
+function checkPattern(value: unknown, pattern: RegExp, path: string, error: (path: string, message: string) => void): void {
+  if (value !== undefined && isResolved(value) && !pattern.test(value as string)) {
+    error(path, `'${value}' does not match ${pattern}`);
+  }
+}
+
+function checkQuantity(value: unknown, path: string, error: (path: string, message: string) => void): void {
+  if (value === undefined || !isResolved(value)) {
+    return;
+  }
+  try {
+    parseQuantity(String(value));
+  } catch (err) {
+    error(path, (err as Error).message);
+  }
+}
+
+function isRestrictedDomain(key: string): boolean {
+  const domain = key.includes('/') ? key.slice(0, key.indexOf('/')) : '';
+  return RESTRICTED_LABEL_DOMAINS.some(restricted => domain === restricted || domain.endsWith(`.${restricted}`));
+}
+
+/**
+ * Resolved values are plain strings; CloudFormation references resolve to objects and are skipped
+ */
+function isResolved(value: unknown): boolean {
+  return typeof value === 'string' && !value.includes('${Token[');
+}
@@ -2,29 +2,115 @@ import * as cdk from 'aws-cdk-lib';
 import * as eks from 'aws-cdk-lib/aws-eks';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as iam from 'aws-cdk-lib/aws-iam';
-import * as events from 'aws-cdk-lib/aws-events';
-import * as targets from 'aws-cdk-lib/aws-events-targets';
-import * as sqs from 'aws-cdk-lib/aws-sqs';
-import { Construct } from 'constructs';
-import { KarpenterControllerPolicy } from './karpenter-controller-policy';
-
-export interface KarpenterStackProps extends cdk.StackProps {
+import * as kms from 'aws-cdk-lib/aws-kms';
+import { Construct, IDependable } from 'constructs';
+import { KarpenterControllerPolicy, karpenterMinorVersion } from './karpenter-controller-policy';
+import { KarpenterChart, KarpenterChartOptions } from './karpenter-chart';
+import { Ec2NodeClass, Ec2NodeClassProps } from './ec2-node-class';
+import { BottlerocketSettings, BottlerocketSettingsProps } from './bottlerocket-settings';
+import { KarpenterNodePool } from './karpenter-node-pool';
+import { createCapacityNodePools } from './capacity-node-pools';
+import { configuredDisruptionBudgets } from './disruption-budgets';
+import { InstanceRequirements } from './instance-requirements';
+import { NodePoolConfig } from './environment-config';
+import { CredentialMode, createWorkloadIdentity } from './workload-identity';
+import { IamSettings, prefixedName } from './iam-settings';
+import { InterruptionQueue } from './interruption-queue';
+import { RegistryMirrors, RegistryMirrorsProps } from './registry-mirrors';
+import { ResolvedProxy } from './proxy-config';
+
+export interface KarpenterStackProps {
     cluster: eks.Cluster;
+
+    /**
+     * Name of the cluster; IAM condition keys embed it, so it must be known at synth time
+     */
+    clusterName: string;
+
     vpc: ec2.Vpc;
+
+    /**
+     * Subnets Karpenter launches nodes into, tagged for discovery
+     * @default - the private subnets with egress
+     */
+    nodeSubnets?: ec2.SubnetSelection;
+
+    /**
+     * Karpenter chart version and controller settings
+     */
+    karpenter?: KarpenterChartOptions;
+
+    /**
+     * Permissions boundary, IAM path and name prefix of the Karpenter IAM resources
+     */
+    iam?: IamSettings;
+
+    /**
+     * How the Karpenter controller obtains AWS credentials
+     * @default CredentialMode.IRSA
+     */
+    credentialMode?: CredentialMode;
+
+    /**
+     * Existing role of the controller, shared with other clusters; requires CredentialMode.POD_IDENTITY
+     * @default - a role is created for the cluster
+     */
+    controllerRole?: iam.IRole;
+
+    /**
+     * Environment overrides for the default NodePool
+     */
+    defaultNodePool?: NodePoolConfig;
+
+    /**
+     * Customer-managed key for node volumes and the interruption queue
+     * @default - AWS managed keys
+     */
+    encryptionKey?: kms.IKey;
+
+    /**
+     * Registry mirrors and ECR pull-through cache rules of every EC2NodeClass
+     * @default - Docker Hub is mirrored through mirror.gcr.io
+     */
+    registryMirrors?: RegistryMirrorsProps;
+
+    /**
+     * Proxy used by the controller and every EC2NodeClass
+     * @default - no proxy
+     */
+    proxy?: ResolvedProxy;
+
+    /**
+     * Settings merged into the shared Bottlerocket settings of every EC2NodeClass
+     */
+    bottlerocketSettings?: BottlerocketSettingsProps;
 }
 
-export class KarpenterStack extends cdk.Stack {
+/**
+ * CDK Construct for Karpenter on an EKS cluster
+ * Creates the node and controller IAM resources, the interruption queue, the Helm releases and the default NodePools
+ */
+export class KarpenterStack extends Construct {
     public readonly karpenterNodeInstanceProfile: iam.CfnInstanceProfile;
     public readonly karpenterNodeRole: iam.Role;
+    public readonly nodeIdentity: Pick<Ec2NodeClassProps, 'role' | 'instanceProfile'>;
+    public readonly karpenterInstallation: IDependable;
+    public readonly interruptionQueue: InterruptionQueue;
+    public readonly registryMirrors: RegistryMirrors;
+    public readonly bottlerocketSettings: BottlerocketSettings;
+    public readonly defaultNodeClass: Ec2NodeClass;
+    public readonly defaultNodePool: KarpenterNodePool;
+    public readonly defaultNodePools: KarpenterNodePool[];
 
     constructor(scope: Construct, id: string, props: KarpenterStackProps) {
-        super(scope, id, props);
+        super(scope, id);
 
         const { cluster, vpc } = props;
+        const defaultNodePoolConfig = props.defaultNodePool ?? {};
 
         // Create Karpenter node IAM role
         this.karpenterNodeRole = new iam.Role(this, 'KarpenterNodeRole', {
-            roleName: `KarpenterNodeInstanceRole-${cluster.clusterName}`,
+            roleName: prefixedName(props.iam, `KarpenterNodeInstanceRole-${cluster.clusterName}`),
             assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'),
             managedPolicies: [
                 iam.ManagedPolicy.fromAwsManagedPolicyName('AmazonEKSWorkerNodePolicy'),
@@ -36,68 +122,32 @@ export class KarpenterStack extends cdk.Stack {
 
         // Create instance profile for Karpenter nodes
         this.karpenterNodeInstanceProfile = new iam.CfnInstanceProfile(this, 'KarpenterNodeInstanceProfile', {
-            instanceProfileName: `KarpenterNodeInstanceProfile-${cluster.clusterName}`,
+            instanceProfileName: prefixedName(props.iam, `KarpenterNodeInstanceProfile-${cluster.clusterName}`),
             roles: [this.karpenterNodeRole.roleName],
         });
 
-        // Create SQS queue for spot interruption handling
-        const karpenterQueue = new sqs.Queue(this, 'KarpenterQueue', {
-            queueName: `Karpenter-${cluster.clusterName}`,
-            messageRetentionPeriod: cdk.Duration.seconds(300),
-        });
+        // IAM has no VPC endpoint, so in an isolated VPC the controller launches nodes with the existing profile
+        this.nodeIdentity = props.karpenter?.isolatedVpc
+            ? { instanceProfile: this.karpenterNodeInstanceProfile.ref }
+            : { role: this.karpenterNodeRole };
 
-        // Create Karpenter controller IAM role
-        const karpenterControllerRole = new iam.Role(this, 'KarpenterControllerRole', {
-            roleName: `KarpenterControllerRole-${cluster.clusterName}`,
-            assumedBy: new iam.FederatedPrincipal(
-                cluster.openIdConnectProvider.openIdConnectProviderArn,
-                {
-                    StringEquals: {
-                        [`${cluster.openIdConnectProvider.openIdConnectProviderIssuer}:sub`]: 'system:serviceaccount:karpenter:karpenter',
-                        [`${cluster.openIdConnectProvider.openIdConnectProviderIssuer}:aud`]: 'sts.amazonaws.com',
-                    },
-                },
-                'sts:AssumeRoleWithWebIdentity'
-            ),
+        // Create SQS queue and EventBridge rules for interruption handling
+        this.interruptionQueue = new InterruptionQueue(this, 'KarpenterQueue', {
+            queueName: prefixedName(props.iam, `Karpenter-${cluster.clusterName}`),
+            encryptionKey: props.encryptionKey,
         });
+        const karpenterQueue = this.interruptionQueue.queue;
 
         // Create Karpenter controller policy using the new construct
         const karpenterControllerPolicyConstruct = new KarpenterControllerPolicy(this, 'KarpenterControllerPolicy', {
-            clusterName: cluster.clusterName,
+            clusterName: props.clusterName,
             karpenterInterruptionQueueArn: karpenterQueue.queueArn,
             karpenterNodeRoleArn: this.karpenterNodeRole.roleArn,
+            karpenterVersion: props.karpenter?.version ?? KarpenterChart.DEFAULT_VERSION,
+            kmsKeyArns: props.encryptionKey && [props.encryptionKey.keyArn],
+            iam: props.iam,
         });
 
-        // Attach the managed policy to the controller role
-        karpenterControllerRole.addManagedPolicy(karpenterControllerPolicyConstruct.managedPolicy);
-
-        // Create EventBridge rules for spot interruption
-        const spotInterruptionRule = new events.Rule(this, 'SpotInterruptionRule', {
-            eventPattern: {
-                source: ['aws.ec2'],
-                detailType: ['EC2 Spot Instance Interruption Warning'],
-            },
-        });
-
-        const scheduledChangeRule = new events.Rule(this, 'ScheduledChangeRule', {
-            eventPattern: {
-                source: ['aws.health'],
-                detailType: ['AWS Health Event'],
-            },
-        });
-
-        const instanceStateChangeRule = new events.Rule(this, 'InstanceStateChangeRule', {
-            eventPattern: {
-                source: ['aws.ec2'],
-                detailType: ['EC2 Instance State-change Notification'],
-            },
-        });
-
-        // Add SQS targets to EventBridge rules
-        spotInterruptionRule.addTarget(new targets.SqsQueue(karpenterQueue));
-        scheduledChangeRule.addTarget(new targets.SqsQueue(karpenterQueue));
-        instanceStateChangeRule.addTarget(new targets.SqsQueue(karpenterQueue));
-
         // Create Karpenter namespace
         const karpenterNamespace = cluster.addManifest('KarpenterNamespace', {
             apiVersion: 'v1',
@@ -110,348 +160,165 @@ export class KarpenterStack extends cdk.Stack {
             },
         });
 
-        // Create ServiceAccount for Karpenter
-        const karpenterServiceAccount = cluster.addManifest('KarpenterServiceAccount', {
-            apiVersion: 'v1',
-            kind: 'ServiceAccount',
-            metadata: {
-                name: 'karpenter',
-                namespace: 'karpenter',
-                annotations: {
-                    'eks.amazonaws.com/role-arn': karpenterControllerRole.roleArn,
-                },
-            },
+        // Create ServiceAccount and IAM role for the Karpenter controller
+        const karpenterServiceAccount = createWorkloadIdentity(this, 'KarpenterServiceAccount', props.credentialMode ?? CredentialMode.IRSA, {
+            cluster,
+            namespace: 'karpenter',
+            serviceAccountName: 'karpenter',
+            roleName: prefixedName(props.iam, `KarpenterControllerRole-${cluster.clusterName}`),
+            role: props.controllerRole,
+            managedPolicies: [karpenterControllerPolicyConstruct.managedPolicy],
         });
 
-        // Apply Karpenter CRDs and controller manifests directly
-        // This approach uses kubectl apply with the official Karpenter manifests
-        const karpenterManifests = cluster.addManifest('KarpenterController', {
-            apiVersion: 'v1',
-            kind: 'ConfigMap',
-            metadata: {
-                name: 'karpenter-install-script',
-                namespace: 'karpenter',
-            },
-            data: {
-                'install.sh': `#!/bin/bash
-set -e
-
-echo "Installing Karpenter 1.6.1..."
-
-# Install required tools
-yum update -y
-yum install -y curl tar gzip
-
-# Install kubectl
-curl -LO "https://dl.k8s.io/release/v1.28.0/bin/linux/amd64/kubectl"
-chmod +x kubectl
-mv kubectl /usr/local/bin/
-
-# Install Helm
-curl -fsSL -o get_helm.sh https://raw.githubusercontent.com/helm/helm/main/scripts/get-helm-3
-chmod 700 get_helm.sh
-./get_helm.sh
-
-# Configure kubectl to use the cluster
-aws eks update-kubeconfig --region $AWS_DEFAULT_REGION --name $CLUSTER_NAME
-
-# Authenticate with ECR Public for OCI registry access
-aws ecr-public get-login-password --region us-east-1 | helm registry login --username AWS --password-stdin public.ecr.aws
-
-# Install Karpenter using Helm with OCI registry
-helm upgrade --install karpenter oci://public.ecr.aws/karpenter/karpenter \\
-  --version 1.6.1 \\
-  --namespace karpenter \\
-  --create-namespace \\
-  --set serviceAccount.create=false \\
-  --set serviceAccount.name=karpenter \\
-  --set settings.clusterName=$CLUSTER_NAME \\
-  --set settings.clusterEndpoint=$CLUSTER_ENDPOINT \\
-  --set settings.interruptionQueue=$INTERRUPTION_QUEUE \\
-  --set settings.featureGates.drift=true \\
-  --set settings.featureGates.spotToSpotConsolidation=true \\
-  --set controller.resources.requests.cpu=1 \\
-  --set controller.resources.requests.memory=1Gi \\
-  --set controller.resources.limits.cpu=1 \\
-  --set controller.resources.limits.memory=1Gi \\
-  --set webhook.enabled=true \\
-  --set webhook.port=8443 \\
-  --set logLevel=info \\
-  --set batchMaxDuration=10s \\
-  --set batchIdleDuration=1s \\
-  --wait
-
-echo "Karpenter installation completed successfully!"
-
-# Verify installation
-kubectl get pods -n karpenter
-kubectl get deployment -n karpenter
-`,
-            },
+        // Create registry mirrors and let nodes populate the pull-through cache
+        this.registryMirrors = new RegistryMirrors(this, 'RegistryMirrors', props.registryMirrors);
+        this.registryMirrors.grantPull(this.karpenterNodeRole);
+
+        // Install Karpenter CRDs and controller as CDK-managed Helm releases
+        const karpenterChart = new KarpenterChart(this, 'KarpenterChart', {
+            ...props.karpenter,
+            cluster,
+            namespace: 'karpenter',
+            serviceAccountName: karpenterServiceAccount.serviceAccountName,
+            interruptionQueueName: karpenterQueue.queueName,
+            proxy: props.proxy,
+            imageRegistry: this.registryMirrors.cachedRegistry('public.ecr.aws'),
         });
 
-        // Create RBAC for installer job
-        const installerRole = cluster.addManifest('KarpenterInstallerRole', {
-            apiVersion: 'rbac.authorization.k8s.io/v1',
-            kind: 'ClusterRole',
-            metadata: {
-                name: 'karpenter-installer',
-            },
-            rules: [
-                {
-                    apiGroups: ['*'],
-                    resources: ['*'],
-                    verbs: ['*'],
-                },
-            ],
+        // Add dependencies
+        karpenterServiceAccount.node.addDependency(karpenterNamespace);
+        karpenterChart.node.addDependency(karpenterServiceAccount);
+        this.karpenterInstallation = karpenterChart;
+
+        // Fail synth when the installed chart and the controller policy target different releases
+        this.node.addValidation({
+            validate: () => karpenterMinorVersion(karpenterChart.version) === karpenterMinorVersion(karpenterControllerPolicyConstruct.karpenterVersion)
+                ? []
+                : [`Karpenter chart ${karpenterChart.version} does not match controller policy version ${karpenterControllerPolicyConstruct.karpenterVersion}`],
         });
 
-        const installerRoleBinding = cluster.addManifest('KarpenterInstallerRoleBinding', {
-            apiVersion: 'rbac.authorization.k8s.io/v1',
-            kind: 'ClusterRoleBinding',
-            metadata: {
-                name: 'karpenter-installer',
+        // Shared Bottlerocket settings for every EC2NodeClass
+        this.bottlerocketSettings = new BottlerocketSettings({
+            kubernetes: {
+                clusterName: cluster.clusterName,
+                apiServer: cluster.clusterEndpoint,
+                clusterCertificate: cluster.clusterCertificateAuthorityData,
+            },
+            containerRuntime: {
+                maxContainerLogLineSize: 16384,
             },
-            roleRef: {
-                apiGroup: 'rbac.authorization.k8s.io',
-                kind: 'ClusterRole',
-                name: 'karpenter-installer',
+            containerRegistry: {
+                mirrors: this.registryMirrors.mirrors,
             },
-            subjects: [
+            network: props.proxy && {
+                httpsProxy: props.proxy.httpsProxy,
+                noProxy: props.proxy.noProxy,
+            },
+        }).with(props.bottlerocketSettings ?? {});
+
+        // Create default EC2NodeClass
+        this.defaultNodeClass = new Ec2NodeClass(this, 'DefaultNodeClass', {
+            cluster,
+            karpenterInstallation: this.karpenterInstallation,
+            nodeClassName: 'default',
+            ...this.nodeIdentity,
+            amiFamily: 'Bottlerocket',
+            instanceStorePolicy: 'RAID0',
+            bottlerocketSettings: this.bottlerocketSettings,
+            blockDeviceMappings: [
                 {
-                    kind: 'ServiceAccount',
-                    name: 'karpenter',
-                    namespace: 'karpenter',
+                    deviceName: '/dev/xvda',
+                    ebs: {
+                        volumeSize: '20Gi',
+                        volumeType: 'gp3',
+                        iops: 3000,
+                        throughput: 125,
+                        deleteOnTermination: true,
+                        encrypted: true,
+                        kmsKeyID: props.encryptionKey?.keyArn,
+                    },
                 },
-            ],
-        });
-
-        // Create a Job to install Karpenter
-        const karpenterInstallJob = cluster.addManifest('KarpenterInstallJob', {
-            apiVersion: 'batch/v1',
-            kind: 'Job',
-            metadata: {
-                name: 'karpenter-installer',
-                namespace: 'karpenter',
-            },
-            spec: {
-                template: {
-                    spec: {
-                        serviceAccountName: 'karpenter',
-                        restartPolicy: 'OnFailure',
-                        containers: [
-                            {
-                                name: 'installer',
-                                image: 'amazon/aws-cli:latest',
-                                command: ['/bin/bash'],
-                                args: ['/scripts/install.sh'],
-                                volumeMounts: [
-                                    {
-                                        name: 'install-script',
-                                        mountPath: '/scripts',
-                                    },
-                                ],
-                                env: [
-                                    {
-                                        name: 'AWS_DEFAULT_REGION',
-                                        value: this.region,
-                                    },
-                                    {
-                                        name: 'CLUSTER_NAME',
-                                        value: cluster.clusterName,
-                                    },
-                                    {
-                                        name: 'CLUSTER_ENDPOINT',
-                                        value: cluster.clusterEndpoint,
-                                    },
-                                    {
-                                        name: 'INTERRUPTION_QUEUE',
-                                        value: karpenterQueue.queueName,
-                                    },
-                                ],
-                            },
-                        ],
-                        volumes: [
-                            {
-                                name: 'install-script',
-                                configMap: {
-                                    name: 'karpenter-install-script',
-                                    defaultMode: 0o755,
-                                },
-                            },
-                        ],
+                {
+                    deviceName: '/dev/xvdb',
+                    ebs: {
+                        volumeSize: '100Gi',
+                        volumeType: 'gp3',
+                        iops: 3000,
+                        throughput: 125,
+                        deleteOnTermination: true,
+                        encrypted: true,
+                        kmsKeyID: props.encryptionKey?.keyArn,
                     },
                 },
-                backoffLimit: 3,
-            },
+            ],
         });
 
-        // Add dependencies
-        karpenterServiceAccount.node.addDependency(karpenterNamespace);
-        karpenterManifests.node.addDependency(karpenterServiceAccount);
-        karpenterInstallJob.node.addDependency(karpenterManifests);
-
-        // Create default NodePool
-        const defaultNodePool = cluster.addManifest('DefaultNodePool', {
-            apiVersion: 'karpenter.sh/v1',
-            kind: 'NodePool',
-            metadata: {
-                name: 'default',
-                namespace: 'karpenter',
+        // Create default NodePools; spot first with an on-demand fallback unless configured otherwise
+        this.defaultNodePools = createCapacityNodePools(this, 'DefaultNodePool', {
+            nodeClass: this.defaultNodeClass,
+            nodePoolName: 'default',
+            labels: {
+                'node-type': 'karpenter',
             },
-            spec: {
-                template: {
-                    metadata: {
-                        labels: {
-                            'node-type': 'karpenter',
-                        },
-                        annotations: {
-                            'cluster-autoscaler.kubernetes.io/safe-to-evict': 'true',
-                        },
-                    },
-                    spec: {
-                        requirements: [
-                            {
-                                key: 'kubernetes.io/arch',
-                                operator: 'In',
-                                values: ['amd64'],
-                            },
-                            {
-                                key: 'kubernetes.io/os',
-                                operator: 'In',
-                                values: ['linux'],
-                            },
-                            {
-                                key: 'karpenter.sh/capacity-type',
-                                operator: 'In',
-                                values: ['spot', 'on-demand'],
-                            },
-                            {
-                                key: 'node.kubernetes.io/instance-type',
-                                operator: 'In',
-                                values: ['m5.large', 'm5.xlarge', 'm5.2xlarge', 'm5.4xlarge', 'c5.large', 'c5.xlarge', 'c5.2xlarge', 'c5.4xlarge'],
-                            },
-                        ],
-                        nodeClassRef: {
-                            apiVersion: 'karpenter.k8s.aws/v1',
-                            kind: 'EC2NodeClass',
-                            name: 'default',
-                        },
-                        taints: [
-                            {
-                                key: 'karpenter.sh/unschedulable',
-                                value: 'true',
-                                effect: 'NoSchedule',
-                            },
-                        ],
-                    },
-                },
-                disruption: {
-                    consolidationPolicy: 'WhenUnderutilized',
-                    consolidateAfter: '30s',
-                    expireAfter: '30m',
+            annotations: {
+                'cluster-autoscaler.kubernetes.io/safe-to-evict': 'true',
+            },
+            requirements: [
+                ...new InstanceRequirements({
+                    categories: ['general', 'compute'],
+                    minGeneration: 5,
+                    cpu: { min: 2, max: 16 },
+                }).with({
+                    architectures: defaultNodePoolConfig.architectures,
+                    instanceTypes: defaultNodePoolConfig.instanceTypes,
+                    ...defaultNodePoolConfig.instanceRequirements,
+                }).render(),
+                {
+                    key: 'kubernetes.io/os',
+                    operator: 'In',
+                    values: ['linux'],
                 },
+            ],
+            strategy: defaultNodePoolConfig.capacityStrategy,
+            capacityTypes: defaultNodePoolConfig.capacityTypes,
+            spot: defaultNodePoolConfig.spot,
+            onDemand: {
                 limits: {
-                    cpu: '1000',
-                    memory: '1000Gi',
+                    cpu: '250',
+                    memory: '250Gi',
                 },
+                ...defaultNodePoolConfig.onDemand,
             },
-        });
-
-        // Create default EC2NodeClass
-        const defaultNodeClass = cluster.addManifest('DefaultNodeClass', {
-            apiVersion: 'karpenter.k8s.aws/v1',
-            kind: 'EC2NodeClass',
-            metadata: {
-                name: 'default',
-                namespace: 'karpenter',
-            },
-            spec: {
-                amiFamily: 'Bottlerocket',
-                subnetSelectorTerms: [
-                    {
-                        tags: {
-                            'karpenter.sh/discovery': cluster.clusterName,
-                        },
-                    },
-                ],
-                securityGroupSelectorTerms: [
-                    {
-                        tags: {
-                            'karpenter.sh/discovery': cluster.clusterName,
-                        },
-                    },
-                ],
-                instanceStorePolicy: 'RAID0',
-                userData: cdk.Fn.base64(
-                    [
-                        '[settings.kubernetes]',
-                        `cluster-name = "${cluster.clusterName}"`,
-                        `api-server = "${cluster.clusterEndpoint}"`,
-                        `cluster-certificate = "${cluster.clusterCertificateAuthorityData}"`,
-                        '',
-                        '[settings.container-runtime]',
-                        'max-container-log-line-size = 16384',
-                        '',
-                        '[settings.container-registry]',
-                        '# Configure Google Container Registry mirror for Docker Hub',
-                        '"docker.io" = "https://mirror.gcr.io"',
-                        '# Add your GHES registry (replace with your actual GHES domain)',
-                        '# "ghes.your-company.com" = "https://ghes.your-company.com"',
-                        '',
-                        '[settings.container-registry.credentials]',
-                        '# GHES registry credentials will be managed by Kubernetes secrets',
-                        '# The kubelet will handle authentication via imagePullSecrets',
-                        '',
-                        '[settings.network]',
-                        'https-proxy = ""',
-                        'no-proxy = ["169.254.169.254", "10.0.0.0/8", "ghes.your-company.com"]',
-                    ].join('\n')
-                ),
-                blockDeviceMappings: [
-                    {
-                        deviceName: '/dev/xvda',
-                        ebs: {
-                            volumeSize: '20Gi',
-                            volumeType: 'gp3',
-                            iops: 3000,
-                            throughput: 125,
-                            deleteOnTermination: true,
-                            encrypted: true,
-                        },
-                    },
-                    {
-                        deviceName: '/dev/xvdb',
-                        ebs: {
-                            volumeSize: '100Gi',
-                            volumeType: 'gp3',
-                            iops: 3000,
-                            throughput: 125,
-                            deleteOnTermination: true,
-                            encrypted: true,
-                        },
-                    },
-                ],
-                role: this.karpenterNodeRole.roleName,
-                tags: {
-                    'karpenter.sh/discovery': cluster.clusterName,
-                    'kubernetes.io/cluster/' + cluster.clusterName: 'owned',
+            taints: [
+                {
+                    key: 'karpenter.sh/unschedulable',
+                    value: 'true',
+                    effect: 'NoSchedule',
                 },
+            ],
+            expireAfter: defaultNodePoolConfig.expireAfter ?? '30m',
+            terminationGracePeriod: defaultNodePoolConfig.terminationGracePeriod,
+            disruption: {
+                consolidationPolicy: 'WhenEmptyOrUnderutilized',
+                consolidateAfter: '30s',
+                budgets: configuredDisruptionBudgets(defaultNodePoolConfig, [{ nodes: '10%' }]),
+            },
+            limits: {
+                cpu: '1000',
+                memory: '1000Gi',
+                ...defaultNodePoolConfig.limits,
             },
         });
+        this.defaultNodePool = this.defaultNodePools[0];
 
-        // Add dependencies
-        defaultNodePool.node.addDependency(karpenterInstallJob);
-        defaultNodeClass.node.addDependency(karpenterInstallJob);
-
-        // Tag subnets for Karpenter discovery
-        vpc.privateSubnets.forEach((subnet, index) => {
-            cdk.Tags.of(subnet).add('karpenter.sh/discovery', cluster.clusterName);
+        // Tag subnets for Karpenter discovery; a private cluster depends on the whole VPC, so the tag cannot reference it
+        vpc.selectSubnets(props.nodeSubnets ?? { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS }).subnets.forEach(subnet => {
+            cdk.Tags.of(subnet).add('karpenter.sh/discovery', props.clusterName);
         });
 
         // Output important values
         new cdk.CfnOutput(this, 'KarpenterControllerRoleArn', {
-            value: karpenterControllerRole.roleArn,
+            value: karpenterServiceAccount.role.roleArn,
             description: 'Karpenter Controller IAM Role ARN',
         });
 
@@ -0,0 +1,138 @@
+import * as cdk from 'aws-cdk-lib';
+import { IConstruct } from 'constructs';
+
+/**
+ * Kubernetes node taint
+ */
+export interface Taint {
+  /**
+   * Taint key
+   */
+  key: string;
+
+  /**
+   * Taint value
+   */
+  value?: string;
+
+  /**
+   * Taint effect
+   */
+  effect: 'NoSchedule' | 'PreferNoSchedule' | 'NoExecute';
+}
+
+/**
+ * Kubernetes node selector requirement
+ */
+export interface NodeSelectorRequirement {
+  /**
+   * Label key the requirement applies to
+   */
+  key: string;
+
+  /**
+   * Relationship between the label and the values
+   */
+  operator: 'In' | 'NotIn' | 'Exists' | 'DoesNotExist' | 'Gt' | 'Lt';
+
+  /**
+   * Values compared against the label
+   */
+  values?: string[];
+
+  /**
+   * Minimum number of distinct values the scheduler must keep available
+   */
+  minValues?: number;
+}
+
+/**
+ * Compute resources of a container
+ */
+export interface ResourceRequirements {
+  /**
+   * Requested CPU and memory
+   */
+  requests?: { cpu?: string; memory?: string };
+
+  /**
+   * CPU and memory limits
+   */
+  limits?: { cpu?: string; memory?: string };
+}
+
+/**
+ * Kubernetes pod topology spread constraint
+ */
+export interface TopologySpreadConstraint {
+  /**
+   * Largest allowed difference in matching pods between two domains
+   */
+  maxSkew: number;
+
+  /**
+   * Node label whose values form the domains
+   */
+  topologyKey: string;
+
+  /**
+   * What to do with a pod that would exceed the skew
+   */
+  whenUnsatisfiable: 'DoNotSchedule' | 'ScheduleAnyway';
+
+  /**
+   * Pods counted against the skew
+   */
+  labelSelector: { matchLabels: Record<string, string> };
+}
+
+/**
+ * Returns the toleration that lets pods schedule onto nodes with `taint`
+ */
+export function tolerationFor(taint: Taint): Record<string, string> {
+  return taint.value === undefined
+    ? { key: taint.key, operator: 'Exists', effect: taint.effect }
+    : { key: taint.key, operator: 'Equal', value: taint.value, effect: taint.effect };
+}
+
+const KUBERNETES_NAME = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+
+/**
+ * Throws if `name` is not a valid Kubernetes object name (RFC 1123 subdomain)
+ */
+export function assertKubernetesName(scope: IConstruct, name: string): void {
+  if (cdk.Token.isUnresolved(name)) {
+    return;
+  }
+  if (name.length > 253 || !KUBERNETES_NAME.test(name)) {
+    throw new Error(`${scope.node.path}: '${name}' is not a valid Kubernetes object name`);
+  }
+}
+
+const QUANTITY = /^(\d+(?:\.\d+)?)(m|k|M|G|T|P|Ki|Mi|Gi|Ti|Pi)?$/;
+
+const QUANTITY_SUFFIXES: Record<string, number> = {
+  '': 1,
+  'm': 1e-3,
+  'k': 1e3,
+  'M': 1e6,
+  'G': 1e9,
+  'T': 1e12,
+  'P': 1e15,
+  'Ki': 2 ** 10,
+  'Mi': 2 ** 20,
+  'Gi': 2 ** 30,
+  'Ti': 2 ** 40,
+  'Pi': 2 ** 50,
+};
+
+/**
+ * Converts a Kubernetes quantity such as `500m` or `200Gi` to a number of base units
+ */
+export function parseQuantity(quantity: string): number {
+  const match = QUANTITY.exec(quantity);
+  if (!match) {
+    throw new Error(`'${quantity}' is not a valid Kubernetes quantity`);
+  }
+  return Number(match[1]) * QUANTITY_SUFFIXES[match[2] ?? ''];
+}
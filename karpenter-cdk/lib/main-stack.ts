@@ -2,49 +2,119 @@ import * as cdk from 'aws-cdk-lib';
 import * as eks from 'aws-cdk-lib/aws-eks';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
 import { Construct } from 'constructs';
 import { KarpenterStack } from './karpenter-stack';
+import { Ec2NodeClass } from './ec2-node-class';
+import { KarpenterNodePool } from './karpenter-node-pool';
+import { EnvironmentConfig } from './environment-config';
+import { applyIamSettings } from './iam-settings';
+import { ClusterEncryptionKey } from './cluster-encryption-key';
+import { KarpenterMonitoring } from './karpenter-monitoring';
+import { GitHubRunnerScaleSet } from './github-runner-scale-set';
+import { GitHubCredentials } from './github-credentials';
+import { defaultServiceCidr, proxyEnvironment, resolveProxy } from './proxy-config';
+import { Cilium } from './cilium';
+import { NexusRepository } from './nexus-repository';
+import { InstanceRequirements } from './instance-requirements';
+import { createCapacityNodePools } from './capacity-node-pools';
+import { addManagedAddons } from './managed-addons';
+import { EbsStorage } from './ebs-storage';
+import { ClusterVpcEndpoints } from './cluster-vpc-endpoints';
+import { businessHoursFreeze, configuredDisruptionBudgets } from './disruption-budgets';
+
+export interface MainStackProps extends cdk.StackProps {
+  /**
+   * Configuration of the environment this stack deploys
+   */
+  config: EnvironmentConfig;
+}
 
 export class MainStack extends cdk.Stack {
-  constructor(scope: Construct, id: string, props?: cdk.StackProps) {
+  constructor(scope: Construct, id: string, props: MainStackProps) {
     super(scope, id, props);
 
+    const { config } = props;
+    const githubRunnersConfig = config.nodePools?.['github-runners'] ?? {};
+
+    // Permissions boundary and IAM path for every role, including those created by eks.Cluster
+    applyIamSettings(this, config.iam);
+
+    // Customer-managed key for secrets, node and persistent volumes and the interruption queue
+    const encryptionKey = config.encryption && new ClusterEncryptionKey(this, 'EncryptionKey', {
+      keyArn: config.encryption.keyArn,
+      alias: `alias/${config.clusterName}`,
+    }).key;
+
+    // Proxy settings shared by the cluster handlers, Karpenter and the nodes
+    const proxy = config.proxy && resolveProxy(config.proxy, {
+      vpcCidr: config.network.vpcCidr,
+      serviceCidr: config.network.serviceCidr ?? defaultServiceCidr(config.network.vpcCidr),
+    });
+    const proxyEnv = proxy && proxyEnvironment(proxy);
+
+    // In private mode nodes run in isolated subnets and pull images through the ECR pull-through cache; NAT gateways
+    // only serve the Handlers subnets, which hold the control plane ENIs and the kubectl handler that fetches Helm charts
+    const isPrivate = config.network.private ?? false;
+    const hasEgress = config.network.natGateways > 0;
+    const nodeSubnetType = isPrivate ? ec2.SubnetType.PRIVATE_ISOLATED : ec2.SubnetType.PRIVATE_WITH_EGRESS;
+    const nodeSubnets: ec2.SubnetSelection = { subnetType: nodeSubnetType };
+    const clusterSubnets: ec2.SubnetSelection = isPrivate && hasEgress ? { subnetGroupName: 'Handlers' } : nodeSubnets;
+
     // Create VPC
     const vpc = new ec2.Vpc(this, 'EksVpc', {
-      maxAzs: 3,
-      natGateways: 1,
+      ipAddresses: ec2.IpAddresses.cidr(config.network.vpcCidr),
+      maxAzs: config.network.maxAzs,
+      natGateways: config.network.natGateways,
       subnetConfiguration: [
-        {
+        ...(!isPrivate || hasEgress ? [{
           cidrMask: 24,
           name: 'Public',
           subnetType: ec2.SubnetType.PUBLIC,
-        },
+        }] : []),
         {
           cidrMask: 24,
           name: 'Private',
-          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+          subnetType: nodeSubnetType,
         },
+        ...(isPrivate && hasEgress ? [{
+          cidrMask: 26,
+          name: 'Handlers',
+          subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+        }] : []),
       ],
     });
 
+    // Interface endpoints for the AWS APIs and the S3 gateway endpoint for ECR image layers
+    const vpcEndpoints = isPrivate
+      ? new ClusterVpcEndpoints(this, 'VpcEndpoints', { vpc, subnets: nodeSubnets })
+      : undefined;
+
     // Create EKS cluster
     const cluster = new eks.Cluster(this, 'EksCluster', {
-      clusterName: 'karpenter-demo',
-      version: eks.KubernetesVersion.V1_28,
+      clusterName: config.clusterName,
+      version: eks.KubernetesVersion.of(config.kubernetesVersion),
       vpc,
-      vpcSubnets: [{ subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS }],
+      vpcSubnets: [clusterSubnets],
       defaultCapacity: 0, // We'll use Karpenter for scaling
-      endpointAccess: eks.EndpointAccess.PUBLIC_AND_PRIVATE,
+      endpointAccess: isPrivate ? eks.EndpointAccess.PRIVATE : eks.EndpointAccess.PUBLIC_AND_PRIVATE,
       authenticationMode: eks.AuthenticationMode.API_AND_CONFIG_MAP,
+      secretsEncryptionKey: encryptionKey,
+      serviceIpv4Cidr: config.network.serviceCidr,
+      kubectlEnvironment: proxyEnv,
+      clusterHandlerEnvironment: proxyEnv,
     });
 
     // Add initial managed node group (minimal, for Karpenter itself)
-    cluster.addNodegroupCapacity('InitialNodes', {
+    const initialNodes = cluster.addNodegroupCapacity('InitialNodes', {
       instanceTypes: [ec2.InstanceType.of(ec2.InstanceClass.T3, ec2.InstanceSize.MEDIUM)],
       minSize: 1,
       maxSize: 3,
       desiredSize: 2,
-      subnets: { subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS },
+      subnets: nodeSubnets,
       labels: {
         'node-type': 'system',
         'karpenter.sh/provisioner-name': 'system',
@@ -58,12 +128,64 @@ export class MainStack extends cdk.Stack {
       ],
     });
 
-    // Deploy Karpenter
+    // Nodes without egress pull images and join the cluster through the endpoints
+    if (vpcEndpoints) {
+      initialNodes.node.addDependency(vpcEndpoints);
+    }
+
+    // Pin the managed add-ons to the Kubernetes version; Cilium replaces the VPC CNI and kube-proxy
+    addManagedAddons(cluster, {
+      kubernetesVersion: config.kubernetesVersion,
+      credentialMode: config.credentialMode,
+      addons: config.cni === 'cilium'
+        ? { ...config.addons, 'vpc-cni': { enabled: false }, 'kube-proxy': { enabled: false } }
+        : config.addons,
+    });
+
+    // Encrypted gp3 default StorageClass, plus the optional io2 and retain classes
+    const storage = config.addons?.['aws-ebs-csi-driver']?.enabled === false
+      ? undefined
+      : new EbsStorage(this, 'Storage', {
+        cluster,
+        encryptionKey: config.storage?.kmsKeyArn
+          ? kms.Key.fromKeyArn(this, 'StorageKey', config.storage.kmsKeyArn)
+          : encryptionKey,
+        io2: config.storage?.io2,
+        retain: config.storage?.retain,
+      });
+
+    // Deploy Karpenter, associating a role shared across clusters if one is configured
+    const { controllerRoleArn, ...karpenterOptions } = config.karpenter ?? {};
     const karpenterStack = new KarpenterStack(this, 'Karpenter', {
       cluster,
+      clusterName: config.clusterName,
       vpc,
+      nodeSubnets,
+      iam: config.iam,
+      credentialMode: config.credentialMode,
+      controllerRole: controllerRoleArn ? iam.Role.fromRoleArn(this, 'KarpenterControllerRole', controllerRoleArn) : undefined,
+      karpenter: isPrivate ? { ...karpenterOptions, isolatedVpc: true } : karpenterOptions,
+      defaultNodePool: config.nodePools?.default,
+      encryptionKey,
+      registryMirrors: config.registryMirrors,
+      proxy,
+      bottlerocketSettings: config.cni === 'cilium' ? Cilium.BOTTLEROCKET_SETTINGS : undefined,
     });
 
+    // The system nodes run AL2 without registry mirrors, so their images name the pull-through cache
+    const registryMirrors = karpenterStack.registryMirrors;
+    registryMirrors.grantPull(initialNodes.role);
+
+    // Replace the VPC CNI and kube-proxy with Cilium; every NodePool waits for its agent
+    if (config.cni === 'cilium') {
+      new Cilium(this, 'Cilium', {
+        cluster,
+        credentialMode: config.credentialMode,
+        imageRegistry: registryMirrors.cachedRegistry('quay.io'),
+      });
+      Cilium.addStartupTaints(this);
+    }
+
     // Create security group for Karpenter nodes
     const karpenterNodeSecurityGroup = new ec2.SecurityGroup(this, 'KarpenterNodeSecurityGroup', {
       vpc,
@@ -146,178 +268,272 @@ export class MainStack extends cdk.Stack {
       },
     });
 
-    // Create NodePool for GitHub Actions runners
-    const githubRunnersNodePool = cluster.addManifest('GitHubRunnersNodePool', {
-      apiVersion: 'karpenter.sh/v1',
-      kind: 'NodePool',
-      metadata: {
-        name: 'github-runners',
-        namespace: 'karpenter',
-      },
-      spec: {
-        template: {
-          metadata: {
-            labels: {
-              'node-type': 'github-runner',
-              'workload-type': 'ci-cd',
-            },
-            annotations: {
-              'cluster-autoscaler.kubernetes.io/safe-to-evict': 'true',
-            },
+    // Create EC2NodeClass for GitHub Actions runners
+    const githubRunnersNodeClass = new Ec2NodeClass(this, 'GitHubRunnersNodeClass', {
+      cluster,
+      karpenterInstallation: karpenterStack.karpenterInstallation,
+      nodeClassName: 'github-runners',
+      ...karpenterStack.nodeIdentity,
+      amiFamily: 'Bottlerocket',
+      instanceStorePolicy: 'RAID0',
+      bottlerocketSettings: karpenterStack.bottlerocketSettings.with({
+        hostContainers: {
+          admin: {
+            enabled: true,
+            superpowered: true,
           },
-          spec: {
-            requirements: [
-              {
-                key: 'kubernetes.io/arch',
-                operator: 'In',
-                values: ['amd64'],
-              },
-              {
-                key: 'kubernetes.io/os',
-                operator: 'In',
-                values: ['linux'],
-              },
-              {
-                key: 'karpenter.sh/capacity-type',
-                operator: 'In',
-                values: ['spot', 'on-demand'],
-              },
-              {
-                key: 'node.kubernetes.io/instance-type',
-                operator: 'In',
-                values: ['m5.large', 'm5.xlarge', 'm5.2xlarge', 'm5.4xlarge', 'c5.2xlarge', 'c5.4xlarge'],
-              },
-            ],
-            nodeClassRef: {
-              apiVersion: 'karpenter.k8s.aws/v1',
-              kind: 'EC2NodeClass',
-              name: 'github-runners',
-            },
-            taints: [
-              {
-                key: 'github-runner',
-                value: 'true',
-                effect: 'NoSchedule',
-              },
-            ],
+          control: {
+            enabled: true,
+            superpowered: false,
           },
         },
-        disruption: {
-          consolidationPolicy: 'WhenEmpty',
-          consolidateAfter: '30s',
-          expireAfter: '10m', // Shorter expiry for CI/CD workloads
+        // Additional settings for CI/CD workloads
+        kernel: {
+          lockdown: 'none',
+          sysctl: {
+            'user.max_user_namespaces': '65536',
+            'user.max_pid_namespaces': '65536',
+          },
         },
-        limits: {
-          cpu: '500',
-          memory: '500Gi',
+      }),
+      blockDeviceMappings: [
+        {
+          deviceName: '/dev/xvda',
+          ebs: {
+            volumeSize: '20Gi',
+            volumeType: 'gp3',
+            iops: 3000,
+            throughput: 125,
+            deleteOnTermination: true,
+            encrypted: true,
+            kmsKeyID: encryptionKey?.keyArn,
+          },
         },
+        {
+          deviceName: '/dev/xvdb',
+          ebs: {
+            volumeSize: '200Gi', // Additional storage for container builds
+            volumeType: 'gp3',
+            iops: 3000,
+            throughput: 125,
+            deleteOnTermination: true,
+            encrypted: true,
+            kmsKeyID: encryptionKey?.keyArn,
+          },
+        },
+      ],
+      tags: {
+        'node-type': 'github-runner',
+        'workload-type': 'ci-cd',
       },
     });
 
-    // Create EC2NodeClass for GitHub Actions runners
-    const githubRunnersNodeClass = cluster.addManifest('GitHubRunnersNodeClass', {
-      apiVersion: 'karpenter.k8s.aws/v1',
-      kind: 'EC2NodeClass',
-      metadata: {
-        name: 'github-runners',
-        namespace: 'karpenter',
+    // Create NodePools for GitHub Actions runners; spot first with a smaller on-demand fallback
+    const githubRunnersNodePools = createCapacityNodePools(this, 'GitHubRunnersNodePool', {
+      nodeClass: githubRunnersNodeClass,
+      nodePoolName: 'github-runners',
+      labels: {
+        'node-type': 'github-runner',
+        'workload-type': 'ci-cd',
       },
-      spec: {
-        amiFamily: 'Bottlerocket',
-        subnetSelectorTerms: [
-          {
-            tags: {
-              'karpenter.sh/discovery': cluster.clusterName,
-            },
-          },
-        ],
-        securityGroupSelectorTerms: [
+      annotations: {
+        'cluster-autoscaler.kubernetes.io/safe-to-evict': 'true',
+      },
+      requirements: [
+        ...new InstanceRequirements({
+          categories: ['general', 'compute'],
+          minGeneration: 5,
+          cpu: { min: 4, max: 16 },
+        }).with({
+          architectures: githubRunnersConfig.architectures,
+          instanceTypes: githubRunnersConfig.instanceTypes,
+          ...githubRunnersConfig.instanceRequirements,
+        }).render(),
+        {
+          key: 'kubernetes.io/os',
+          operator: 'In',
+          values: ['linux'],
+        },
+      ],
+      strategy: githubRunnersConfig.capacityStrategy,
+      capacityTypes: githubRunnersConfig.capacityTypes,
+      spot: githubRunnersConfig.spot,
+      onDemand: {
+        limits: {
+          cpu: '100',
+          memory: '100Gi',
+        },
+        ...githubRunnersConfig.onDemand,
+      },
+      taints: [
+        {
+          key: 'github-runner',
+          value: 'true',
+          effect: 'NoSchedule',
+        },
+      ],
+      // Expiration ignores disruption budgets, so runner nodes live a day and drain for up to the
+      // 6 hour default job timeout, which lets do-not-disrupt runners finish their jobs
+      expireAfter: githubRunnersConfig.expireAfter ?? '24h',
+      terminationGracePeriod: githubRunnersConfig.terminationGracePeriod ?? '6h',
+      disruption: {
+        consolidationPolicy: 'WhenEmpty',
+        consolidateAfter: '30s',
+        // Draining a runner node during the working day cancels the CI jobs on it
+        budgets: configuredDisruptionBudgets(githubRunnersConfig, businessHoursFreeze()),
+      },
+      limits: {
+        cpu: '500',
+        memory: '500Gi',
+        ...githubRunnersConfig.limits,
+      },
+    });
+
+    // Install GitHub Actions runner scale sets on the github-runners NodePool
+    let githubRunners: GitHubRunnerScaleSet | undefined;
+    if (config.githubRunners) {
+      const githubConfigSecret = config.githubRunners.configSecret ?? 'github-config';
+      githubRunners = new GitHubRunnerScaleSet(this, 'GitHubRunners', {
+        cluster,
+        nodePools: githubRunnersNodePools,
+        githubUrl: config.githubRunners.url,
+        organization: config.githubRunners.organization,
+        githubConfigSecret,
+        imageRegistry: registryMirrors.cachedRegistry('ghcr.io'),
+        // One scale set per architecture of the NodePool by default
+        scaleSets: config.githubRunners.scaleSets ?? githubRunnersNodePools[0].architectures.map(architecture => ({
+          name: architecture === 'amd64' ? 'github-runners' : `github-runners-${architecture}`,
+          labels: ['self-hosted', 'linux', 'karpenter'],
+          architecture,
+          maxRunners: 20,
+        })),
+      });
+
+      // Sync runner and registry credentials from Secrets Manager
+      if (config.githubRunners.credentialsSecretArn) {
+        const credentials = new GitHubCredentials(this, 'GitHubCredentials', {
+          cluster,
+          secret: secretsmanager.Secret.fromSecretCompleteArn(this, 'GitHubCredentialsSecret', config.githubRunners.credentialsSecretArn),
+          authentication: config.githubRunners.authentication,
+          runnerNamespace: githubRunners.runnerNamespace,
+          configSecretName: githubConfigSecret,
+          registry: config.githubRunners.registry,
+          pullSecretNamespaces: config.githubRunners.pullSecretNamespaces,
+          credentialMode: config.credentialMode,
+          imageRegistry: registryMirrors.cachedRegistry('ghcr.io'),
+        });
+        // The credentials live in the runner namespace, which the scale sets own
+        credentials.node.addDependency(githubRunners.runnerNamespaceManifest);
+        for (const scaleSet of githubRunners.scaleSets) {
+          scaleSet.node.addDependency(credentials);
+        }
+      }
+    }
+
+    // Install Nexus on a dedicated on-demand NodePool as the runners' artifact proxy
+    if (config.nexus) {
+      const nexusConfig = config.nodePools?.nexus ?? {};
+      const nexusNodePool = new KarpenterNodePool(this, 'NexusNodePool', {
+        nodeClass: karpenterStack.defaultNodeClass,
+        nodePoolName: 'nexus',
+        labels: {
+          workload: 'nexus',
+        },
+        requirements: [
+          // Nexus keeps its heap and page cache in memory
+          ...new InstanceRequirements({
+            categories: ['general', 'memory'],
+            minGeneration: 5,
+            cpu: { min: 4, max: 8 },
+            memory: { min: '16Gi' },
+          }).with({
+            architectures: nexusConfig.architectures,
+            instanceTypes: nexusConfig.instanceTypes,
+            ...nexusConfig.instanceRequirements,
+          }).render(),
           {
-            tags: {
-              'karpenter.sh/discovery': cluster.clusterName,
-            },
+            key: 'karpenter.sh/capacity-type',
+            operator: 'In',
+            values: nexusConfig.capacityTypes ?? ['on-demand'],
           },
         ],
-        instanceStorePolicy: 'RAID0',
-        userData: cdk.Fn.base64(
-          [
-            '[settings.kubernetes]',
-            `cluster-name = "${cluster.clusterName}"`,
-            `api-server = "${cluster.clusterEndpoint}"`,
-            `cluster-certificate = "${cluster.clusterCertificateAuthorityData}"`,
-            '',
-            '[settings.container-runtime]',
-            'max-container-log-line-size = 16384',
-            '',
-            '[settings.container-registry]',
-            '# Configure Google Container Registry mirror for Docker Hub',
-            '"docker.io" = "https://mirror.gcr.io"',
-            '# Add your GHES registry (replace with your actual GHES domain)',
-            '# "ghes.your-company.com" = "https://ghes.your-company.com"',
-            '',
-            '[settings.container-registry.credentials]',
-            '# GHES registry credentials will be managed by Kubernetes secrets',
-            '# The kubelet will handle authentication via imagePullSecrets',
-            '',
-            '[settings.network]',
-            'https-proxy = ""',
-            'no-proxy = ["169.254.169.254", "10.0.0.0/8", "ghes.your-company.com"]',
-            '',
-            '[settings.host-containers.admin]',
-            'enabled = true',
-            'superpowered = true',
-            '',
-            '[settings.host-containers.control]',
-            'enabled = true',
-            'superpowered = false',
-            '',
-            '# Additional settings for CI/CD workloads',
-            '[settings.kernel]',
-            'lockdown = "none"',
-            '',
-            '[settings.kernel.sysctl]',
-            '"user.max_user_namespaces" = "65536"',
-            '"user.max_pid_namespaces" = "65536"',
-          ].join('\n')
-        ),
-        blockDeviceMappings: [
-          {
-            deviceName: '/dev/xvda',
-            ebs: {
-              volumeSize: '20Gi',
-              volumeType: 'gp3',
-              iops: 3000,
-              throughput: 125,
-              deleteOnTermination: true,
-              encrypted: true,
-            },
-          },
+        taints: [
           {
-            deviceName: '/dev/xvdb',
-            ebs: {
-              volumeSize: '200Gi', // Additional storage for container builds
-              volumeType: 'gp3',
-              iops: 3000,
-              throughput: 125,
-              deleteOnTermination: true,
-              encrypted: true,
-            },
+            key: 'nexus',
+            value: 'true',
+            effect: 'NoSchedule',
           },
         ],
-        role: karpenterStack.karpenterNodeRole.roleName,
-        tags: {
-          'karpenter.sh/discovery': cluster.clusterName,
-          'kubernetes.io/cluster/' + cluster.clusterName: 'owned',
-          'node-type': 'github-runner',
-          'workload-type': 'ci-cd',
+        expireAfter: nexusConfig.expireAfter ?? '720h',
+        terminationGracePeriod: nexusConfig.terminationGracePeriod,
+        disruption: {
+          consolidationPolicy: 'WhenEmpty',
+          consolidateAfter: '1h',
+          budgets: configuredDisruptionBudgets(nexusConfig, businessHoursFreeze()),
         },
-      },
+        limits: {
+          cpu: '16',
+          memory: '64Gi',
+          ...nexusConfig.limits,
+        },
+      });
+
+      const nexus = new NexusRepository(this, 'Nexus', {
+        cluster,
+        nodePool: nexusNodePool,
+        encryptionKey,
+        ingressHost: config.nexus.ingressHost,
+        clusterIssuer: config.nexus.clusterIssuer,
+        storageClass: config.nexus.storageClass,
+        storageSize: config.nexus.storageSize,
+        resources: config.nexus.resources,
+        clientNamespaces: githubRunners && [githubRunners.runnerNamespace],
+        credentialMode: config.credentialMode,
+      });
+
+      // The Nexus data volume is claimed from the gp3 StorageClass
+      if (storage) {
+        nexus.node.addDependency(storage);
+      }
+
+      new cdk.CfnOutput(this, 'NexusUrl', {
+        value: nexus.serviceUrl,
+        description: 'In-cluster URL of Nexus',
+      });
+
+      new cdk.CfnOutput(this, 'NexusBlobStoreBucket', {
+        value: nexus.blobStoreBucket.bucketName,
+        description: 'Bucket of the Nexus S3 blob store',
+      });
+    }
+
+    // Create alarm topic
+    let alarmTopic: sns.ITopic | undefined;
+    if (config.monitoring?.alarmTopicArn) {
+      alarmTopic = sns.Topic.fromTopicArn(this, 'AlarmTopic', config.monitoring.alarmTopicArn);
+    } else if (config.monitoring?.alarmEmails) {
+      const topic = new sns.Topic(this, 'AlarmTopic', {
+        displayName: `Karpenter alarms for ${config.clusterName}`,
+      });
+      for (const email of config.monitoring.alarmEmails) {
+        topic.addSubscription(new subscriptions.EmailSubscription(email));
+      }
+      alarmTopic = topic;
+    }
+
+    // Create Karpenter dashboard and alarms
+    new KarpenterMonitoring(this, 'KarpenterMonitoring', {
+      cluster,
+      interruptionQueue: karpenterStack.interruptionQueue,
+      nodePools: [...karpenterStack.defaultNodePools, ...githubRunnersNodePools],
+      credentialMode: config.credentialMode,
+      alarmTopic,
+      limitSaturationPercent: config.monitoring?.limitSaturationPercent,
+      imageRegistry: registryMirrors.cachedRegistry('public.ecr.aws'),
     });
 
-    // Add dependencies
-    exampleWorkload.node.addDependency(karpenterStack);
-    githubRunnersNodePool.node.addDependency(karpenterStack);
-    githubRunnersNodeClass.node.addDependency(karpenterStack);
+    // The example workload schedules onto Karpenter nodes
+    exampleWorkload.node.addDependency(karpenterStack.karpenterInstallation);
 
     // Outputs
     new cdk.CfnOutput(this, 'ClusterName', {
@@ -0,0 +1,217 @@
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { irsaPrincipal } from './irsa-service-account';
+import { CredentialMode } from './workload-identity';
+
+/**
+ * EKS managed add-ons the cluster can install
+ */
+export type ManagedAddonName = 'vpc-cni' | 'coredns' | 'kube-proxy' | 'aws-ebs-csi-driver' | 'eks-pod-identity-agent' | 'metrics-server';
+
+/**
+ * Settings of one managed add-on
+ */
+export interface ManagedAddonOptions {
+  /**
+   * Install the add-on
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * Add-on version; must be one of the versions pinned for the cluster's Kubernetes version
+   * @default - the newest version pinned for the cluster's Kubernetes version
+   */
+  version?: string;
+
+  /**
+   * Configuration values merged over the defaults, following the add-on's configuration schema
+   * @default - the add-on defaults
+   */
+  configurationValues?: Record<string, unknown>;
+}
+
+export interface ManagedAddonsProps {
+  /**
+   * Kubernetes version of the cluster, e.g. `1.28`
+   */
+  kubernetesVersion: string;
+
+  /**
+   * How add-ons with AWS permissions obtain credentials
+   * @default CredentialMode.IRSA
+   */
+  credentialMode?: CredentialMode;
+
+  /**
+   * Per add-on settings
+   * @default - every add-on at its pinned version
+   */
+  addons?: { [name in ManagedAddonName]?: ManagedAddonOptions };
+}
+
+/**
+ * Add-on versions compatible with each Kubernetes version, newest first
+ *
+ * Upgrading the cluster moves every add-on to the first version of the new entry.
+ */
+const ADDON_VERSIONS: Record<string, Record<ManagedAddonName, string[]>> = {
+  '1.28': {
+    'vpc-cni': ['v1.18.5-eksbuild.1', 'v1.18.3-eksbuild.3'],
+    'coredns': ['v1.10.1-eksbuild.15', 'v1.10.1-eksbuild.13'],
+    'kube-proxy': ['v1.28.15-eksbuild.4', 'v1.28.12-eksbuild.5'],
+    'aws-ebs-csi-driver': ['v1.35.0-eksbuild.1', 'v1.34.0-eksbuild.1'],
+    'eks-pod-identity-agent': ['v1.3.2-eksbuild.2', 'v1.3.0-eksbuild.1'],
+    'metrics-server': ['v0.7.1-eksbuild.1'],
+  },
+  '1.29': {
+    'vpc-cni': ['v1.18.6-eksbuild.1', 'v1.18.5-eksbuild.1'],
+    'coredns': ['v1.11.1-eksbuild.13', 'v1.11.1-eksbuild.9'],
+    'kube-proxy': ['v1.29.10-eksbuild.3', 'v1.29.7-eksbuild.9'],
+    'aws-ebs-csi-driver': ['v1.36.0-eksbuild.1', 'v1.35.0-eksbuild.1'],
+    'eks-pod-identity-agent': ['v1.3.2-eksbuild.2', 'v1.3.0-eksbuild.1'],
+    'metrics-server': ['v0.7.2-eksbuild.1', 'v0.7.1-eksbuild.1'],
+  },
+  '1.30': {
+    'vpc-cni': ['v1.19.0-eksbuild.1', 'v1.18.6-eksbuild.1'],
+    'coredns': ['v1.11.3-eksbuild.2', 'v1.11.1-eksbuild.13'],
+    'kube-proxy': ['v1.30.6-eksbuild.3', 'v1.30.3-eksbuild.9'],
+    'aws-ebs-csi-driver': ['v1.37.0-eksbuild.1', 'v1.36.0-eksbuild.1'],
+    'eks-pod-identity-agent': ['v1.3.4-eksbuild.1', 'v1.3.2-eksbuild.2'],
+    'metrics-server': ['v0.7.2-eksbuild.1'],
+  },
+  '1.31': {
+    'vpc-cni': ['v1.19.2-eksbuild.1', 'v1.19.0-eksbuild.1'],
+    'coredns': ['v1.11.3-eksbuild.2'],
+    'kube-proxy': ['v1.31.2-eksbuild.3'],
+    'aws-ebs-csi-driver': ['v1.38.1-eksbuild.1', 'v1.37.0-eksbuild.1'],
+    'eks-pod-identity-agent': ['v1.3.4-eksbuild.1'],
+    'metrics-server': ['v0.7.2-eksbuild.1'],
+  },
+};
+
+const CRITICAL_ADDONS_TOLERATION = { key: 'CriticalAddonsOnly', operator: 'Exists' };
+
+/**
+ * Construct ID, service account, managed policy and default configuration of each add-on
+ */
+const ADDONS: Record<ManagedAddonName, {
+  id: string;
+  serviceAccount?: string;
+  managedPolicy?: string;
+  configurationValues?: Record<string, unknown>;
+}> = {
+  'vpc-cni': {
+    id: 'VpcCni',
+    serviceAccount: 'aws-node',
+    managedPolicy: 'AmazonEKS_CNI_Policy',
+  },
+  'coredns': {
+    id: 'CoreDns',
+  },
+  'kube-proxy': {
+    id: 'KubeProxy',
+  },
+  'aws-ebs-csi-driver': {
+    id: 'EbsCsiDriver',
+    serviceAccount: 'ebs-csi-controller-sa',
+    managedPolicy: 'service-role/AmazonEBSCSIDriverPolicy',
+    configurationValues: {
+      controller: {
+        tolerations: [CRITICAL_ADDONS_TOLERATION],
+      },
+    },
+  },
+  'eks-pod-identity-agent': {
+    id: 'PodIdentityAgent',
+  },
+  'metrics-server': {
+    id: 'MetricsServer',
+    configurationValues: {
+      tolerations: [CRITICAL_ADDONS_TOLERATION],
+    },
+  },
+};
+
+/**
+ * Installs the EKS managed add-ons pinned to versions compatible with the cluster's Kubernetes version
+ *
+ * The add-ons are created on the cluster construct once per cluster, so other constructs can look them up
+ * with `managedAddon`.
+ */
+export function addManagedAddons(cluster: eks.ICluster, props: ManagedAddonsProps): { [name in ManagedAddonName]?: eks.CfnAddon } {
+  const versions = ADDON_VERSIONS[props.kubernetesVersion];
+  if (!versions) {
+    throw new Error(`${cluster.node.path}: no managed add-on versions are pinned for Kubernetes ${props.kubernetesVersion}; supported: ${Object.keys(ADDON_VERSIONS).join(', ')}`);
+  }
+  if (Object.values(ADDONS).some(addon => cluster.node.tryFindChild(addon.id))) {
+    throw new Error(`${cluster.node.path}: managed add-ons are already installed`);
+  }
+  const credentialMode = props.credentialMode ?? CredentialMode.IRSA;
+
+  const addons: { [name in ManagedAddonName]?: eks.CfnAddon } = {};
+  for (const name of Object.keys(ADDONS) as ManagedAddonName[]) {
+    const options = props.addons?.[name] ?? {};
+    if (options.enabled === false) {
+      continue;
+    }
+
+    const version = options.version ?? versions[name][0];
+    if (!versions[name].includes(version)) {
+      throw new Error(`${cluster.node.path}: ${name} ${version} is not pinned for Kubernetes ${props.kubernetesVersion}; use one of ${versions[name].join(', ')}`);
+    }
+
+    const { id, serviceAccount, managedPolicy } = ADDONS[name];
+    const configurationValues = { ...ADDONS[name].configurationValues, ...options.configurationValues };
+
+    // Add-ons calling AWS APIs get a role for their kube-system service account
+    let role: iam.Role | undefined;
+    if (serviceAccount && managedPolicy) {
+      role = new iam.Role(cluster, `${id}Role`, {
+        description: `IAM Role for the ${name} managed add-on`,
+        assumedBy: credentialMode === CredentialMode.IRSA
+          ? irsaPrincipal(cluster, `${id}TrustConditions`, cluster, 'kube-system', serviceAccount)
+          : new iam.ServicePrincipal('pods.eks.amazonaws.com').withSessionTags(),
+        managedPolicies: [iam.ManagedPolicy.fromAwsManagedPolicyName(managedPolicy)],
+      });
+    }
+
+    addons[name] = new eks.CfnAddon(cluster, id, {
+      clusterName: cluster.clusterName,
+      addonName: name,
+      addonVersion: version,
+      resolveConflicts: 'OVERWRITE',
+      configurationValues: Object.keys(configurationValues).length ? JSON.stringify(configurationValues) : undefined,
+      serviceAccountRoleArn: credentialMode === CredentialMode.IRSA ? role?.roleArn : undefined,
+      podIdentityAssociations: credentialMode === CredentialMode.POD_IDENTITY && role
+        ? [{ serviceAccount: serviceAccount!, roleArn: role.roleArn }]
+        : undefined,
+    });
+  }
+
+  // Pod Identity associations only take effect once the agent runs on the nodes
+  const agent = addons['eks-pod-identity-agent'];
+  if (credentialMode === CredentialMode.POD_IDENTITY) {
+    if (!agent) {
+      throw new Error(`${cluster.node.path}: ${CredentialMode.POD_IDENTITY} requires the eks-pod-identity-agent add-on`);
+    }
+    for (const name of ['vpc-cni', 'aws-ebs-csi-driver'] as const) {
+      addons[name]?.node.addDependency(agent);
+    }
+  }
+  return addons;
+}
+
+/**
+ * Returns a managed add-on installed by `addManagedAddons`
+ */
+export function managedAddon(cluster: eks.ICluster, name: ManagedAddonName): eks.CfnAddon | undefined {
+  return cluster.node.tryFindChild(ADDONS[name].id) as eks.CfnAddon | undefined;
+}
+
+/**
+ * Returns the IAM role of a managed add-on installed by `addManagedAddons`, if the add-on calls AWS APIs
+ */
+export function managedAddonRole(cluster: eks.ICluster, name: ManagedAddonName): iam.IRole | undefined {
+  return cluster.node.tryFindChild(`${ADDONS[name].id}Role`) as iam.IRole | undefined;
+}
@@ -0,0 +1,574 @@
+import * as cdk from 'aws-cdk-lib';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as s3 from 'aws-cdk-lib/aws-s3';
+import { Construct } from 'constructs';
+import { KarpenterNodePool } from './karpenter-node-pool';
+import { assertKubernetesName, parseQuantity, ResourceRequirements, tolerationFor } from './kubernetes-types';
+import { CredentialMode, createWorkloadIdentity, IWorkloadIdentity } from './workload-identity';
+
+export interface NexusRepositoryProps {
+  /**
+   * The EKS cluster Nexus runs in
+   */
+  cluster: eks.ICluster;
+
+  /**
+   * Dedicated NodePool Nexus is scheduled onto
+   */
+  nodePool: KarpenterNodePool;
+
+  /**
+   * Namespace of Nexus
+   * @default 'nexusrepo'
+   */
+  namespace?: string;
+
+  /**
+   * Nexus image
+   * @default 'sonatype/nexus3:3.70.0'
+   */
+  image?: string;
+
+  /**
+   * Storage class of the data volume
+   * @default 'gp3'
+   */
+  storageClass?: string;
+
+  /**
+   * Size of the data volume holding the database and local blob stores
+   * @default '100Gi'
+   */
+  storageSize?: string;
+
+  /**
+   * Nexus container resources; the JVM heap and direct memory are sized from the memory limit
+   * @default - 2 CPU and 4Gi memory requested, 4 CPU and 8Gi memory limits
+   */
+  resources?: ResourceRequirements;
+
+  /**
+   * Bucket of the S3 blob store
+   * @default - an encrypted bucket is created and retained on deletion
+   */
+  blobStoreBucket?: s3.IBucket;
+
+  /**
+   * Key encrypting the created blob store bucket
+   * @default - S3-managed encryption
+   */
+  encryptionKey?: kms.IKey;
+
+  /**
+   * Host name Nexus is exposed on through the ingress controller, e.g. `nexus.example.com`
+   * @default - Nexus is only reachable inside the cluster
+   */
+  ingressHost?: string;
+
+  /**
+   * Ingress class of the ingress
+   * @default 'nginx'
+   */
+  ingressClassName?: string;
+
+  /**
+   * cert-manager ClusterIssuer that signs the ingress certificate
+   * @default - the `nexus-tls` secret is managed outside the app
+   */
+  clusterIssuer?: string;
+
+  /**
+   * Namespaces whose pods may reach Nexus, in addition to namespaces labelled `access-nexus=true`
+   * @default []
+   */
+  clientNamespaces?: string[];
+
+  /**
+   * How Nexus obtains AWS credentials for the blob store
+   * @default CredentialMode.IRSA
+   */
+  credentialMode?: CredentialMode;
+}
+
+/**
+ * Labels selecting the Nexus pods
+ */
+const SELECTOR = { app: 'nexus-repository-manager' };
+
+/**
+ * Port of the Nexus HTTP listener
+ */
+const PORT = 8081;
+
+/**
+ * Requests allowed across the Nexus namespace
+ */
+const QUOTA = { cpu: '8', memory: '16Gi' };
+
+/**
+ * CDK Construct for Sonatype Nexus Repository Manager
+ * Runs a hardened Nexus StatefulSet on a dedicated NodePool with an S3 blob store reached through its own IAM role
+ */
+export class NexusRepository extends Construct {
+  public static readonly DEFAULT_IMAGE = 'sonatype/nexus3:3.70.0';
+
+  public readonly namespace: string;
+  public readonly identity: IWorkloadIdentity;
+  public readonly blobStoreBucket: s3.IBucket;
+  public readonly manifest: eks.KubernetesManifest;
+
+  /**
+   * In-cluster URL of Nexus, e.g. for runner and build tool proxies
+   */
+  public readonly serviceUrl: string;
+
+  constructor(scope: Construct, id: string, props: NexusRepositoryProps) {
+    super(scope, id);
+
+    const { cluster, nodePool } = props;
+    this.namespace = props.namespace ?? 'nexusrepo';
+    const clientNamespaces = props.clientNamespaces ?? [];
+    for (const name of [this.namespace, ...clientNamespaces]) {
+      assertKubernetesName(this, name);
+    }
+    this.serviceUrl = `http://nexus.${this.namespace}.svc.cluster.local:${PORT}`;
+
+    const resources = props.resources ?? {
+      requests: { cpu: '2', memory: '4Gi' },
+      limits: { cpu: '4', memory: '8Gi' },
+    };
+    const memory = resources.limits?.memory ?? resources.requests?.memory;
+    if (memory === undefined) {
+      throw new Error(`${this.node.path}: resources must set a memory request or limit to size the JVM`);
+    }
+    for (const [resource, quota] of Object.entries(QUOTA)) {
+      const request = resources.requests?.[resource as keyof typeof QUOTA];
+      if (request !== undefined && parseQuantity(request) > parseQuantity(quota)) {
+        throw new Error(`${this.node.path}: the ${resource} request ${request} exceeds the namespace quota of ${quota}`);
+      }
+    }
+    // Sonatype's sizing: two thirds of the container memory split evenly between heap and direct memory
+    const jvmMemory = `${Math.floor(parseQuantity(memory) / 2 ** 20 * 0.33)}m`;
+
+    // Create namespace with the restricted pod security standard
+    const namespace = new eks.KubernetesManifest(this, 'Namespace', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'v1',
+          kind: 'Namespace',
+          metadata: {
+            name: this.namespace,
+            labels: {
+              'pod-security.kubernetes.io/enforce': 'restricted',
+              'pod-security.kubernetes.io/audit': 'restricted',
+              'pod-security.kubernetes.io/warn': 'restricted',
+            },
+          },
+        },
+      ],
+    });
+
+    // Create blob store bucket and the identity that reads and writes it
+    this.blobStoreBucket = props.blobStoreBucket ?? new s3.Bucket(this, 'BlobStore', {
+      encryption: props.encryptionKey ? s3.BucketEncryption.KMS : s3.BucketEncryption.S3_MANAGED,
+      encryptionKey: props.encryptionKey,
+      bucketKeyEnabled: props.encryptionKey !== undefined,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    this.identity = createWorkloadIdentity(this, 'ServiceAccount', props.credentialMode ?? CredentialMode.IRSA, {
+      cluster,
+      namespace: this.namespace,
+      serviceAccountName: 'nexus-sa',
+      description: `IAM Role for Nexus in cluster ${cluster.clusterName}`,
+      policyStatements: [
+        // The blob store manages its own expiry rules for soft-deleted blobs
+        new iam.PolicyStatement({
+          actions: ['s3:GetLifecycleConfiguration', 's3:PutLifecycleConfiguration'],
+          resources: [this.blobStoreBucket.bucketArn],
+        }),
+      ],
+    });
+    this.identity.node.addDependency(namespace);
+    this.blobStoreBucket.grantReadWrite(this.identity);
+    this.blobStoreBucket.grantDelete(this.identity);
+
+    // Deploy Nexus and its network, RBAC and quota objects
+    const metadata = (name: string) => ({ name, namespace: this.namespace });
+    const serviceAccountName = this.identity.serviceAccountName;
+
+    const ingress = props.ingressHost && {
+      apiVersion: 'networking.k8s.io/v1',
+      kind: 'Ingress',
+      metadata: {
+        ...metadata('nexus'),
+        annotations: {
+          'cert-manager.io/cluster-issuer': props.clusterIssuer,
+          'nginx.ingress.kubernetes.io/ssl-redirect': 'true',
+          'nginx.ingress.kubernetes.io/force-ssl-redirect': 'true',
+          // Large artifacts and slow upstreams
+          'nginx.ingress.kubernetes.io/proxy-body-size': '0',
+          'nginx.ingress.kubernetes.io/proxy-read-timeout': '600',
+          'nginx.ingress.kubernetes.io/proxy-send-timeout': '600',
+        },
+      },
+      spec: {
+        ingressClassName: props.ingressClassName ?? 'nginx',
+        tls: [
+          {
+            hosts: [props.ingressHost],
+            secretName: 'nexus-tls',
+          },
+        ],
+        rules: [
+          {
+            host: props.ingressHost,
+            http: {
+              paths: [
+                {
+                  path: '/',
+                  pathType: 'Prefix',
+                  backend: {
+                    service: {
+                      name: 'nexus',
+                      port: {
+                        number: PORT,
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    };
+
+    const httpProbe = (initialDelaySeconds: number, periodSeconds: number, failureThreshold: number) => ({
+      httpGet: {
+        path: '/service/rest/v1/status',
+        port: PORT,
+      },
+      initialDelaySeconds,
+      periodSeconds,
+      timeoutSeconds: 5,
+      failureThreshold,
+    });
+
+    this.manifest = new eks.KubernetesManifest(this, 'Resource', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'networking.k8s.io/v1',
+          kind: 'NetworkPolicy',
+          metadata: metadata('nexus-repository-policy'),
+          spec: {
+            podSelector: {
+              matchLabels: SELECTOR,
+            },
+            policyTypes: ['Ingress', 'Egress'],
+            ingress: [
+              {
+                from: [
+                  // Ingress controller, opted-in namespaces, client namespaces and the namespace itself
+                  {
+                    namespaceSelector: {
+                      matchLabels: { 'kubernetes.io/metadata.name': 'ingress-nginx' },
+                    },
+                  },
+                  {
+                    namespaceSelector: {
+                      matchLabels: { 'access-nexus': 'true' },
+                    },
+                  },
+                  ...clientNamespaces.map(name => ({
+                    namespaceSelector: {
+                      matchLabels: { 'kubernetes.io/metadata.name': name },
+                    },
+                  })),
+                  {
+                    podSelector: {},
+                  },
+                ],
+                ports: [
+                  {
+                    protocol: 'TCP',
+                    port: PORT,
+                  },
+                ],
+              },
+            ],
+            egress: [
+              {
+                // DNS resolution through CoreDNS
+                to: [
+                  {
+                    namespaceSelector: {
+                      matchLabels: { 'kubernetes.io/metadata.name': 'kube-system' },
+                    },
+                    podSelector: {
+                      matchLabels: { 'k8s-app': 'kube-dns' },
+                    },
+                  },
+                ],
+                ports: [
+                  {
+                    protocol: 'UDP',
+                    port: 53,
+                  },
+                  {
+                    protocol: 'TCP',
+                    port: 53,
+                  },
+                ],
+              },
+              {
+                // Proxied upstream repositories, S3 and STS
+                to: [
+                  {
+                    ipBlock: { cidr: '0.0.0.0/0' },
+                  },
+                ],
+                ports: [
+                  {
+                    protocol: 'TCP',
+                    port: 443,
+                  },
+                ],
+              },
+              {
+                // Credentials from the EKS Pod Identity agent on the node
+                to: [
+                  {
+                    ipBlock: { cidr: '169.254.170.23/32' },
+                  },
+                ],
+                ports: [
+                  {
+                    protocol: 'TCP',
+                    port: 80,
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        {
+          apiVersion: 'rbac.authorization.k8s.io/v1',
+          kind: 'Role',
+          metadata: metadata('nexus-role'),
+          rules: [
+            {
+              apiGroups: [''],
+              resources: ['configmaps'],
+              verbs: ['get', 'list'],
+            },
+            {
+              apiGroups: [''],
+              resources: ['secrets'],
+              verbs: ['get'],
+              resourceNames: ['nexus-credentials'],
+            },
+          ],
+        },
+        {
+          apiVersion: 'rbac.authorization.k8s.io/v1',
+          kind: 'RoleBinding',
+          metadata: metadata('nexus-rolebinding'),
+          subjects: [
+            {
+              kind: 'ServiceAccount',
+              name: serviceAccountName,
+              namespace: this.namespace,
+            },
+          ],
+          roleRef: {
+            kind: 'Role',
+            name: 'nexus-role',
+            apiGroup: 'rbac.authorization.k8s.io',
+          },
+        },
+        {
+          apiVersion: 'v1',
+          kind: 'ConfigMap',
+          metadata: metadata('nexus-properties'),
+          data: {
+            'nexus.properties': [
+              'nexus.scripts.allowCreation=false',
+              'nexus.security.randompassword=true',
+            ].join('\n'),
+          },
+        },
+        {
+          apiVersion: 'apps/v1',
+          kind: 'StatefulSet',
+          metadata: {
+            ...metadata('nexus'),
+            labels: SELECTOR,
+          },
+          spec: {
+            serviceName: 'nexus',
+            // Nexus Repository OSS keeps its database on the data volume and cannot run more than one replica
+            replicas: 1,
+            selector: {
+              matchLabels: SELECTOR,
+            },
+            template: {
+              metadata: {
+                labels: SELECTOR,
+              },
+              spec: {
+                serviceAccountName,
+                securityContext: {
+                  runAsNonRoot: true,
+                  runAsUser: 200,
+                  runAsGroup: 200,
+                  fsGroup: 200,
+                  seccompProfile: {
+                    type: 'RuntimeDefault',
+                  },
+                },
+                nodeSelector: {
+                  'karpenter.sh/nodepool': nodePool.nodePoolName,
+                },
+                tolerations: (nodePool.taints ?? []).map(tolerationFor),
+                containers: [
+                  {
+                    name: 'nexus',
+                    image: props.image ?? NexusRepository.DEFAULT_IMAGE,
+                    securityContext: {
+                      allowPrivilegeEscalation: false,
+                      runAsNonRoot: true,
+                      capabilities: {
+                        drop: ['ALL'],
+                      },
+                    },
+                    ports: [
+                      {
+                        name: 'http',
+                        containerPort: PORT,
+                        protocol: 'TCP',
+                      },
+                    ],
+                    env: [
+                      {
+                        name: 'INSTALL4J_ADD_VM_PARAMS',
+                        value: `-Xms${jvmMemory} -Xmx${jvmMemory} -XX:MaxDirectMemorySize=${jvmMemory} -Djava.util.prefs.userRoot=/nexus-data/javaprefs`,
+                      },
+                    ],
+                    resources,
+                    volumeMounts: [
+                      {
+                        name: 'nexus-data',
+                        mountPath: '/nexus-data',
+                      },
+                      {
+                        name: 'nexus-properties',
+                        mountPath: '/nexus-data/etc/nexus.properties',
+                        subPath: 'nexus.properties',
+                      },
+                      {
+                        name: 'tmp',
+                        mountPath: '/tmp',
+                      },
+                    ],
+                    startupProbe: httpProbe(30, 10, 30),
+                    readinessProbe: httpProbe(0, 10, 3),
+                    livenessProbe: httpProbe(0, 30, 3),
+                  },
+                ],
+                volumes: [
+                  {
+                    name: 'nexus-properties',
+                    configMap: {
+                      name: 'nexus-properties',
+                    },
+                  },
+                  {
+                    name: 'tmp',
+                    emptyDir: {},
+                  },
+                ],
+              },
+            },
+            volumeClaimTemplates: [
+              {
+                metadata: {
+                  name: 'nexus-data',
+                },
+                spec: {
+                  accessModes: ['ReadWriteOnce'],
+                  storageClassName: props.storageClass ?? 'gp3',
+                  resources: {
+                    requests: {
+                      storage: props.storageSize ?? '100Gi',
+                    },
+                  },
+                },
+              },
+            ],
+          },
+        },
+        {
+          apiVersion: 'v1',
+          kind: 'Service',
+          metadata: {
+            ...metadata('nexus'),
+            labels: SELECTOR,
+          },
+          spec: {
+            type: 'ClusterIP',
+            ports: [
+              {
+                name: 'http',
+                port: PORT,
+                targetPort: PORT,
+                protocol: 'TCP',
+              },
+            ],
+            selector: SELECTOR,
+          },
+        },
+        {
+          apiVersion: 'v1',
+          kind: 'ResourceQuota',
+          metadata: metadata('nexus-quota'),
+          spec: {
+            hard: {
+              'requests.cpu': QUOTA.cpu,
+              'requests.memory': QUOTA.memory,
+              'persistentvolumeclaims': '10',
+            },
+          },
+        },
+        {
+          apiVersion: 'v1',
+          kind: 'LimitRange',
+          metadata: metadata('nexus-limits'),
+          spec: {
+            limits: [
+              {
+                type: 'Container',
+                min: {
+                  cpu: '100m',
+                  memory: '512Mi',
+                },
+                max: resources.limits,
+              },
+            ],
+          },
+        },
+        ...(ingress ? [ingress] : []),
+      ],
+    });
+
+    // The service account must exist and the NodePool must be able to launch the node
+    this.manifest.node.addDependency(this.identity);
+    this.manifest.node.addDependency(nodePool);
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * CPU architecture of Karpenter nodes
+ */
+export type NodeArchitecture = 'amd64' | 'arm64';
+
+/**
+ * Graviton instance types carry a `g` after the generation, e.g. `m7g.large` or `c6gn.xlarge`
+ */
+const GRAVITON_INSTANCE_TYPE = /^[a-z]+\d+g[a-z]*\./;
+
+/**
+ * Returns the architecture of an instance type
+ */
+export function instanceTypeArchitecture(instanceType: string): NodeArchitecture {
+  return GRAVITON_INSTANCE_TYPE.test(instanceType) ? 'arm64' : 'amd64';
+}
@@ -0,0 +1,94 @@
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { IrsaServiceAccountProps } from './irsa-service-account';
+import { assertKubernetesName } from './kubernetes-types';
+import { managedAddon } from './managed-addons';
+
+export interface PodIdentityServiceAccountProps extends IrsaServiceAccountProps {
+  /**
+   * Existing role to associate instead of creating one; it must trust `pods.eks.amazonaws.com`
+   * @default - a new role is created
+   */
+  role?: iam.IRole;
+}
+
+/**
+ * CDK Construct for an EKS Pod Identity identity
+ * Creates the service account and associates it with a role trusted by `pods.eks.amazonaws.com`
+ */
+export class PodIdentityServiceAccount extends Construct implements iam.IGrantable {
+  public readonly role: iam.IRole;
+  public readonly namespace: string;
+  public readonly serviceAccountName: string;
+  public readonly manifest: eks.KubernetesManifest;
+  public readonly association: eks.CfnPodIdentityAssociation;
+  public readonly grantPrincipal: iam.IPrincipal;
+
+  constructor(scope: Construct, id: string, props: PodIdentityServiceAccountProps) {
+    super(scope, id);
+
+    const { cluster, namespace, serviceAccountName } = props;
+    assertKubernetesName(this, namespace);
+    assertKubernetesName(this, serviceAccountName);
+
+    this.namespace = namespace;
+    this.serviceAccountName = serviceAccountName;
+
+    // The trust policy names no cluster, so the role can be associated in any cluster
+    this.role = props.role ?? new iam.Role(this, 'Role', {
+      roleName: props.roleName,
+      description: props.description ?? `IAM Role for the ${serviceAccountName} service account in ${namespace}`,
+      assumedBy: new iam.ServicePrincipal('pods.eks.amazonaws.com').withSessionTags(),
+    });
+    this.grantPrincipal = this.role;
+
+    // An existing role cannot add managed policies itself, but policies defined in this app can attach to it
+    for (const policy of props.managedPolicies ?? []) {
+      if (props.role && policy instanceof iam.ManagedPolicy) {
+        policy.attachToRole(this.role);
+      } else {
+        this.role.addManagedPolicy(policy);
+      }
+    }
+    for (const statement of props.policyStatements ?? []) {
+      this.role.addToPrincipalPolicy(statement);
+    }
+
+    this.manifest = new eks.KubernetesManifest(this, 'Resource', {
+      cluster,
+      manifest: [
+        {
+          apiVersion: 'v1',
+          kind: 'ServiceAccount',
+          metadata: {
+            name: serviceAccountName,
+            namespace,
+            labels: props.labels,
+          },
+        },
+      ],
+    });
+
+    this.association = new eks.CfnPodIdentityAssociation(this, 'Association', {
+      clusterName: cluster.clusterName,
+      namespace,
+      serviceAccount: serviceAccountName,
+      roleArn: this.role.roleArn,
+    });
+
+    // Associations only take effect once the agent runs on the nodes
+    const agent = managedAddon(cluster, 'eks-pod-identity-agent');
+    if (!agent) {
+      throw new Error(`${this.node.path}: the cluster has no eks-pod-identity-agent add-on; install it with addManagedAddons first`);
+    }
+    this.association.node.addDependency(agent);
+  }
+
+  /**
+   * Adds a statement to the role's policy
+   */
+  public addToPrincipalPolicy(statement: iam.PolicyStatement): iam.AddToPrincipalPolicyResult {
+    return this.role.addToPrincipalPolicy(statement);
+  }
+}
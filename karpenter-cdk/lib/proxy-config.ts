@@ -0,0 +1,77 @@
+import * as cdk from 'aws-cdk-lib';
+
+/**
+ * Outbound HTTP proxy of an environment
+ */
+export interface ProxyConfig {
+  /**
+   * URL of the proxy, e.g. `http://proxy.example.com:3128`
+   */
+  httpsProxy: string;
+
+  /**
+   * Additional hosts, domains and CIDRs reached without the proxy
+   */
+  noProxy?: string[];
+}
+
+/**
+ * Proxy settings with the cluster's own destinations added to `noProxy`
+ */
+export interface ResolvedProxy {
+  /**
+   * URL of the proxy
+   */
+  httpsProxy: string;
+
+  /**
+   * Hosts, domains and CIDRs reached without the proxy
+   */
+  noProxy: string[];
+}
+
+/**
+ * Returns the service CIDR EKS assigns when none is configured
+ */
+export function defaultServiceCidr(vpcCidr: string): string {
+  return vpcCidr.startsWith('10.') ? '172.20.0.0/16' : '10.100.0.0/16';
+}
+
+/**
+ * Adds the VPC and service CIDRs, the instance metadata endpoint, in-cluster names and
+ * the EKS API endpoints to the configured `noProxy` entries
+ */
+export function resolveProxy(config: ProxyConfig, network: { vpcCidr: string; serviceCidr: string }): ResolvedProxy {
+  const noProxy = [
+    'localhost',
+    '127.0.0.1',
+    '169.254.169.254',
+    network.vpcCidr,
+    network.serviceCidr,
+    '.svc',
+    '.cluster.local',
+    '.internal',
+    `.eks.${cdk.Aws.URL_SUFFIX}`,
+    ...(config.noProxy ?? []),
+  ];
+
+  return {
+    httpsProxy: config.httpsProxy,
+    noProxy: noProxy.filter((entry, index) => noProxy.indexOf(entry) === index),
+  };
+}
+
+/**
+ * Returns the proxy environment variables, in both cases, for processes that honour them
+ */
+export function proxyEnvironment(proxy: ResolvedProxy): Record<string, string> {
+  const noProxy = proxy.noProxy.join(',');
+  return {
+    HTTPS_PROXY: proxy.httpsProxy,
+    HTTP_PROXY: proxy.httpsProxy,
+    NO_PROXY: noProxy,
+    https_proxy: proxy.httpsProxy,
+    http_proxy: proxy.httpsProxy,
+    no_proxy: noProxy,
+  };
+}
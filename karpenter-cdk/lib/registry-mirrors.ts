@@ -0,0 +1,171 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ecr from 'aws-cdk-lib/aws-ecr';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { BottlerocketRegistryMirror } from './bottlerocket-settings';
+
+/**
+ * Upstream registries ECR can cache
+ */
+export type PullThroughCacheUpstream = 'docker-hub' | 'ghcr' | 'quay' | 'ecr-public';
+
+/**
+ * An ECR pull-through cache rule for one upstream registry
+ */
+export interface PullThroughCacheRule {
+  /**
+   * Upstream registry
+   */
+  upstream: PullThroughCacheUpstream;
+
+  /**
+   * ARN of the Secrets Manager secret with the upstream credentials; its name must start with `ecr-pullthroughcache/`.
+   * Required for Docker Hub and ghcr.
+   */
+  credentialArn?: string;
+
+  /**
+   * ECR repository prefix of the cached images
+   * @default - the upstream name, e.g. `docker-hub`
+   */
+  repositoryPrefix?: string;
+}
+
+export interface RegistryMirrorsProps {
+  /**
+   * Upstream registries cached in ECR and mirrored through the cache
+   * @default - no pull-through cache
+   */
+  pullThroughCache?: PullThroughCacheRule[];
+
+  /**
+   * Additional mirrors, e.g. for the GitHub Enterprise Server registry
+   * @default - Docker Hub is mirrored through `mirror.gcr.io` unless it is cached
+   */
+  mirrors?: BottlerocketRegistryMirror[];
+}
+
+/**
+ * Registry hosts and ECR settings of each cacheable upstream
+ */
+const UPSTREAMS: Record<PullThroughCacheUpstream, { registry: string; upstreamRegistry: string; upstreamRegistryUrl: string; credentials: boolean }> = {
+  'docker-hub': {
+    registry: 'docker.io',
+    upstreamRegistry: 'docker-hub',
+    upstreamRegistryUrl: 'registry-1.docker.io',
+    credentials: true,
+  },
+  'ghcr': {
+    registry: 'ghcr.io',
+    upstreamRegistry: 'github-container-registry',
+    upstreamRegistryUrl: 'ghcr.io',
+    credentials: true,
+  },
+  'quay': {
+    registry: 'quay.io',
+    upstreamRegistry: 'quay',
+    upstreamRegistryUrl: 'quay.io',
+    credentials: false,
+  },
+  'ecr-public': {
+    registry: 'public.ecr.aws',
+    upstreamRegistry: 'ecr-public',
+    upstreamRegistryUrl: 'public.ecr.aws',
+    credentials: false,
+  },
+};
+
+/**
+ * CDK Construct for container registry mirrors
+ * Creates ECR pull-through cache rules and the Bottlerocket mirrors that point at them
+ */
+export class RegistryMirrors extends Construct {
+  /**
+   * Mirrors used when nothing is configured
+   */
+  public static readonly DEFAULT_MIRRORS: BottlerocketRegistryMirror[] = [
+    {
+      registry: 'docker.io',
+      endpoints: ['https://mirror.gcr.io'],
+    },
+  ];
+
+  public readonly mirrors: BottlerocketRegistryMirror[];
+  public readonly rules: ecr.CfnPullThroughCacheRule[];
+
+  private readonly repositoryPrefixes: string[];
+  private readonly cachedRegistries: Record<string, string>;
+
+  constructor(scope: Construct, id: string, props: RegistryMirrorsProps = {}) {
+    super(scope, id);
+
+    const stack = cdk.Stack.of(this);
+    const registryHost = `${stack.account}.dkr.ecr.${stack.region}.${stack.urlSuffix}`;
+    const cacheRules = props.pullThroughCache ?? [];
+
+    // Create a pull-through cache rule per upstream
+    this.rules = cacheRules.map(rule => {
+      const upstream = UPSTREAMS[rule.upstream];
+      if (upstream.credentials && !rule.credentialArn) {
+        throw new Error(`${this.node.path}: the ${rule.upstream} pull-through cache requires credentialArn`);
+      }
+      if (rule.credentialArn && !rule.credentialArn.includes(':secret:ecr-pullthroughcache/')) {
+        throw new Error(`${this.node.path}: ${rule.upstream} credentials must be a secret named 'ecr-pullthroughcache/...'`);
+      }
+
+      return new ecr.CfnPullThroughCacheRule(this, rule.upstream, {
+        ecrRepositoryPrefix: rule.repositoryPrefix ?? rule.upstream,
+        upstreamRegistry: upstream.upstreamRegistry,
+        upstreamRegistryUrl: upstream.upstreamRegistryUrl,
+        credentialArn: rule.credentialArn,
+      });
+    });
+    this.repositoryPrefixes = cacheRules.map(rule => rule.repositoryPrefix ?? rule.upstream);
+    this.cachedRegistries = Object.fromEntries(cacheRules.map(rule =>
+      [UPSTREAMS[rule.upstream].registry, `${registryHost}/${rule.repositoryPrefix ?? rule.upstream}`]));
+
+    const cacheMirrors = cacheRules.map(rule => ({
+      registry: UPSTREAMS[rule.upstream].registry,
+      endpoints: [`https://${registryHost}/v2/${rule.repositoryPrefix ?? rule.upstream}`],
+    }));
+
+    const mirrors = [...cacheMirrors, ...(props.mirrors ?? RegistryMirrors.DEFAULT_MIRRORS.filter(
+      mirror => !cacheMirrors.some(cached => cached.registry === mirror.registry),
+    ))];
+    const registries = mirrors.map(mirror => mirror.registry);
+    const duplicate = registries.find((registry, index) => registries.indexOf(registry) !== index);
+    if (duplicate) {
+      throw new Error(`${this.node.path}: registry '${duplicate}' has more than one mirror`);
+    }
+    this.mirrors = mirrors;
+  }
+
+  /**
+   * Returns the ECR location serving the images of an upstream registry, e.g. `quay.io`, or undefined if it is not cached
+   *
+   * Bottlerocket nodes reach the cache through their mirrors; images pulled by other nodes must name it.
+   */
+  public cachedRegistry(registry: string): string | undefined {
+    return this.cachedRegistries[registry];
+  }
+
+  /**
+   * Allows nodes to populate the cache on the first pull of an image
+   */
+  public grantPull(grantee: iam.IGrantable): iam.Grant | undefined {
+    if (this.repositoryPrefixes.length === 0) {
+      return undefined;
+    }
+
+    const stack = cdk.Stack.of(this);
+    return iam.Grant.addToPrincipal({
+      grantee,
+      actions: ['ecr:BatchImportUpstreamImage', 'ecr:CreateRepository'],
+      resourceArns: this.repositoryPrefixes.map(prefix => stack.formatArn({
+        service: 'ecr',
+        resource: 'repository',
+        resourceName: `${prefix}/*`,
+      })),
+    });
+  }
+}
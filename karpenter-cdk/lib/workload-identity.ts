@@ -0,0 +1,51 @@
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct, IConstruct } from 'constructs';
+import { IrsaServiceAccount } from './irsa-service-account';
+import { PodIdentityServiceAccount, PodIdentityServiceAccountProps } from './pod-identity-service-account';
+
+/**
+ * How workloads obtain AWS credentials
+ */
+export enum CredentialMode {
+  /**
+   * IAM Roles for Service Accounts, trusted through the cluster's OIDC provider
+   */
+  IRSA = 'irsa',
+
+  /**
+   * EKS Pod Identity, trusted through `pods.eks.amazonaws.com`
+   */
+  POD_IDENTITY = 'pod-identity',
+}
+
+/**
+ * A Kubernetes service account bound to an IAM role
+ */
+export interface IWorkloadIdentity extends IConstruct, iam.IGrantable {
+  readonly role: iam.IRole;
+  readonly namespace: string;
+  readonly serviceAccountName: string;
+  readonly manifest: eks.KubernetesManifest;
+  addToPrincipalPolicy(statement: iam.PolicyStatement): iam.AddToPrincipalPolicyResult;
+}
+
+/**
+ * Creates a service account identity using the given credential mode
+ */
+export function createWorkloadIdentity(
+  scope: Construct,
+  id: string,
+  mode: CredentialMode,
+  props: PodIdentityServiceAccountProps,
+): IWorkloadIdentity {
+  switch (mode) {
+    case CredentialMode.IRSA:
+      if (props.role) {
+        throw new Error(`${scope.node.path}/${id}: an existing role can only be reused with ${CredentialMode.POD_IDENTITY}`);
+      }
+      return new IrsaServiceAccount(scope, id, props);
+    case CredentialMode.POD_IDENTITY:
+      return new PodIdentityServiceAccount(scope, id, props);
+  }
+}
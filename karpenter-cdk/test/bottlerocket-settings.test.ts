@@ -0,0 +1,218 @@
+import { BottlerocketSettings, BottlerocketSettingsProps } from '../lib/bottlerocket-settings';
+
+/**
+ * Builds settings from input the type system would reject, as read from an untyped config file
+ */
+function fromUntyped(props: unknown) {
+  return new BottlerocketSettings(props as BottlerocketSettingsProps);
+}
+
+describe('BottlerocketSettings', () => {
+  test('renders scalar settings before nested tables', () => {
+    const settings = new BottlerocketSettings({
+      kubernetes: {
+        clusterName: 'demo',
+        maxPods: 110,
+        nodeLabels: { 'node-type': 'karpenter' },
+      },
+      kernel: {
+        lockdown: 'integrity',
+      },
+    });
+
+    expect(settings.render()).toBe([
+      '[settings.kubernetes]',
+      'cluster-name = "demo"',
+      'max-pods = 110',
+      '',
+      '[settings.kubernetes.node-labels]',
+      'node-type = "karpenter"',
+      '',
+      '[settings.kernel]',
+      'lockdown = "integrity"',
+      '',
+    ].join('\n'));
+  });
+
+  test('escapes strings and quotes keys that are not bare', () => {
+    const settings = new BottlerocketSettings({
+      kubernetes: {
+        nodeLabels: { 'example.com/team': 'a "quoted"\\value\n' },
+      },
+      kernel: {
+        sysctl: { 'net.ipv4.ip_forward': '1' },
+      },
+    });
+
+    const toml = settings.render();
+    expect(toml).toContain('"example.com/team" = "a \\"quoted\\"\\\\value\\n"');
+    expect(toml).toContain('"net.ipv4.ip_forward" = "1"');
+  });
+
+  test('escapes control characters as unicode', () => {
+    const settings = new BottlerocketSettings({
+      network: { hostname: 'node\u0001' },
+    });
+
+    expect(settings.render()).toContain('hostname = "node\\u0001"');
+  });
+
+  test('renders registry mirrors as an array of tables', () => {
+    const settings = new BottlerocketSettings({
+      containerRegistry: {
+        mirrors: [
+          { registry: 'docker.io', endpoints: ['https://mirror.gcr.io'] },
+          { registry: 'quay.io', endpoints: ['https://a.example.com', 'https://b.example.com'] },
+        ],
+      },
+    });
+
+    expect(settings.render()).toBe([
+      '[[settings.container-registry.mirrors]]',
+      'registry = "docker.io"',
+      'endpoint = ["https://mirror.gcr.io"]',
+      '',
+      '[[settings.container-registry.mirrors]]',
+      'registry = "quay.io"',
+      'endpoint = ["https://a.example.com", "https://b.example.com"]',
+      '',
+    ].join('\n'));
+  });
+
+  test('renders named host containers as separate tables', () => {
+    const settings = new BottlerocketSettings({
+      hostContainers: {
+        admin: { enabled: true, superpowered: true },
+        control: { enabled: false },
+      },
+    });
+
+    expect(settings.render()).toBe([
+      '[settings.host-containers.admin]',
+      'enabled = true',
+      'superpowered = true',
+      '',
+      '[settings.host-containers.control]',
+      'enabled = false',
+      '',
+    ].join('\n'));
+  });
+
+  test('rejects non-integer numbers', () => {
+    const settings = new BottlerocketSettings({ kubernetes: { maxPods: 1.5 } });
+
+    expect(() => settings.render()).toThrow('Bottlerocket settings only accept integer numbers, got 1.5');
+  });
+
+  describe('merge', () => {
+    test('overrides scalars and lists and keeps the rest of the table', () => {
+      const base = new BottlerocketSettings({
+        kubernetes: { clusterName: 'demo', maxPods: 58 },
+        network: { noProxy: ['localhost'] },
+      });
+
+      const merged = base.with({
+        kubernetes: { maxPods: 110 },
+        network: { noProxy: ['10.0.0.0/8'] },
+      });
+
+      expect(merged.props).toEqual({
+        kubernetes: { clusterName: 'demo', maxPods: 110 },
+        network: { noProxy: ['10.0.0.0/8'] },
+      });
+    });
+
+    test('merges map entries', () => {
+      const merged = new BottlerocketSettings({
+        kernel: { sysctl: { 'vm.max_map_count': '262144' } },
+      }).with({
+        kernel: { sysctl: { 'user.max_user_namespaces': '65536' } },
+      });
+
+      expect(merged.props.kernel?.sysctl).toEqual({
+        'vm.max_map_count': '262144',
+        'user.max_user_namespaces': '65536',
+      });
+    });
+
+    test('merges table array entries by their id', () => {
+      const merged = new BottlerocketSettings({
+        containerRegistry: {
+          mirrors: [{ registry: 'docker.io', endpoints: ['https://mirror.gcr.io'] }],
+        },
+      }).with({
+        containerRegistry: {
+          mirrors: [
+            { registry: 'docker.io', endpoints: ['https://cache.example.com'] },
+            { registry: 'ghcr.io', endpoints: ['https://ghcr.example.com'] },
+          ],
+        },
+      });
+
+      expect(merged.props.containerRegistry?.mirrors).toEqual([
+        { registry: 'docker.io', endpoints: ['https://cache.example.com'] },
+        { registry: 'ghcr.io', endpoints: ['https://ghcr.example.com'] },
+      ]);
+    });
+
+    test('does not modify the base settings', () => {
+      const base = new BottlerocketSettings({ kubernetes: { maxPods: 58 } });
+      base.with({ kubernetes: { maxPods: 110 } });
+
+      expect(base.props).toEqual({ kubernetes: { maxPods: 58 } });
+    });
+  });
+
+  describe('validation', () => {
+    test('rejects unknown settings', () => {
+      expect(() => fromUntyped({ kubernetes: { podPidsLimit: 1024 } }))
+        .toThrow("Unknown Bottlerocket setting 'settings.kubernetes.podPidsLimit'");
+    });
+
+    test('rejects values of the wrong type', () => {
+      expect(() => fromUntyped({ kubernetes: { maxPods: '110' } }))
+        .toThrow("Bottlerocket setting 'settings.kubernetes.max-pods' must be a number");
+    });
+
+    test('rejects a registry listed twice', () => {
+      expect(() => new BottlerocketSettings({
+        containerRegistry: {
+          mirrors: [
+            { registry: 'docker.io', endpoints: ['https://a.example.com'] },
+            { registry: 'docker.io', endpoints: ['https://b.example.com'] },
+          ],
+        },
+      })).toThrow("Bottlerocket setting 'settings.container-registry.mirrors' lists 'docker.io' more than once");
+    });
+
+    test('rejects credentials with both auth and a username', () => {
+      expect(() => new BottlerocketSettings({
+        containerRegistry: {
+          credentials: [{ registry: 'ghcr.io', auth: 'dXNlcjpwYXNz', username: 'user' }],
+        },
+      })).toThrow("Bottlerocket credentials for 'ghcr.io' set both 'auth' and 'username'/'password'");
+    });
+
+    test('rejects a taint effect set twice for one key', () => {
+      expect(() => new BottlerocketSettings({
+        kubernetes: { nodeTaints: { dedicated: ['a:NoSchedule', 'b:NoSchedule'] } },
+      })).toThrow("Bottlerocket node taint 'dedicated' sets the same effect more than once");
+    });
+
+    test('rejects a container defined as both host and bootstrap container', () => {
+      expect(() => new BottlerocketSettings({
+        hostContainers: { setup: { enabled: true } },
+        bootstrapContainers: { setup: { mode: 'once' } },
+      })).toThrow("Bottlerocket container 'setup' is defined as both a host and a bootstrap container");
+    });
+
+    test('rejects conflicts introduced by a merge', () => {
+      const base = new BottlerocketSettings({
+        hostContainers: { setup: { enabled: true } },
+      });
+
+      expect(() => base.with({ bootstrapContainers: { setup: { mode: 'once' } } }))
+        .toThrow("Bottlerocket container 'setup' is defined as both a host and a bootstrap container");
+    });
+  });
+});
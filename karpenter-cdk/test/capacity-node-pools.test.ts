@@ -0,0 +1,114 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { capacitySpreadConstraint, CapacityNodePoolsProps, createCapacityNodePools } from '../lib/capacity-node-pools';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+
+function createPools(props: Partial<CapacityNodePoolsProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+  });
+  const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+    cluster,
+    karpenterInstallation: new Construct(stack, 'Karpenter'),
+    nodeClassName: 'default',
+    role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+  });
+  const pools = createCapacityNodePools(stack, 'Pool', {
+    nodeClass,
+    nodePoolName: 'workers',
+    requirements: [{ key: 'kubernetes.io/arch', operator: 'In', values: ['amd64'] }],
+    limits: { cpu: '100' },
+    ...props,
+  });
+  return { stack, pools };
+}
+
+/**
+ * Returns the NodePool objects applied by the stack, keyed by name
+ */
+function nodePools(stack: cdk.Stack): Record<string, any> {
+  const resources = Template.fromStack(stack).findResources('Custom::AWSCDK-EKS-KubernetesResource');
+  return Object.fromEntries(Object.values(resources)
+    .flatMap(resource => JSON.parse(resource.Properties.Manifest))
+    .filter(object => object.kind === 'NodePool')
+    .map(object => [object.metadata.name, object]));
+}
+
+describe('createCapacityNodePools', () => {
+  test('splits spot-first into a weighted spot pool and an on-demand fallback', () => {
+    const { stack, pools } = createPools();
+
+    expect(pools.map(pool => [pool.node.id, pool.nodePoolName, pool.capacityTypes])).toEqual([
+      ['Pool', 'workers', ['spot']],
+      ['PoolOnDemand', 'workers-on-demand', ['on-demand']],
+    ]);
+
+    const objects = nodePools(stack);
+    expect(objects.workers.spec.weight).toBe(100);
+    expect(objects['workers-on-demand'].spec.weight).toBe(10);
+    expect(objects['workers-on-demand'].spec.template.spec.requirements).toEqual([
+      { key: 'kubernetes.io/arch', operator: 'In', values: ['amd64'] },
+      { key: 'karpenter.sh/capacity-type', operator: 'In', values: ['on-demand'] },
+    ]);
+  });
+
+  test('gives each spot-first pool its own weight and limits', () => {
+    const { stack } = createPools({
+      spot: { weight: 50 },
+      onDemand: { weight: 5, limits: { cpu: '20' } },
+    });
+
+    const objects = nodePools(stack);
+    expect(objects.workers.spec).toMatchObject({ weight: 50, limits: { cpu: '100' } });
+    expect(objects['workers-on-demand'].spec).toMatchObject({ weight: 5, limits: { cpu: '20' } });
+  });
+
+  test('creates one pool offering both capacity types for mixed', () => {
+    const { pools } = createPools({ strategy: 'mixed' });
+
+    expect(pools.map(pool => [pool.nodePoolName, pool.capacityTypes])).toEqual([['workers', ['spot', 'on-demand']]]);
+  });
+
+  test('creates one unweighted on-demand pool for on-demand', () => {
+    const { stack, pools } = createPools({ strategy: 'on-demand' });
+
+    expect(pools.map(pool => [pool.nodePoolName, pool.capacityTypes])).toEqual([['workers', ['on-demand']]]);
+    expect(nodePools(stack).workers.spec.weight).toBeUndefined();
+  });
+
+  test.each<[string, Partial<CapacityNodePoolsProps>, string]>([
+    [
+      'a capacity type requirement',
+      { requirements: [{ key: 'karpenter.sh/capacity-type', operator: 'In', values: ['spot'] }] },
+      'Test/Pool: requirements must not set karpenter.sh/capacity-type; it is derived from the capacity strategy',
+    ],
+    [
+      'capacity types outside the mixed strategy',
+      { capacityTypes: ['spot'] },
+      'Test/Pool: capacityTypes only apply to the mixed strategy, got spot-first',
+    ],
+    [
+      'a weight above 100',
+      { spot: { weight: 101 } },
+      'Test/Pool: spot.weight must be an integer between 1 and 100, got 101',
+    ],
+  ])('rejects %s', (_, props, message) => {
+    expect(() => createPools(props)).toThrow(message);
+  });
+});
+
+describe('capacitySpreadConstraint', () => {
+  test('spreads pods across capacity types', () => {
+    expect(capacitySpreadConstraint({ app: 'runner' }, 2)).toEqual({
+      maxSkew: 2,
+      topologyKey: 'karpenter.sh/capacity-type',
+      whenUnsatisfiable: 'DoNotSchedule',
+      labelSelector: { matchLabels: { app: 'runner' } },
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { Cilium, CiliumProps } from '../lib/cilium';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+import { KarpenterNodePool } from '../lib/karpenter-node-pool';
+
+function createCilium(props: Partial<CiliumProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    clusterEndpoint: 'https://test.eks.amazonaws.com',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc',
+      'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE'),
+  });
+  new Cilium(stack, 'Cilium', { cluster, ...props });
+  return { stack, cluster };
+}
+
+describe('Cilium', () => {
+  test('installs Cilium in ENI mode after moving aws-node and kube-proxy off the nodes', () => {
+    const template = Template.fromStack(createCilium().stack);
+
+    for (const daemonSet of ['aws-node', 'kube-proxy']) {
+      template.hasResourceProperties('Custom::AWSCDK-EKS-KubernetesPatch', {
+        ResourceName: `daemonset/${daemonSet}`,
+        ResourceNamespace: 'kube-system',
+        ApplyPatchJson: JSON.stringify({ spec: { template: { spec: { nodeSelector: { 'io.cilium/aws-node-enabled': 'true' } } } } }),
+      });
+    }
+    template.hasResource('Custom::AWSCDK-EKS-HelmChart', {
+      Properties: {
+        Chart: 'cilium',
+        Repository: 'https://helm.cilium.io/',
+        Version: '1.16.5',
+        Namespace: 'kube-system',
+        Values: Match.serializedJson(Match.objectLike({
+          eni: { enabled: true },
+          ipam: { mode: 'eni' },
+          routingMode: 'native',
+          kubeProxyReplacement: true,
+          k8sServiceHost: 'test.eks.amazonaws.com',
+          serviceAccounts: { operator: { create: false, name: 'cilium-operator' } },
+        })),
+      },
+      DependsOn: Match.arrayWith([
+        Match.stringLikeRegexp('^CiliumDisableawsnode'),
+        Match.stringLikeRegexp('^CiliumDisablekubeproxy'),
+      ]),
+    });
+  });
+
+  test('lets the operator manage ENIs', () => {
+    Template.fromStack(createCilium().stack).hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: [Match.objectLike({
+          Action: Match.arrayWith(['ec2:CreateNetworkInterface', 'ec2:AssignPrivateIpAddresses']),
+          Resource: '*',
+        })],
+      },
+    });
+  });
+
+  test('taints Karpenter nodes until the agent is ready', () => {
+    const { stack, cluster } = createCilium();
+    const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+      cluster,
+      karpenterInstallation: new Construct(stack, 'Karpenter'),
+      nodeClassName: 'default',
+      role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+    });
+    new KarpenterNodePool(stack, 'Pool', { nodeClass, nodePoolName: 'workers', requirements: [] });
+    Cilium.addStartupTaints(stack);
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: Match.serializedJson([Match.objectLike({
+        kind: 'NodePool',
+        spec: {
+          template: {
+            spec: Match.objectLike({
+              startupTaints: [{ key: 'node.cilium.io/agent-not-ready', value: 'true', effect: 'NoExecute' }],
+            }),
+          },
+        },
+      })]),
+    });
+  });
+});
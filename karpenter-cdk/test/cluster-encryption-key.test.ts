@@ -0,0 +1,59 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { ClusterEncryptionKey, ClusterEncryptionKeyProps } from '../lib/cluster-encryption-key';
+
+function createKey(props?: ClusterEncryptionKeyProps) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const key = new ClusterEncryptionKey(stack, 'Encryption', props);
+  return { key, template: Template.fromStack(stack) };
+}
+
+describe('ClusterEncryptionKey', () => {
+  test('creates a retained, rotated key', () => {
+    const { template } = createKey({ alias: 'alias/karpenter-test' });
+
+    template.hasResource('AWS::KMS::Key', {
+      Properties: { EnableKeyRotation: true },
+      DeletionPolicy: 'Retain',
+      UpdateReplacePolicy: 'Retain',
+    });
+    template.hasResourceProperties('AWS::KMS::Alias', { AliasName: 'alias/karpenter-test' });
+  });
+
+  test('lets EventBridge and the EC2 Spot service-linked role use the key', () => {
+    const { template } = createKey();
+
+    template.hasResourceProperties('AWS::KMS::Key', {
+      KeyPolicy: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'AllowEventBridgeToEncryptQueueMessages',
+            Principal: { Service: 'events.amazonaws.com' },
+            Action: ['kms:GenerateDataKey*', 'kms:Decrypt'],
+          }),
+          Match.objectLike({
+            Sid: 'AllowEc2SpotToUseKeyForVolumes',
+            Principal: {
+              AWS: {
+                'Fn::Join': ['', Match.arrayWith([':iam::111111111111:role/aws-service-role/spot.amazonaws.com/AWSServiceRoleForEC2Spot'])],
+              },
+            },
+          }),
+          Match.objectLike({
+            Sid: 'AllowEc2SpotToCreateVolumeGrants',
+            Action: 'kms:CreateGrant',
+            Condition: { Bool: { 'kms:GrantIsForAWSResource': true } },
+          }),
+        ]),
+      },
+    });
+  });
+
+  test('imports an existing key without creating one', () => {
+    const keyArn = 'arn:aws:kms:us-west-2:111111111111:key/1234abcd-12ab-34cd-56ef-1234567890ab';
+    const { key, template } = createKey({ keyArn });
+
+    template.resourceCountIs('AWS::KMS::Key', 0);
+    expect(key.key.keyArn).toBe(keyArn);
+  });
+});
@@ -0,0 +1,49 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import { ClusterVpcEndpoints } from '../lib/cluster-vpc-endpoints';
+
+function createEndpoints() {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const vpc = new ec2.Vpc(stack, 'Vpc', {
+    ipAddresses: ec2.IpAddresses.cidr('10.9.0.0/16'),
+    maxAzs: 2,
+    natGateways: 0,
+    subnetConfiguration: [{ cidrMask: 20, name: 'Nodes', subnetType: ec2.SubnetType.PRIVATE_ISOLATED }],
+  });
+  const endpoints = new ClusterVpcEndpoints(stack, 'Endpoints', { vpc, subnets: { subnetType: ec2.SubnetType.PRIVATE_ISOLATED } });
+  return { stack, endpoints };
+}
+
+describe('ClusterVpcEndpoints', () => {
+  test('creates private interface endpoints for the AWS APIs', () => {
+    const { stack, endpoints } = createEndpoints();
+
+    const template = Template.fromStack(stack);
+    expect(endpoints.interfaceEndpoints).toHaveLength(12);
+    template.resourceCountIs('AWS::EC2::VPCEndpoint', 13);
+    for (const service of ['ecr.api', 'ecr.dkr', 'sts', 'sqs', 'ec2', 'ssm', 'eks', 'eks-auth', 'logs', 'secretsmanager']) {
+      template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+        ServiceName: `com.amazonaws.us-west-2.${service}`,
+        VpcEndpointType: 'Interface',
+        PrivateDnsEnabled: true,
+        SecurityGroupIds: [{ 'Fn::GetAtt': [Match.stringLikeRegexp('^EndpointsSecurityGroup'), 'GroupId'] }],
+      });
+    }
+  });
+
+  test('admits HTTPS from the VPC only', () => {
+    Template.fromStack(createEndpoints().stack).hasResourceProperties('AWS::EC2::SecurityGroup', {
+      SecurityGroupIngress: [Match.objectLike({ IpProtocol: 'tcp', FromPort: 443, ToPort: 443 })],
+      SecurityGroupEgress: [Match.objectLike({ CidrIp: '255.255.255.255/32' })],
+    });
+  });
+
+  test('routes the node subnets to S3 for the ECR image layers', () => {
+    Template.fromStack(createEndpoints().stack).hasResourceProperties('AWS::EC2::VPCEndpoint', {
+      ServiceName: { 'Fn::Join': ['', ['com.amazonaws.', { Ref: 'AWS::Region' }, '.s3']] },
+      VpcEndpointType: 'Gateway',
+      RouteTableIds: Match.arrayWith([{ Ref: Match.stringLikeRegexp('^VpcNodesSubnet1RouteTable') }]),
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { businessHoursFreeze, configuredDisruptionBudgets } from '../lib/disruption-budgets';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+import { KarpenterNodePool } from '../lib/karpenter-node-pool';
+import { validateNodePool } from '../lib/karpenter-schema';
+
+describe('businessHoursFreeze', () => {
+  test('blocks disruption on weekday business hours and caps it otherwise', () => {
+    expect(businessHoursFreeze()).toEqual([
+      { nodes: '0', schedule: '0 7 * * mon-fri', duration: '11h', reasons: undefined },
+      { nodes: '10%' },
+    ]);
+  });
+
+  test('applies the configured window, reasons and cap', () => {
+    expect(businessHoursFreeze({ startHour: 22, hours: 4, days: 'sat,sun', reasons: ['Underutilized'], nodes: '2' })).toEqual([
+      { nodes: '0', schedule: '0 22 * * sat,sun', duration: '4h', reasons: ['Underutilized'] },
+      { nodes: '2' },
+    ]);
+  });
+
+  test('produces budgets the NodePool schema accepts', () => {
+    const nodePool = {
+      apiVersion: 'karpenter.sh/v1',
+      kind: 'NodePool',
+      spec: {
+        template: { spec: { nodeClassRef: { group: 'karpenter.k8s.aws', kind: 'EC2NodeClass', name: 'default' } } },
+        disruption: { budgets: businessHoursFreeze({ startHour: 0, hours: 24 }) },
+      },
+    };
+
+    expect(validateNodePool(nodePool)).toEqual([]);
+  });
+
+  test.each([
+    [{ startHour: 24 }, 'Business hours freeze startHour must be an integer between 0 and 23, got 24'],
+    [{ startHour: 7.5 }, 'Business hours freeze startHour must be an integer between 0 and 23, got 7.5'],
+    [{ hours: 0 }, 'Business hours freeze hours must be an integer between 1 and 24, got 0'],
+    [{ hours: 25 }, 'Business hours freeze hours must be an integer between 1 and 24, got 25'],
+  ])('rejects %p', (options, message) => {
+    expect(() => businessHoursFreeze(options)).toThrow(message);
+  });
+});
+
+describe('configuredDisruptionBudgets', () => {
+  const defaults = [{ nodes: '10%' }];
+
+  test('returns the defaults when nothing is configured', () => {
+    expect(configuredDisruptionBudgets({}, defaults)).toBe(defaults);
+  });
+
+  test('replaces the defaults with explicit budgets', () => {
+    expect(configuredDisruptionBudgets({ disruptionBudgets: [{ nodes: '1' }] }, defaults)).toEqual([{ nodes: '1' }]);
+  });
+
+  test('puts the freeze ahead of explicit budgets', () => {
+    expect(configuredDisruptionBudgets({
+      businessHoursFreeze: { nodes: '20%' },
+      disruptionBudgets: [{ nodes: '0', reasons: ['Drifted'] }],
+    }, defaults)).toEqual([
+      { nodes: '0', schedule: '0 7 * * mon-fri', duration: '11h', reasons: undefined },
+      { nodes: '20%' },
+      { nodes: '0', reasons: ['Drifted'] },
+    ]);
+  });
+});
+
+describe('KarpenterNodePool', () => {
+  test('renders the budgets into the NodePool disruption settings', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+    const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+      clusterName: 'test',
+      kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    });
+    const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+      cluster,
+      karpenterInstallation: new Construct(stack, 'Karpenter'),
+      nodeClassName: 'default',
+      role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+    });
+    new KarpenterNodePool(stack, 'Pool', {
+      nodeClass,
+      nodePoolName: 'github-runners',
+      requirements: [],
+      disruption: { consolidationPolicy: 'WhenEmpty', consolidateAfter: '5m', budgets: businessHoursFreeze() },
+    });
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: Match.serializedJson([Match.objectLike({
+        kind: 'NodePool',
+        spec: Match.objectLike({
+          disruption: {
+            consolidationPolicy: 'WhenEmpty',
+            consolidateAfter: '5m',
+            budgets: [{ nodes: '0', schedule: '0 7 * * mon-fri', duration: '11h' }, { nodes: '10%' }],
+          },
+        }),
+      })]),
+    });
+  });
+});
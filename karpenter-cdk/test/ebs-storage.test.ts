@@ -0,0 +1,106 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import { EbsStorage, EbsStorageProps } from '../lib/ebs-storage';
+import { addManagedAddons } from '../lib/managed-addons';
+
+const KEY_ARN = 'arn:aws:kms:us-west-2:111111111111:key/11111111-2222-3333-4444-555555555555';
+
+function createStorage(props: Partial<EbsStorageProps> = {}, driver = true) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc',
+      'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE'),
+  });
+  addManagedAddons(cluster, { kubernetesVersion: '1.30', addons: { 'aws-ebs-csi-driver': { enabled: driver } } });
+  const storage = new EbsStorage(stack, 'Storage', { cluster, ...props });
+  return { stack, storage };
+}
+
+/**
+ * StorageClass of the storage manifest
+ */
+interface StorageClass {
+  metadata: { name: string };
+  parameters: Record<string, string>;
+  reclaimPolicy: string;
+}
+
+/**
+ * Returns the StorageClasses of the storage manifest
+ */
+function storageClasses(stack: cdk.Stack): StorageClass[] {
+  const [manifest] = Object.values(Template.fromStack(stack).findResources('Custom::AWSCDK-EKS-KubernetesResource'));
+  return JSON.parse(manifest.Properties.Manifest);
+}
+
+describe('EbsStorage', () => {
+  test('makes an encrypted gp3 StorageClass the default once the driver is installed', () => {
+    const { stack, storage } = createStorage();
+
+    const template = Template.fromStack(stack);
+    expect(storage.storageClassNames).toEqual(['gp3']);
+    template.hasResource('Custom::AWSCDK-EKS-KubernetesResource', {
+      Properties: {
+        Manifest: Match.serializedJson([Match.objectLike({
+          kind: 'StorageClass',
+          metadata: { name: 'gp3', annotations: { 'storageclass.kubernetes.io/is-default-class': 'true' } },
+          provisioner: 'ebs.csi.aws.com',
+          parameters: { 'type': 'gp3', 'encrypted': 'true', 'csi.storage.k8s.io/fstype': 'ext4' },
+          reclaimPolicy: 'Delete',
+          volumeBindingMode: 'WaitForFirstConsumer',
+        })]),
+      },
+      DependsOn: Match.arrayWith([Match.stringLikeRegexp('^ClusterEbsCsiDriver'), Match.stringLikeRegexp('^StorageGp2NotDefault')]),
+    });
+    template.hasResourceProperties('Custom::AWSCDK-EKS-KubernetesPatch', {
+      ResourceName: 'storageclass/gp2',
+      ApplyPatchJson: JSON.stringify({ metadata: { annotations: { 'storageclass.kubernetes.io/is-default-class': 'false' } } }),
+    });
+  });
+
+  test('adds the io2 and retain classes', () => {
+    const { stack, storage } = createStorage({ io2: { iopsPerGb: 100 }, retain: true });
+
+    expect(storage.storageClassNames).toEqual(['gp3', 'io2', 'gp3-retain']);
+    const [, io2, retain] = storageClasses(stack);
+    expect(io2.parameters).toMatchObject({ type: 'io2', iopsPerGB: '100', allowAutoIOPSPerGBIncrease: 'true' });
+    expect(retain).toMatchObject({ parameters: { type: 'gp3' }, reclaimPolicy: 'Retain' });
+  });
+
+  test('lets the driver use the customer-managed key', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Keys');
+    const { stack: storageStack } = createStorage({ encryptionKey: kms.Key.fromKeyArn(stack, 'Key', KEY_ARN) });
+
+    const template = Template.fromStack(storageStack);
+    template.hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: Match.serializedJson([Match.objectLike({ parameters: Match.objectLike({ kmsKeyId: KEY_ARN }) })]),
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: [
+          Match.objectLike({ Action: Match.arrayWith(['kms:Decrypt', 'kms:GenerateDataKey*']), Resource: KEY_ARN }),
+          Match.objectLike({
+            Action: ['kms:CreateGrant', 'kms:ListGrants', 'kms:RevokeGrant'],
+            Condition: { Bool: { 'kms:GrantIsForAWSResource': true } },
+          }),
+        ],
+      },
+      Roles: [{ Ref: Match.stringLikeRegexp('^ClusterEbsCsiDriverRole') }],
+    });
+  });
+
+  test('rejects a cluster without the EBS CSI driver', () => {
+    expect(() => createStorage({}, false))
+      .toThrow('Test/Storage: the cluster has no aws-ebs-csi-driver add-on; install it with addManagedAddons first');
+  });
+
+  test('rejects io2 IOPS out of range', () => {
+    expect(() => createStorage({ io2: { iopsPerGb: 1001 } }))
+      .toThrow('Test/Storage: io2.iopsPerGb must be an integer between 1 and 1000, got 1001');
+  });
+});
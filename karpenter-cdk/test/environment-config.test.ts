@@ -0,0 +1,206 @@
+import * as cdk from 'aws-cdk-lib';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadEnvironments, parseEnvironment } from '../lib/environment-config';
+
+const MINIMAL = {
+  stackName: 'KarpenterEksStack-test',
+  clusterName: 'karpenter-test',
+  kubernetesVersion: '1.30',
+  network: {
+    vpcCidr: '10.9.0.0/16',
+    maxAzs: 2,
+    natGateways: 1,
+  },
+  tags: {},
+};
+
+function parse(overrides: Record<string, unknown>) {
+  return parseEnvironment('test', { ...MINIMAL, ...overrides });
+}
+
+describe('parseEnvironment', () => {
+  test('parses a minimal environment', () => {
+    expect(parse({})).toEqual({
+      name: 'test',
+      stackName: 'KarpenterEksStack-test',
+      clusterName: 'karpenter-test',
+      kubernetesVersion: '1.30',
+      network: { vpcCidr: '10.9.0.0/16', maxAzs: 2, natGateways: 1 },
+      tags: {},
+    });
+  });
+
+  test('parses Karpenter batch durations', () => {
+    const { karpenter } = parse({ karpenter: { batchMaxDuration: '1m', batchIdleDuration: '5s' } });
+
+    expect(karpenter?.batchMaxDuration?.toSeconds()).toBe(60);
+    expect(karpenter?.batchIdleDuration?.toSeconds()).toBe(5);
+  });
+
+  test.each([
+    ['a non-object environment', 'not an object', "Invalid configuration for environment 'test': <root> must be an object"],
+    ['a missing required setting', { ...MINIMAL, stackName: undefined }, "'test': stackName must be a non-empty string"],
+  ])('rejects %s', (_, raw, message) => {
+    expect(() => parseEnvironment('test', raw)).toThrow(message);
+  });
+
+  test.each<[string, Record<string, unknown>, string]>([
+    ['unknown keys', { clusterNmae: 'typo' }, 'clusterNmae is not a known setting (expected one of: stackName,'],
+    ['unknown nested keys', { network: { ...MINIMAL.network, nat: 1 } }, 'network.nat is not a known setting'],
+    ['strings not matching their pattern', { kubernetesVersion: '1.30.1' }, "kubernetesVersion '1.30.1' does not match"],
+    ['integers out of range', { network: { ...MINIMAL.network, maxAzs: 7 } }, 'network.maxAzs must be an integer between 1 and 6'],
+    ['values outside an enumeration', { credentialMode: 'static' }, 'credentialMode must be one of: irsa, pod-identity'],
+    ['empty lists', { nodePools: { default: { instanceTypes: [] } } }, 'nodePools.default.instanceTypes must be a non-empty list'],
+    [
+      'invalid list items',
+      { nodePools: { default: { instanceTypes: ['m5.large', 'large'] } } },
+      "nodePools.default.instanceTypes[1] 'large' does not match",
+    ],
+    [
+      'invalid scale set names',
+      { githubRunners: { url: 'https://github.example.com', organization: 'platform', scaleSets: [{ name: 'Linux' }] } },
+      "githubRunners.scaleSets[0].name 'Linux' does not match",
+    ],
+    [
+      'partial secret ARNs',
+      {
+        githubRunners: {
+          url: 'https://github.example.com',
+          organization: 'platform',
+          credentialsSecretArn: 'arn:aws:secretsmanager:us-west-2:111111111111:secret:github',
+        },
+      },
+      "githubRunners.credentialsSecretArn 'arn:aws:secretsmanager:us-west-2:111111111111:secret:github' does not match",
+    ],
+    ['non-string tag values', { tags: { Team: 7 } }, 'tags.Team must be a non-empty string'],
+    ['unknown node pools', { nodePools: { gpu: {} } }, 'nodePools.gpu is not a known setting'],
+    [
+      'more NAT gateways than availability zones',
+      { network: { ...MINIMAL.network, natGateways: 3 } },
+      'network.natGateways (3) exceeds network.maxAzs (2)',
+    ],
+    ['malformed KMS key ARNs', { encryption: { keyArn: 'alias/karpenter' } }, "encryption.keyArn 'alias/karpenter' does not match"],
+    ['invalid list items', { monitoring: { alarmEmails: ['ops@example.com', 'nobody'] } }, "monitoring.alarmEmails[1] 'nobody' does not match"],
+    [
+      'both an alarm topic and alarm emails',
+      { monitoring: { alarmTopicArn: 'arn:aws:sns:us-west-2:111111111111:alarms', alarmEmails: ['ops@example.com'] } },
+      "Invalid configuration for environment 'test': monitoring cannot set both alarmTopicArn and alarmEmails",
+    ],
+    ['invalid IAM settings', { iam: { path: 'platform' } }, "Invalid configuration for environment 'test': iam is invalid: IAM path 'platform' must begin and end with '/'"],
+    [
+      'add-ons Cilium replaces',
+      { cni: 'cilium', addons: { 'kube-proxy': { enabled: true } } },
+      "Invalid configuration for environment 'test': addons.kube-proxy cannot be enabled with cni 'cilium', which replaces it",
+    ],
+    [
+      'storage without the EBS CSI driver',
+      { storage: {}, addons: { 'aws-ebs-csi-driver': { enabled: false } } },
+      "Invalid configuration for environment 'test': storage requires the aws-ebs-csi-driver add-on",
+    ],
+    [
+      'unsupported pull-through cache upstreams',
+      { registryMirrors: { pullThroughCache: [{ upstream: 'gcr' }] } },
+      'registryMirrors.pullThroughCache[0].upstream must be one of: docker-hub, ghcr, quay, ecr-public',
+    ],
+    ['unsupported CNI plugins', { cni: 'calico' }, 'cni must be one of: aws-vpc-cni, cilium'],
+    ['malformed resource quantities', { nexus: { resources: { requests: { memory: '4GB' } } } }, "nexus.resources.requests.memory '4GB' does not match"],
+    ['unsupported architectures', { nodePools: { default: { architectures: ['arm64', 'riscv64'] } } }, 'nodePools.default.architectures[1] must be one of: amd64, arm64'],
+    [
+      'node pools with both instance types and requirements',
+      { nodePools: { default: { instanceTypes: ['m5.large'], instanceRequirements: { cpu: { min: 2 } } } } },
+      'nodePools.default cannot set both instanceTypes and instanceRequirements',
+    ],
+    ['non-boolean flags', { nodePools: { default: { instanceRequirements: { localNvme: 'yes' } } } }, 'nodePools.default.instanceRequirements.localNvme must be true or false'],
+    [
+      'capacity types without the mixed strategy',
+      { nodePools: { default: { capacityStrategy: 'spot-first', capacityTypes: ['spot'] } } },
+      "nodePools.default.capacityTypes requires capacityStrategy 'mixed'",
+    ],
+    [
+      'scheduled budgets without a duration',
+      { nodePools: { default: { disruptionBudgets: [{ nodes: '0', schedule: '0 7 * * mon-fri' }] } } },
+      'nodePools.default.disruptionBudgets[0] schedule and duration must be set together',
+    ],
+    ['non-boolean network flags', { network: { ...MINIMAL.network, private: 'yes' } }, 'network.private must be true or false'],
+    [
+      'termination grace periods in days',
+      { nodePools: { default: { terminationGracePeriod: '1d' } } },
+      "nodePools.default.terminationGracePeriod '1d' does not match",
+    ],
+    [
+      'a shared controller role without Pod Identity',
+      { karpenter: { controllerRoleArn: 'arn:aws:iam::111111111111:role/karpenter' } },
+      "karpenter.controllerRoleArn requires credentialMode 'pod-identity'",
+    ],
+    ['durations in hours', { karpenter: { batchMaxDuration: '1h' } }, "karpenter.batchMaxDuration '1h' does not match"],
+    [
+      'private clusters without NAT gateways',
+      { network: { ...MINIMAL.network, natGateways: 0, private: true } },
+      "Invalid configuration for environment 'test': network.private requires natGateways > 0",
+    ],
+    [
+      'private clusters without the required pull-through caches',
+      { cni: 'cilium', network: { ...MINIMAL.network, private: true }, registryMirrors: { pullThroughCache: [{ upstream: 'ecr-public' }] } },
+      'network.private requires registryMirrors.pullThroughCache rules for quay, since isolated nodes only pull images from ECR',
+    ],
+    [
+      'private clusters syncing runner credentials without the ghcr cache',
+      {
+        network: { ...MINIMAL.network, private: true },
+        registryMirrors: { pullThroughCache: [{ upstream: 'ecr-public' }] },
+        githubRunners: {
+          url: 'https://github.example.com',
+          organization: 'platform',
+          credentialsSecretArn: 'arn:aws:secretsmanager:us-west-2:111111111111:secret:github-AbCdEf',
+        },
+      },
+      'network.private requires registryMirrors.pullThroughCache rules for ghcr',
+    ],
+    ['non-boolean storage flags', { storage: { retain: 'yes' } }, 'storage.retain must be true or false'],
+    ['proxy URLs with a path', { proxy: { httpsProxy: 'http://proxy.example.com/squid' } }, "proxy.httpsProxy 'http://proxy.example.com/squid' does not match"],
+  ])('rejects %s', (_, overrides, message) => {
+    expect(() => parse(overrides)).toThrow(message);
+  });
+});
+
+describe('loadEnvironments', () => {
+  let configFile: string;
+
+  beforeEach(() => {
+    configFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'environments-')), 'environments.json');
+    fs.writeFileSync(configFile, JSON.stringify({
+      dev: MINIMAL,
+      prod: { ...MINIMAL, stackName: 'KarpenterEksStack-prod' },
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(configFile), { recursive: true, force: true });
+  });
+
+  test('loads every environment by default', () => {
+    const app = new cdk.App({ context: { configFile } });
+
+    expect(loadEnvironments(app).map(env => env.name)).toEqual(['dev', 'prod']);
+  });
+
+  test('selects one environment through context', () => {
+    const app = new cdk.App({ context: { configFile, environment: 'prod' } });
+
+    expect(loadEnvironments(app).map(env => env.stackName)).toEqual(['KarpenterEksStack-prod']);
+  });
+
+  test('rejects an unknown environment', () => {
+    const app = new cdk.App({ context: { configFile, environment: 'qa' } });
+
+    expect(() => loadEnvironments(app)).toThrow(`Environment 'qa' is not defined in ${configFile} (found: dev, prod)`);
+  });
+
+  test('rejects an unreadable file', () => {
+    const app = new cdk.App({ context: { configFile: `${configFile}.missing` } });
+
+    expect(() => loadEnvironments(app)).toThrow(`Unable to read environments file ${configFile}.missing`);
+  });
+});
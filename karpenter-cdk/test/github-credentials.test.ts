@@ -0,0 +1,142 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { GitHubCredentials, GitHubCredentialsProps } from '../lib/github-credentials';
+
+const SECRET_ARN = 'arn:aws:secretsmanager:us-west-2:111111111111:secret:github-AbCdEf';
+
+function createCredentials(props: Partial<GitHubCredentialsProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc',
+      'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE'),
+  });
+  new GitHubCredentials(stack, 'Credentials', {
+    cluster,
+    secret: secretsmanager.Secret.fromSecretCompleteArn(stack, 'Secret', SECRET_ARN),
+    ...props,
+  });
+  return stack;
+}
+
+/**
+ * External Secrets objects applied by the construct
+ */
+interface SyncedObject {
+  apiVersion: string;
+  kind: string;
+  metadata: { name: string; namespace?: string };
+  spec: {
+    refreshInterval?: string;
+    target?: { name: string; template?: { type: string; data: Record<string, string> } };
+    data?: Array<{ secretKey: string; remoteRef: { key: string; property: string } }>;
+  };
+}
+
+/**
+ * Returns the objects of the synced secrets manifest
+ */
+function syncedObjects(stack: cdk.Stack): SyncedObject[] {
+  const manifests = Template.fromStack(stack).findResources('Custom::AWSCDK-EKS-KubernetesResource');
+  return Object.values(manifests)
+    .filter(resource => typeof resource.Properties.Manifest === 'string')
+    .flatMap((resource): SyncedObject[] => JSON.parse(resource.Properties.Manifest))
+    .filter(object => object.apiVersion.startsWith('external-secrets.io/'));
+}
+
+describe('GitHubCredentials', () => {
+  test('installs External Secrets Operator on the system nodes with a service account that can read the secret', () => {
+    const template = Template.fromStack(createCredentials());
+    const tolerations = [{ key: 'CriticalAddonsOnly', operator: 'Exists' }];
+
+    template.hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'external-secrets',
+      Repository: 'https://charts.external-secrets.io',
+      Version: '0.10.4',
+      Namespace: 'external-secrets',
+      Values: Match.serializedJson(Match.objectLike({
+        installCRDs: true,
+        serviceAccount: { create: false, name: 'external-secrets' },
+        tolerations,
+        webhook: { tolerations },
+        certController: { tolerations },
+      })),
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: [Match.objectLike({
+          Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+          Resource: SECRET_ARN,
+        })],
+      },
+    });
+  });
+
+  test('pulls the operator image from the given registry', () => {
+    const image = { repository: '111111111111.dkr.ecr.us-west-2.amazonaws.com/ghcr/external-secrets/external-secrets' };
+
+    Template.fromStack(createCredentials({ imageRegistry: '111111111111.dkr.ecr.us-west-2.amazonaws.com/ghcr' }))
+      .hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+        Chart: 'external-secrets',
+        Values: Match.serializedJson(Match.objectLike({
+          image,
+          webhook: Match.objectLike({ image }),
+          certController: Match.objectLike({ image }),
+        })),
+      });
+  });
+
+  test('syncs the GitHub App fields into the ARC secret', () => {
+    const [store, config] = syncedObjects(createCredentials({ refreshInterval: cdk.Duration.minutes(15) }));
+
+    expect(store).toMatchObject({
+      kind: 'ClusterSecretStore',
+      spec: { provider: { aws: { service: 'SecretsManager', region: 'us-west-2' } } },
+    });
+    expect(config).toMatchObject({
+      kind: 'ExternalSecret',
+      metadata: { name: 'github-config', namespace: 'arc-runners' },
+      spec: {
+        refreshInterval: '900s',
+        target: { name: 'github-config' },
+        data: ['github_app_id', 'github_app_installation_id', 'github_app_private_key'].map(property => ({
+          secretKey: property,
+          remoteRef: { key: SECRET_ARN, property },
+        })),
+      },
+    });
+  });
+
+  test('syncs the token field for token authentication', () => {
+    const [, config] = syncedObjects(createCredentials({ authentication: 'token' }));
+
+    expect(config.spec.data).toEqual([{ secretKey: 'github_token', remoteRef: { key: SECRET_ARN, property: 'github_token' } }]);
+  });
+
+  test('creates a registry pull secret in each namespace', () => {
+    const objects = syncedObjects(createCredentials({
+      registry: 'containers.github.example.com',
+      pullSecretNamespaces: ['default', 'builds'],
+    }));
+
+    const pullSecrets = objects.filter(object => object.metadata.name === 'ghes-registry-secret');
+    expect(pullSecrets.map(object => object.metadata.namespace)).toEqual(['default', 'builds']);
+    const template = pullSecrets[0].spec.target?.template;
+    expect(template?.type).toBe('kubernetes.io/dockerconfigjson');
+    expect(JSON.parse(template?.data['.dockerconfigjson'] ?? '{}').auths)
+      .toHaveProperty(['containers.github.example.com', 'username'], '{{ .registry_username }}');
+  });
+
+  test('creates no pull secrets without a registry', () => {
+    expect(syncedObjects(createCredentials()).map(object => object.metadata.name)).toEqual(['github-credentials', 'github-config']);
+  });
+
+  test('rejects an invalid namespace', () => {
+    expect(() => createCredentials({ pullSecretNamespaces: ['Builds'] }))
+      .toThrow("Test/Credentials: 'Builds' is not a valid Kubernetes object name");
+  });
+});
@@ -0,0 +1,119 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+import { GitHubRunnerScaleSet, GitHubRunnerScaleSetProps } from '../lib/github-runner-scale-set';
+import { KarpenterNodePool } from '../lib/karpenter-node-pool';
+
+function createRunners(props: Partial<GitHubRunnerScaleSetProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+  });
+  const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+    cluster,
+    karpenterInstallation: new Construct(stack, 'Karpenter'),
+    nodeClassName: 'default',
+    role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+  });
+  const nodePool = new KarpenterNodePool(stack, 'Pool', {
+    nodeClass,
+    nodePoolName: 'github-runners',
+    requirements: [],
+    taints: [{ key: 'github-runners', value: 'true', effect: 'NoSchedule' }],
+  });
+  new GitHubRunnerScaleSet(stack, 'Runners', {
+    cluster,
+    nodePools: [nodePool],
+    githubUrl: 'https://github.example.com',
+    organization: 'platform',
+    githubConfigSecret: 'github-config',
+    scaleSets: [{ name: 'linux' }],
+    ...props,
+  });
+  return { stack };
+}
+
+describe('GitHubRunnerScaleSet', () => {
+  test('installs the controller on the system nodes', () => {
+    const { stack } = createRunners();
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'gha-runner-scale-set-controller',
+      Release: 'arc',
+      Repository: 'oci://ghcr.io/actions/actions-runner-controller-charts/gha-runner-scale-set-controller',
+      Version: '0.13.0',
+      Namespace: 'arc-systems',
+      Values: Match.serializedJson(Match.objectLike({
+        tolerations: [{ key: 'CriticalAddonsOnly', operator: 'Exists' }],
+      })),
+    });
+  });
+
+  test('schedules the runners onto the NodePool after the controller', () => {
+    const { stack } = createRunners({ scaleSets: [{ name: 'linux', labels: ['self-hosted'], minRunners: 1, maxRunners: 5 }] });
+
+    Template.fromStack(stack).hasResource('Custom::AWSCDK-EKS-HelmChart', {
+      Properties: {
+        Chart: 'gha-runner-scale-set',
+        Release: 'linux',
+        Namespace: 'arc-runners',
+        Values: Match.serializedJson(Match.objectLike({
+          githubConfigUrl: 'https://github.example.com/platform',
+          githubConfigSecret: 'github-config',
+          runnerScaleSetName: 'linux',
+          scaleSetLabels: ['self-hosted', 'X64'],
+          minRunners: 1,
+          maxRunners: 5,
+          controllerServiceAccount: { namespace: 'arc-systems', name: 'arc-gha-rs-controller' },
+          template: {
+            metadata: { annotations: { 'karpenter.sh/do-not-disrupt': 'true' } },
+            spec: Match.objectLike({
+              nodeSelector: { 'kubernetes.io/arch': 'amd64' },
+              affinity: {
+                nodeAffinity: {
+                  requiredDuringSchedulingIgnoredDuringExecution: {
+                    nodeSelectorTerms: [{ matchExpressions: [{ key: 'karpenter.sh/nodepool', operator: 'In', values: ['github-runners'] }] }],
+                  },
+                },
+              },
+              tolerations: [{ key: 'github-runners', operator: 'Equal', value: 'true', effect: 'NoSchedule' }],
+              containers: [Match.objectLike({ name: 'runner', image: 'ghcr.io/actions/actions-runner:2.328.0' })],
+            }),
+          },
+        })),
+      },
+      DependsOn: Match.arrayWith([Match.stringLikeRegexp('^Pool'), Match.stringLikeRegexp('^RunnersController')]),
+    });
+  });
+
+  test('gives kubernetes-mode runners a work volume claim', () => {
+    const { stack } = createRunners({ scaleSets: [{ name: 'containers', containerMode: 'kubernetes', workVolumeSize: '50Gi' }] });
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Release: 'containers',
+      Values: Match.serializedJson(Match.objectLike({
+        containerMode: {
+          type: 'kubernetes',
+          kubernetesModeWorkVolumeClaim: {
+            accessModes: ['ReadWriteOnce'],
+            storageClassName: 'gp3',
+            resources: { requests: { storage: '50Gi' } },
+          },
+        },
+      })),
+    });
+  });
+
+  test.each<[string, Partial<GitHubRunnerScaleSetProps>, string]>([
+    ['a GitHub URL with a path', { githubUrl: 'https://github.example.com/api' }, "githubUrl 'https://github.example.com/api' must be an https URL without a path"],
+    ['no scale sets', { scaleSets: [] }, 'at least one scale set is required'],
+    ['more idle than maximum runners', { scaleSets: [{ name: 'linux', minRunners: 5, maxRunners: 2 }] }, "scale set 'linux' needs 0 <= minRunners <= maxRunners"],
+    ['a duplicate scale set', { scaleSets: [{ name: 'linux' }, { name: 'linux' }] }, "scale set 'linux' is defined more than once"],
+  ])('rejects %s', (_, props, message) => {
+    expect(() => createRunners(props)).toThrow(`Test/Runners: ${message}`);
+  });
+});
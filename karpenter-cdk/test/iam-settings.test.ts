@@ -0,0 +1,66 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { applyIamSettings, IamSettings, prefixedName, validateIamSettings } from '../lib/iam-settings';
+
+const BOUNDARY_ARN = 'arn:aws:iam::111111111111:policy/boundary';
+
+function createIamResources(settings: IamSettings | undefined) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const role = new iam.Role(stack, 'Role', { assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com') });
+  new iam.Role(stack, 'PathRole', { assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com'), path: '/explicit/' });
+  new iam.CfnInstanceProfile(stack, 'InstanceProfile', { roles: [role.roleName] });
+  new iam.ManagedPolicy(stack, 'Policy', {
+    statements: [new iam.PolicyStatement({ actions: ['s3:GetObject'], resources: ['*'] })],
+  });
+  applyIamSettings(stack, settings);
+  return Template.fromStack(stack);
+}
+
+describe('applyIamSettings', () => {
+  test('applies the permissions boundary and path to every IAM resource', () => {
+    const template = createIamResources({ permissionsBoundaryArn: BOUNDARY_ARN, path: '/platform/' });
+
+    template.hasResourceProperties('AWS::IAM::Role', { PermissionsBoundary: BOUNDARY_ARN, Path: '/platform/' });
+    template.hasResourceProperties('AWS::IAM::InstanceProfile', { Path: '/platform/' });
+    template.hasResourceProperties('AWS::IAM::ManagedPolicy', { Path: '/platform/' });
+  });
+
+  test('keeps a path set on the resource', () => {
+    const template = createIamResources({ path: '/platform/' });
+
+    template.hasResourceProperties('AWS::IAM::Role', { Path: '/explicit/' });
+  });
+
+  test('leaves IAM resources unchanged without settings', () => {
+    const template = createIamResources(undefined);
+
+    expect(Object.values(template.findResources('AWS::IAM::Role')).map(role => role.Properties.PermissionsBoundary))
+      .toEqual([undefined, undefined]);
+  });
+
+  test('rejects invalid settings', () => {
+    expect(() => createIamResources({ path: 'platform' })).toThrow("IAM path 'platform' must begin and end with '/'");
+  });
+});
+
+describe('validateIamSettings', () => {
+  test.each<[IamSettings, string]>([
+    [{ path: '/platform' }, "IAM path '/platform' must begin and end with '/'"],
+    [{ path: '/plat form/' }, "IAM path '/plat form/' must begin and end with '/'"],
+    [{ namePrefix: 'team.' }, "Name prefix 'team.' may only contain alphanumerics, '-' and '_'"],
+  ])('rejects %p', (settings, message) => {
+    expect(() => validateIamSettings(settings)).toThrow(message);
+  });
+
+  test('accepts nested paths', () => {
+    expect(() => validateIamSettings({ path: '/platform/karpenter/', namePrefix: 'team-a_' })).not.toThrow();
+  });
+});
+
+describe('prefixedName', () => {
+  test('prefixes fixed names', () => {
+    expect(prefixedName({ namePrefix: 'team-a-' }, 'KarpenterNodeRole')).toBe('team-a-KarpenterNodeRole');
+    expect(prefixedName(undefined, 'KarpenterNodeRole')).toBe('KarpenterNodeRole');
+  });
+});
@@ -0,0 +1,129 @@
+import { InstanceRequirements } from '../lib/instance-requirements';
+
+describe('InstanceRequirements', () => {
+  test('renders inclusive bounds as strict Karpenter comparisons', () => {
+    const requirements = new InstanceRequirements({
+      categories: ['general', 'compute'],
+      minGeneration: 5,
+      cpu: { min: 4, max: 16 },
+      memory: { min: '8Gi', max: '64Gi' },
+      minNetworkBandwidth: 1000,
+    });
+
+    expect(requirements.render()).toEqual([
+      { key: 'kubernetes.io/arch', operator: 'In', values: ['amd64'] },
+      { key: 'karpenter.k8s.aws/instance-category', operator: 'In', values: ['m', 'c'] },
+      { key: 'karpenter.k8s.aws/instance-generation', operator: 'Gt', values: ['4'] },
+      { key: 'karpenter.k8s.aws/instance-cpu', operator: 'Gt', values: ['3'] },
+      { key: 'karpenter.k8s.aws/instance-cpu', operator: 'Lt', values: ['17'] },
+      { key: 'karpenter.k8s.aws/instance-memory', operator: 'Gt', values: ['8191'] },
+      { key: 'karpenter.k8s.aws/instance-memory', operator: 'Lt', values: ['65537'] },
+      { key: 'karpenter.k8s.aws/instance-network-bandwidth', operator: 'Gt', values: ['999'] },
+    ]);
+  });
+
+  test('renders local NVMe and excluded families', () => {
+    const requirements = new InstanceRequirements({
+      architectures: ['arm64'],
+      excludedFamilies: ['c7gn'],
+      localNvme: false,
+    });
+
+    expect(requirements.render()).toEqual([
+      { key: 'kubernetes.io/arch', operator: 'In', values: ['arm64'] },
+      { key: 'karpenter.k8s.aws/instance-family', operator: 'NotIn', values: ['c7gn'] },
+      { key: 'karpenter.k8s.aws/instance-local-nvme', operator: 'DoesNotExist', values: undefined },
+    ]);
+  });
+
+  test('renders explicit instance types alone', () => {
+    const requirements = new InstanceRequirements({ instanceTypes: ['m6i.large', 'c6i.xlarge'] });
+
+    expect(requirements.render()).toEqual([
+      { key: 'kubernetes.io/arch', operator: 'In', values: ['amd64'] },
+      { key: 'node.kubernetes.io/instance-type', operator: 'In', values: ['m6i.large', 'c6i.xlarge'] },
+    ]);
+  });
+
+  describe('with', () => {
+    const base = new InstanceRequirements({ categories: ['general'], cpu: { min: 4, max: 16 } });
+
+    test('replaces the attributes that are set', () => {
+      expect(base.with({ cpu: { min: 8 }, minGeneration: undefined }).props).toEqual({
+        categories: ['general'],
+        cpu: { min: 8 },
+      });
+    });
+
+    test('replaces the attribute selection with explicit instance types', () => {
+      expect(base.with({ architectures: ['arm64'], instanceTypes: ['m7g.xlarge'] }).props).toEqual({
+        architectures: ['arm64'],
+        instanceTypes: ['m7g.xlarge'],
+      });
+    });
+
+    test('replaces explicit instance types with attributes', () => {
+      const explicit = new InstanceRequirements({ instanceTypes: ['m6i.large'] });
+
+      expect(explicit.with({ categories: ['compute'] }).props).toEqual({
+        categories: ['compute'],
+        instanceTypes: undefined,
+      });
+    });
+  });
+
+  describe('validation', () => {
+    test.each<[string, ConstructorParameters<typeof InstanceRequirements>[0], string]>([
+      ['no architectures', { architectures: [] }, 'need at least one architecture'],
+      ['no categories', { categories: [] }, 'need at least one category'],
+      ['instance types mixed with attributes', { instanceTypes: ['m6i.large'], cpu: { min: 2 } }, 'cannot combine instanceTypes with cpu'],
+      ['an empty instance type list', { instanceTypes: [] }, 'need at least one instance type'],
+      [
+        'instance types of another architecture',
+        { architectures: ['amd64'], instanceTypes: ['m6i.large', 'm7g.large'] },
+        'list m7g.large, which do not match the architectures amd64',
+      ],
+      ['fractional vCPUs', { cpu: { min: 1.5 } }, 'cpu.min must be a positive integer, got 1.5'],
+      ['a zero generation', { minGeneration: 0 }, 'minGeneration must be a positive integer, got 0'],
+      ['an inverted vCPU range', { cpu: { min: 16, max: 4 } }, 'cpu.min 16 exceeds cpu.max 4'],
+      ['an inverted memory range', { memory: { min: '64Gi', max: '8Gi' } }, 'memory.min 64Gi exceeds memory.max 8Gi'],
+    ])('rejects %s', (_, props, message) => {
+      expect(() => new InstanceRequirements(props)).toThrow(`Instance requirements ${message}`);
+    });
+
+    test('rejects more memory than the vCPU range allows', () => {
+      expect(() => new InstanceRequirements({ categories: ['compute'], cpu: { max: 4 }, memory: { min: '16Gi' } }))
+        .toThrow('ask for at least 16Gi of memory, but compute instances with at most 4 vCPUs have no more than 8Gi');
+    });
+
+    test('rejects less memory than the vCPU range needs', () => {
+      expect(() => new InstanceRequirements({ categories: ['memory'], cpu: { min: 8 }, memory: { max: '32Gi' } }))
+        .toThrow('allow at most 32Gi of memory, but memory instances with at least 8 vCPUs have 64Gi or more');
+    });
+
+    test('accepts memory any selected category can provide', () => {
+      expect(() => new InstanceRequirements({ categories: ['compute', 'memory'], cpu: { max: 4 }, memory: { min: '16Gi' } }))
+        .not.toThrow();
+    });
+
+
+    test('accepts accelerated instances with 2 GiB per vCPU', () => {
+      expect(() => new InstanceRequirements({ categories: ['accelerated'], cpu: { min: 8 }, memory: { max: '16Gi' } }))
+        .not.toThrow();
+    });
+
+    test('accepts generations newer than the ones released so far', () => {
+      expect(() => new InstanceRequirements({ architectures: ['arm64'], minGeneration: 9 })).not.toThrow();
+    });
+
+    test('rejects local NVMe on burstable instances', () => {
+      expect(() => new InstanceRequirements({ categories: ['burstable'], localNvme: true }))
+        .toThrow('ask for local NVMe storage, which burstable instances do not have');
+    });
+
+    test('rejects more bandwidth than burstable instances have', () => {
+      expect(() => new InstanceRequirements({ categories: ['burstable'], minNetworkBandwidth: 10000 }))
+        .toThrow('ask for 10000 Mbps, above the 5000 Mbps of burstable instances');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import { InterruptionQueue, InterruptionQueueProps } from '../lib/interruption-queue';
+
+function createQueue(props: Partial<InterruptionQueueProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  new InterruptionQueue(stack, 'Interruption', { queueName: 'test', ...props });
+  return Template.fromStack(stack);
+}
+
+describe('InterruptionQueue', () => {
+  test('keeps interruption notices for five minutes before dead-lettering them', () => {
+    const template = createQueue();
+
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'test',
+      MessageRetentionPeriod: 300,
+      SqsManagedSseEnabled: true,
+      RedrivePolicy: {
+        deadLetterTargetArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^InterruptionDeadLetterQueue'), 'Arn'] },
+        maxReceiveCount: 5,
+      },
+    });
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      MessageRetentionPeriod: 1209600,
+      QueueName: Match.absent(),
+    });
+  });
+
+  test('encrypts both queues with the customer-managed key', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+    const encryptionKey = new kms.Key(stack, 'Key');
+    new InterruptionQueue(stack, 'Interruption', { queueName: 'test', encryptionKey });
+
+    const queues = Template.fromStack(stack).findResources('AWS::SQS::Queue', {
+      Properties: { KmsMasterKeyId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^Key'), 'Arn'] } },
+    });
+    expect(Object.keys(queues)).toHaveLength(2);
+  });
+
+  test('routes every interruption event to the queue', () => {
+    const template = createQueue();
+
+    template.resourceCountIs('AWS::Events::Rule', 4);
+    for (const detailType of [
+      'AWS Health Event',
+      'EC2 Spot Instance Interruption Warning',
+      'EC2 Instance Rebalance Recommendation',
+      'EC2 Instance State-change Notification',
+    ]) {
+      template.hasResourceProperties('AWS::Events::Rule', {
+        EventPattern: Match.objectLike({ 'detail-type': [detailType] }),
+        Targets: [Match.objectLike({
+          Arn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^InterruptionQueue'), 'Arn'] },
+          DeadLetterConfig: { Arn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^InterruptionDeadLetterQueue'), 'Arn'] } },
+        })],
+      });
+    }
+  });
+
+  test('only accepts events from this account over TLS', () => {
+    createQueue().hasResourceProperties('AWS::SQS::QueuePolicy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Effect: 'Deny', Condition: { Bool: { 'aws:SecureTransport': 'false' } } }),
+          Match.objectLike({
+            Sid: 'AllowEventDelivery',
+            Action: 'sqs:SendMessage',
+            Principal: { Service: ['events.amazonaws.com', 'sqs.amazonaws.com'] },
+            Condition: { StringEquals: { 'aws:SourceAccount': { Ref: 'AWS::AccountId' } } },
+          }),
+        ]),
+      },
+    });
+  });
+
+  test('alarms on message age, queue depth and dead letters', () => {
+    const template = createQueue({ maxMessageAge: cdk.Duration.minutes(5), maxQueueDepth: 50 });
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      MetricName: 'ApproximateAgeOfOldestMessage',
+      Threshold: 300,
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      MetricName: 'ApproximateNumberOfMessagesVisible',
+      Threshold: 50,
+      Dimensions: [{ Name: 'QueueName', Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('^InterruptionQueue'), 'QueueName'] } }],
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      MetricName: 'ApproximateNumberOfMessagesVisible',
+      Threshold: 1,
+      ComparisonOperator: 'GreaterThanOrEqualToThreshold',
+      Dimensions: [{ Name: 'QueueName', Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('^InterruptionDeadLetterQueue'), 'QueueName'] } }],
+    });
+  });
+});
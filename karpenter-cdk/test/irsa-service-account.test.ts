@@ -0,0 +1,75 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { IrsaServiceAccount, IrsaServiceAccountProps } from '../lib/irsa-service-account';
+
+const PROVIDER_ARN = 'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE';
+
+function createServiceAccount(props: Partial<IrsaServiceAccountProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc', PROVIDER_ARN),
+  });
+  new IrsaServiceAccount(stack, 'App', {
+    cluster,
+    namespace: 'apps',
+    serviceAccountName: 'app',
+    ...props,
+  });
+  return stack;
+}
+
+describe('IrsaServiceAccount', () => {
+  test('trusts only the service account through the cluster OIDC provider', () => {
+    const template = Template.fromStack(createServiceAccount());
+
+    template.hasResourceProperties('AWS::IAM::Role', {
+      Description: 'IAM Role for the app service account in apps',
+      AssumeRolePolicyDocument: {
+        Statement: [{
+          Action: 'sts:AssumeRoleWithWebIdentity',
+          Effect: 'Allow',
+          Principal: { Federated: PROVIDER_ARN },
+          Condition: { StringEquals: { 'Fn::GetAtt': [Match.stringLikeRegexp('^AppTrustConditions'), 'Value'] } },
+        }],
+      },
+    });
+
+    const [conditions] = Object.values(template.findResources('Custom::AWSCDKCfnJson'));
+    expect(JSON.stringify(conditions.Properties.Value)).toContain(':sub\\":\\"system:serviceaccount:apps:app\\"');
+    expect(JSON.stringify(conditions.Properties.Value)).toContain(':aud\\":\\"sts.amazonaws.com\\"');
+  });
+
+  test('annotates the service account with the role', () => {
+    const template = Template.fromStack(createServiceAccount({ labels: { team: 'platform' } }));
+
+    template.hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: {
+        'Fn::Join': ['', Match.arrayWith([
+          Match.stringLikeRegexp('"kind":"ServiceAccount","metadata":\\{"name":"app","namespace":"apps","labels":\\{[^}]*"team":"platform"\\},"annotations":\\{"eks.amazonaws.com/role-arn":"$'),
+          { 'Fn::GetAtt': [Match.stringLikeRegexp('^AppRole'), 'Arn'] },
+        ])],
+      },
+    });
+  });
+
+  test('grants the policy statements to the role', () => {
+    const template = Template.fromStack(createServiceAccount({
+      policyStatements: [new iam.PolicyStatement({ actions: ['s3:GetObject'], resources: ['arn:aws:s3:::bucket/*'] })],
+    }));
+
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: [{ Action: 's3:GetObject', Effect: 'Allow', Resource: 'arn:aws:s3:::bucket/*' }],
+      },
+      Roles: [{ Ref: Match.stringLikeRegexp('^AppRole') }],
+    });
+  });
+
+  test('rejects an invalid service account name', () => {
+    expect(() => createServiceAccount({ serviceAccountName: 'App' })).toThrow("Test/App: 'App' is not a valid Kubernetes object name");
+  });
+});
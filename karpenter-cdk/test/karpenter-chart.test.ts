@@ -0,0 +1,99 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import { KarpenterChart, KarpenterChartProps } from '../lib/karpenter-chart';
+
+function createChart(options: Partial<KarpenterChartProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    clusterEndpoint: 'https://test.eks.amazonaws.com',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+  });
+  new KarpenterChart(stack, 'Karpenter', {
+    cluster,
+    namespace: 'karpenter',
+    serviceAccountName: 'karpenter',
+    interruptionQueueName: 'test',
+    ...options,
+  });
+  return Template.fromStack(stack);
+}
+
+describe('KarpenterChart', () => {
+  test('installs the CRD chart and then the controller chart at the same version', () => {
+    const template = createChart();
+
+    template.hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'karpenter-crd',
+      Repository: 'oci://public.ecr.aws/karpenter/karpenter-crd',
+      Version: '1.6.1',
+      Namespace: 'karpenter',
+    });
+    template.hasResource('Custom::AWSCDK-EKS-HelmChart', {
+      Properties: {
+        Chart: 'karpenter',
+        Repository: 'oci://public.ecr.aws/karpenter/karpenter',
+        Version: '1.6.1',
+        SkipCrds: true,
+      },
+      DependsOn: Match.arrayWith([Match.stringLikeRegexp('^KarpenterCrds')]),
+    });
+  });
+
+  test('renders the typed settings into the controller values', () => {
+    const template = createChart({
+      logLevel: 'debug',
+      batchMaxDuration: cdk.Duration.seconds(30),
+      featureGates: { nodeRepair: true },
+      replicas: 1,
+    });
+
+    template.hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'karpenter',
+      Values: Match.serializedJson(Match.objectLike({
+        replicas: 1,
+        logLevel: 'debug',
+        serviceAccount: { create: false, name: 'karpenter' },
+        settings: {
+          clusterName: 'test',
+          clusterEndpoint: 'https://test.eks.amazonaws.com',
+          interruptionQueue: 'test',
+          batchMaxDuration: '30s',
+          batchIdleDuration: '1s',
+          featureGates: { nodeRepair: true },
+        },
+        controller: {
+          resources: { requests: { cpu: '1', memory: '1Gi' }, limits: { cpu: '1', memory: '1Gi' } },
+        },
+      })),
+    });
+  });
+
+  test('runs without the pricing API in an isolated VPC', () => {
+    createChart({ isolatedVpc: true }).hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'karpenter',
+      Values: Match.serializedJson(Match.objectLike({ settings: Match.objectLike({ isolatedVPC: true }) })),
+    });
+  });
+
+  test('pulls the controller image from the given registry', () => {
+    createChart({ imageRegistry: '111111111111.dkr.ecr.us-west-2.amazonaws.com/ecr-public' })
+      .hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+        Chart: 'karpenter',
+        Values: Match.serializedJson(Match.objectLike({
+          controller: Match.objectLike({ image: { repository: '111111111111.dkr.ecr.us-west-2.amazonaws.com/ecr-public/karpenter/controller' } }),
+        })),
+      });
+  });
+
+  test('lets additional values replace top-level keys', () => {
+    const template = createChart({ version: '1.5.0', values: { replicas: 3, tolerations: [] } });
+
+    template.hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'karpenter',
+      Version: '1.5.0',
+      Values: Match.serializedJson(Match.objectLike({ replicas: 3, tolerations: [] })),
+    });
+  });
+});
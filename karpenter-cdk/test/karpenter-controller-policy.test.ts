@@ -0,0 +1,99 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { KarpenterControllerPolicy, KarpenterControllerPolicyProps, karpenterMinorVersion } from '../lib/karpenter-controller-policy';
+
+function createPolicy(karpenterVersion: string, props: Partial<KarpenterControllerPolicyProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  new KarpenterControllerPolicy(stack, 'ControllerPolicy', {
+    clusterName: 'test',
+    karpenterInterruptionQueueArn: 'arn:aws:sqs:us-west-2:111111111111:test',
+    karpenterNodeRoleArn: 'arn:aws:iam::111111111111:role/node',
+    karpenterVersion,
+    ...props,
+  });
+  return Template.fromStack(stack);
+}
+
+const CAPACITY_RESERVATION_ARN = { 'Fn::Join': ['', Match.arrayWith([':*:capacity-reservation/*'])] };
+
+describe('KarpenterControllerPolicy', () => {
+  test('allows capacity reservations', () => {
+    createPolicy('1.6.1').hasResourceProperties('AWS::IAM::ManagedPolicy', {
+      ManagedPolicyName: 'KarpenterControllerPolicy-test',
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'AllowScopedEC2InstanceAccessActions',
+            Resource: Match.arrayWith([CAPACITY_RESERVATION_ARN]),
+          }),
+          Match.objectLike({
+            Sid: 'AllowRegionalReadActions',
+            Action: Match.arrayWith(['ec2:DescribeCapacityReservations']),
+          }),
+        ]),
+      },
+    });
+  });
+
+  test('rejects releases whose policy is not modelled', () => {
+    expect(() => createPolicy('1.2.0')).toThrow('Karpenter 1.2.0 has no controller policy (supported releases: 1.3, 1.4, 1.5, 1.6)');
+  });
+
+  test('scopes the interruption queue and node role statements', () => {
+    createPolicy('1.6.1').hasResourceProperties('AWS::IAM::ManagedPolicy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'AllowInterruptionQueueActions',
+            Resource: 'arn:aws:sqs:us-west-2:111111111111:test',
+          }),
+          Match.objectLike({
+            Sid: 'AllowPassingInstanceRole',
+            Action: 'iam:PassRole',
+            Resource: 'arn:aws:iam::111111111111:role/node',
+          }),
+        ]),
+      },
+    });
+  });
+
+  test('lets EC2 use the volume encryption keys', () => {
+    const keyArn = 'arn:aws:kms:us-west-2:111111111111:key/1234abcd-12ab-34cd-56ef-1234567890ab';
+
+    createPolicy('1.6.1', { kmsKeyArns: [keyArn] }).hasResourceProperties('AWS::IAM::ManagedPolicy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Sid: 'AllowScopedVolumeEncryption',
+            Resource: keyArn,
+            Condition: { StringEquals: { 'kms:ViaService': { 'Fn::Join': ['', ['ec2.', { Ref: 'AWS::Region' }, '.amazonaws.com']] } } },
+          }),
+          Match.objectLike({
+            Sid: 'AllowScopedVolumeEncryptionGrants',
+            Action: 'kms:CreateGrant',
+            Resource: keyArn,
+          }),
+        ]),
+      },
+    });
+  });
+});
+
+describe('karpenterMinorVersion', () => {
+  test.each([
+    ['1.6.1', '1.6'],
+    ['v1.3.2', '1.3'],
+    ['1.3.0-rc.1', '1.3'],
+  ])('returns the release of %s', (version, minor) => {
+    expect(karpenterMinorVersion(version)).toBe(minor);
+  });
+
+  test('rejects a malformed version', () => {
+    expect(() => karpenterMinorVersion('1.6')).toThrow("'1.6' is not a valid Karpenter version");
+  });
+
+  test('rejects a release without a policy', () => {
+    expect(() => karpenterMinorVersion('0.37.0'))
+      .toThrow('Karpenter 0.37.0 has no controller policy (supported releases: 1.3, 1.4, 1.5, 1.6)');
+  });
+});
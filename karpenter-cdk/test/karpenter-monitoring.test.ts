@@ -0,0 +1,129 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+import { InterruptionQueue } from '../lib/interruption-queue';
+import { KarpenterMonitoring, KarpenterMonitoringProps } from '../lib/karpenter-monitoring';
+import { KarpenterNodePool } from '../lib/karpenter-node-pool';
+
+function createMonitoring(props: Partial<KarpenterMonitoringProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc',
+      'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE'),
+  });
+  const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+    cluster,
+    karpenterInstallation: new Construct(stack, 'Karpenter'),
+    nodeClassName: 'default',
+    role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+  });
+  const nodePool = new KarpenterNodePool(stack, 'Pool', {
+    nodeClass,
+    nodePoolName: 'workers',
+    requirements: [],
+    limits: { cpu: '100', memory: '400Gi' },
+  });
+  new KarpenterMonitoring(stack, 'Monitoring', {
+    cluster,
+    interruptionQueue: new InterruptionQueue(stack, 'Interruption', { queueName: 'test' }),
+    nodePools: [nodePool],
+    ...props,
+  });
+  return stack;
+}
+
+/**
+ * Matches the scraped usage metric of one resource type of the `workers` NodePool
+ */
+function usageMetric(resourceType: string) {
+  return {
+    Namespace: 'Karpenter',
+    MetricName: 'karpenter_nodepools_usage',
+    Dimensions: Match.arrayWith([
+      { Name: 'nodepool', Value: 'workers' },
+      { Name: 'resource_type', Value: resourceType },
+    ]),
+  };
+}
+
+describe('KarpenterMonitoring', () => {
+  test('collects the controller metrics into a log group the agent can write to', () => {
+    const template = Template.fromStack(createMonitoring());
+
+    template.hasResourceProperties('AWS::Logs::LogGroup', {
+      LogGroupName: '/aws/eks/test/karpenter',
+      RetentionInDays: 30,
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: ['logs:CreateLogStream', 'logs:DescribeLogStreams', 'logs:PutLogEvents'] }),
+        ]),
+      },
+    });
+  });
+
+  test.each([
+    [{}, 'public.ecr.aws/cloudwatch-agent/cloudwatch-agent:1.300032.2b361'],
+    [
+      { imageRegistry: '111111111111.dkr.ecr.us-west-2.amazonaws.com/ecr-public' },
+      '111111111111.dkr.ecr.us-west-2.amazonaws.com/ecr-public/cloudwatch-agent/cloudwatch-agent:1.300032.2b361',
+    ],
+  ])('runs a pinned agent image', (props, image) => {
+    const manifests = Template.fromStack(createMonitoring(props)).findResources('Custom::AWSCDK-EKS-KubernetesResource');
+
+    expect(JSON.stringify(manifests)).toContain(`\\"image\\":\\"${image}\\"`);
+  });
+
+  test('alarms when a NodePool approaches its limits', () => {
+    const template = Template.fromStack(createMonitoring({ limitSaturationPercent: 80 }));
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Metrics: [Match.objectLike({ MetricStat: Match.objectLike({ Metric: usageMetric('cpu') }) })],
+      Threshold: 80,
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Metrics: [Match.objectLike({ MetricStat: Match.objectLike({ Metric: usageMetric('memory') }) })],
+      Threshold: 400 * 1024 ** 3 * 0.8,
+    });
+  });
+
+  test('alarms on launch failures and unschedulable pods', () => {
+    const template = Template.fromStack(createMonitoring());
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      MetricName: 'karpenter_cloudprovider_errors_total',
+      Dimensions: Match.arrayWith([{ Name: 'method', Value: 'Create' }]),
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      MetricName: 'karpenter_scheduler_unschedulable_pods_count',
+      Dimensions: [{ Name: 'ClusterName', Value: 'test' }],
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', { DashboardName: 'Karpenter-test' });
+  });
+
+  test('notifies the alarm topic of every alarm, including the interruption queue alarms', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Topic');
+    const template = Template.fromStack(createMonitoring({
+      alarmTopic: sns.Topic.fromTopicArn(stack, 'Alarms', 'arn:aws:sns:us-west-2:111111111111:alarms'),
+    }));
+
+    const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm'));
+    expect(alarms).toHaveLength(7);
+    for (const alarm of alarms) {
+      expect(alarm.Properties.AlarmActions).toEqual(['arn:aws:sns:us-west-2:111111111111:alarms']);
+      expect(alarm.Properties.OKActions).toEqual(['arn:aws:sns:us-west-2:111111111111:alarms']);
+    }
+  });
+
+  test('rejects an out of range saturation percentage', () => {
+    expect(() => createMonitoring({ limitSaturationPercent: 0 }))
+      .toThrow('Test/Monitoring: limitSaturationPercent must be between 1 and 100');
+  });
+});
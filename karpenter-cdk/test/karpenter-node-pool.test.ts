@@ -0,0 +1,135 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+import { KarpenterNodePool } from '../lib/karpenter-node-pool';
+
+function createNodeClass(nodeClassName = 'default') {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+  });
+  const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+    cluster,
+    karpenterInstallation: new Construct(stack, 'Karpenter'),
+    nodeClassName,
+    role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+  });
+  return { stack, nodeClass };
+}
+
+describe('Ec2NodeClass', () => {
+  test('discovers subnets and security groups by the cluster tag', () => {
+    const { stack } = createNodeClass();
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: Match.serializedJson([Match.objectLike({
+        apiVersion: 'karpenter.k8s.aws/v1',
+        kind: 'EC2NodeClass',
+        metadata: { name: 'default' },
+        spec: {
+          amiFamily: 'Bottlerocket',
+          subnetSelectorTerms: [{ tags: { 'karpenter.sh/discovery': 'test' } }],
+          securityGroupSelectorTerms: [{ tags: { 'karpenter.sh/discovery': 'test' } }],
+          role: 'node',
+          tags: { 'karpenter.sh/discovery': 'test' },
+        },
+      })]),
+    });
+  });
+
+  test('launches nodes with an existing instance profile', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+    new Ec2NodeClass(stack, 'NodeClass', {
+      cluster: eks.Cluster.fromClusterAttributes(stack, 'Cluster', { clusterName: 'test', kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl' }),
+      karpenterInstallation: new Construct(stack, 'Karpenter'),
+      nodeClassName: 'default',
+      instanceProfile: 'KarpenterNodeInstanceProfile-test',
+    });
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: Match.serializedJson([Match.objectLike({
+        spec: Match.objectLike({ instanceProfile: 'KarpenterNodeInstanceProfile-test', role: Match.absent() }),
+      })]),
+    });
+  });
+
+  test('rejects both a role and an instance profile', () => {
+    const { stack, nodeClass } = createNodeClass();
+
+    expect(() => new Ec2NodeClass(stack, 'ProfileNodeClass', {
+      cluster: nodeClass.cluster,
+      karpenterInstallation: nodeClass.karpenterInstallation,
+      nodeClassName: 'profile',
+      role: iam.Role.fromRoleArn(stack, 'ProfileRole', 'arn:aws:iam::111111111111:role/node'),
+      instanceProfile: 'KarpenterNodeInstanceProfile-test',
+    })).toThrow('Test/ProfileNodeClass: specify either role or instanceProfile');
+  });
+
+  test('rejects an invalid object name', () => {
+    expect(() => createNodeClass('Default_Class')).toThrow("Test/NodeClass: 'Default_Class' is not a valid Kubernetes object name");
+  });
+});
+
+describe('KarpenterNodePool', () => {
+  test('references its EC2NodeClass and is applied after it', () => {
+    const { stack, nodeClass } = createNodeClass();
+    new KarpenterNodePool(stack, 'Pool', {
+      nodeClass,
+      nodePoolName: 'workers',
+      requirements: [{ key: 'kubernetes.io/arch', operator: 'In', values: ['amd64'] }],
+      taints: [{ key: 'dedicated', value: 'workers', effect: 'NoSchedule' }],
+      expireAfter: '24h',
+      terminationGracePeriod: '6h',
+      disruption: { consolidationPolicy: 'WhenEmpty', consolidateAfter: '30s' },
+      limits: { cpu: '100' },
+    });
+
+    const template = Template.fromStack(stack);
+    template.hasResource('Custom::AWSCDK-EKS-KubernetesResource', {
+      Properties: {
+        Manifest: Match.serializedJson([Match.objectLike({
+          apiVersion: 'karpenter.sh/v1',
+          kind: 'NodePool',
+          metadata: { name: 'workers' },
+          spec: {
+            template: {
+              spec: {
+                requirements: [{ key: 'kubernetes.io/arch', operator: 'In', values: ['amd64'] }],
+                nodeClassRef: { group: 'karpenter.k8s.aws', kind: 'EC2NodeClass', name: 'default' },
+                taints: [{ key: 'dedicated', value: 'workers', effect: 'NoSchedule' }],
+                expireAfter: '24h',
+                terminationGracePeriod: '6h',
+              },
+            },
+            disruption: { consolidationPolicy: 'WhenEmpty', consolidateAfter: '30s' },
+            limits: { cpu: '100' },
+          },
+        })]),
+      },
+      DependsOn: Match.arrayWith([Match.stringLikeRegexp('^NodeClass')]),
+    });
+  });
+
+  test('rejects an invalid object name', () => {
+    const { stack, nodeClass } = createNodeClass();
+
+    expect(() => new KarpenterNodePool(stack, 'Pool', { nodeClass, nodePoolName: 'Workers', requirements: [] }))
+      .toThrow("Test/Pool: 'Workers' is not a valid Kubernetes object name");
+  });
+
+  test('fails synthesis when the spec violates the Karpenter v1 schema', () => {
+    const { stack, nodeClass } = createNodeClass();
+    new KarpenterNodePool(stack, 'Pool', {
+      nodeClass,
+      nodePoolName: 'workers',
+      requirements: [{ key: 'karpenter.sh/nodepool', operator: 'Exists' }],
+    });
+
+    expect(() => Template.fromStack(stack))
+      .toThrow("[Test/Pool] spec.template.spec.requirements[0].key: 'karpenter.sh/nodepool' is restricted to Karpenter");
+  });
+});
@@ -0,0 +1,182 @@
+import { validateEc2NodeClass, validateNodePool } from '../lib/karpenter-schema';
+
+function nodePool(spec: { template?: Record<string, unknown>; disruption?: Record<string, unknown>; [key: string]: unknown } = {}) {
+  const { template, ...rest } = spec;
+  return {
+    apiVersion: 'karpenter.sh/v1',
+    kind: 'NodePool',
+    metadata: { name: 'default' },
+    spec: {
+      template: {
+        spec: {
+          nodeClassRef: { group: 'karpenter.k8s.aws', kind: 'EC2NodeClass', name: 'default' },
+          requirements: [{ key: 'kubernetes.io/arch', operator: 'In', values: ['amd64'] }],
+          ...template,
+        },
+      },
+      ...rest,
+    },
+  };
+}
+
+function budgets(...entries: Array<Record<string, unknown>>) {
+  return nodePool({ disruption: { consolidationPolicy: 'WhenEmpty', budgets: entries } });
+}
+
+function nodeClass(spec: Record<string, unknown> = {}) {
+  return {
+    apiVersion: 'karpenter.k8s.aws/v1',
+    kind: 'EC2NodeClass',
+    metadata: { name: 'default' },
+    spec: {
+      amiSelectorTerms: [{ alias: 'bottlerocket@latest' }],
+      subnetSelectorTerms: [{ tags: { 'karpenter.sh/discovery': 'demo' } }],
+      securityGroupSelectorTerms: [{ tags: { 'karpenter.sh/discovery': 'demo' } }],
+      role: 'KarpenterNodeRole',
+      ...spec,
+    },
+  };
+}
+
+describe('validateNodePool', () => {
+  test('accepts a valid NodePool', () => {
+    expect(validateNodePool(nodePool({
+      template: { expireAfter: '720h', terminationGracePeriod: '1h30m' },
+      disruption: { consolidationPolicy: 'WhenEmptyOrUnderutilized', consolidateAfter: '30s' },
+      limits: { cpu: '1000', memory: '1000Gi' },
+      weight: 10,
+    }))).toEqual([]);
+  });
+
+  test('reports every violation with its path', () => {
+    expect(validateNodePool(nodePool({ weight: 0, limits: { cpu: 'lots' } }))).toEqual([
+      expect.stringMatching(/^spec\.limits\.cpu: /),
+      'spec.weight: must be an integer between 1 and 100, got 0',
+    ]);
+  });
+
+  test.each<[string, Record<string, unknown>, string]>([
+    ['the v1beta1 API', { ...nodePool(), apiVersion: 'karpenter.sh/v1beta1' }, 'apiVersion: expected karpenter.sh/v1 NodePool, got karpenter.sh/v1beta1 NodePool'],
+    ['a namespace', { ...nodePool(), metadata: { name: 'default', namespace: 'karpenter' } }, 'metadata.namespace: NodePools are cluster-scoped and take no namespace'],
+    ['expireAfter under disruption', nodePool({ disruption: { expireAfter: '720h' } }), 'spec.disruption.expireAfter: moved to spec.template.spec.expireAfter in v1'],
+    ['a nodeClassRef apiVersion', nodePool({ template: { nodeClassRef: { apiVersion: 'karpenter.k8s.aws/v1beta1', kind: 'EC2NodeClass', name: 'default' } } }), 'spec.template.spec.nodeClassRef.apiVersion: was replaced by group in v1'],
+    ['the v1beta1 consolidation policy', nodePool({ disruption: { consolidationPolicy: 'WhenUnderutilized' } }), 'WhenUnderutilized was renamed WhenEmptyOrUnderutilized in v1'],
+    ['an invalid duration', nodePool({ template: { expireAfter: '30d' } }), "spec.template.spec.expireAfter: '30d' does not match"],
+  ])('rejects %s', (_, object, message) => {
+    expect(validateNodePool(object)).toContainEqual(expect.stringContaining(message));
+  });
+
+  test('rejects labels in the Karpenter domains', () => {
+    const object = nodePool();
+    const labelled: Record<string, unknown> = {
+      ...object,
+      spec: {
+        ...object.spec,
+        template: { ...object.spec.template, metadata: { labels: { 'karpenter.k8s.aws/instance-family': 'm5', 'team': 'ci' } } },
+      },
+    };
+
+    expect(validateNodePool(labelled)).toEqual(['spec.template.metadata.labels.karpenter.k8s.aws/instance-family: is restricted to Karpenter']);
+  });
+
+  test('rejects taints with an unknown effect', () => {
+    expect(validateNodePool(nodePool({ template: { taints: [{ key: 'dedicated', effect: 'NoExecution' }] } })))
+      .toEqual(['spec.template.spec.taints[0].effect: must be one of NoSchedule, PreferNoSchedule, NoExecute, got NoExecution']);
+  });
+
+  describe('requirements', () => {
+    const requirement = (entry: Record<string, unknown>) => validateNodePool(nodePool({ template: { requirements: [entry] } }));
+
+    test.each<[string, Record<string, unknown>, string]>([
+      ['an invalid key', { key: 'not a label', operator: 'Exists' }, "spec.template.spec.requirements[0].key: 'not a label' is not a valid label key"],
+      ['a restricted key', { key: 'karpenter.sh/nodepool', operator: 'Exists' }, "spec.template.spec.requirements[0].key: 'karpenter.sh/nodepool' is restricted to Karpenter"],
+      ['an unknown operator', { key: 'topology.kubernetes.io/zone', operator: 'Equals', values: ['a'] }, 'spec.template.spec.requirements[0].operator: must be one of In, NotIn, Exists, DoesNotExist, Gt, Lt, got Equals'],
+      ['In without values', { key: 'topology.kubernetes.io/zone', operator: 'In', values: [] }, 'spec.template.spec.requirements[0].values: In requires at least one value'],
+      ['Exists with values', { key: 'topology.kubernetes.io/zone', operator: 'Exists', values: ['a'] }, 'spec.template.spec.requirements[0].values: Exists takes no values'],
+      ['Gt with a non-integer', { key: 'karpenter.k8s.aws/instance-cpu', operator: 'Gt', values: ['4.5'] }, 'spec.template.spec.requirements[0].values: Gt takes a single non-negative integer'],
+      ['Lt with several values', { key: 'karpenter.k8s.aws/instance-cpu', operator: 'Lt', values: ['4', '8'] }, 'spec.template.spec.requirements[0].values: Lt takes a single non-negative integer'],
+      ['minValues above the values', { key: 'node.kubernetes.io/instance-type', operator: 'In', values: ['m5.large'], minValues: 2 }, 'spec.template.spec.requirements[0].minValues: 2 exceeds the 1 values'],
+      ['minValues out of range', { key: 'node.kubernetes.io/instance-type', operator: 'Exists', minValues: 51 }, 'spec.template.spec.requirements[0].minValues: must be an integer between 1 and 50, got 51'],
+    ])('rejects %s', (_, entry, message) => {
+      expect(requirement(entry)).toEqual([message]);
+    });
+
+    test('skips keys and values that are CloudFormation references', () => {
+      expect(requirement({ key: '${Token[TOKEN.1]}', operator: 'Gt', values: ['${Token[TOKEN.2]}'] })).toEqual([]);
+    });
+  });
+
+  describe('disruption budgets', () => {
+    test('accepts scheduled and unscheduled budgets', () => {
+      expect(validateNodePool(budgets(
+        { nodes: '0', schedule: '0 7 * * mon-fri', duration: '11h', reasons: ['Underutilized', 'Drifted'] },
+        { nodes: '10%' },
+        { nodes: '5', schedule: '@daily', duration: '1h30m' },
+      ))).toEqual([]);
+    });
+
+    test.each<[string, Record<string, unknown>, string]>([
+      ['a budget without nodes', {}, 'spec.disruption.budgets[0].nodes: is required'],
+      ['a percentage above 100', { nodes: '150%' }, "spec.disruption.budgets[0].nodes: '150%' does not match"],
+      ['a schedule without a duration', { nodes: '0', schedule: '0 7 * * *' }, 'spec.disruption.budgets[0]: schedule and duration must be set together'],
+      ['a duration in seconds', { nodes: '0', schedule: '0 7 * * *', duration: '90s' }, "spec.disruption.budgets[0].duration: '90s' does not match"],
+      ['an unknown reason', { nodes: '0', reasons: ['Expired'] }, 'spec.disruption.budgets[0].reasons[0]: must be one of Underutilized, Empty, Drifted, got Expired'],
+    ])('rejects %s', (_, budget, message) => {
+      expect(validateNodePool(budgets(budget))).toContainEqual(expect.stringContaining(message));
+    });
+
+    test.each([
+      '0 7 * * *',
+      '*/15 0-6,18-23 * * *',
+      '0 9 1 jan,jul ?',
+      '30 2 * * SUN',
+      '@weekly',
+    ])('accepts the schedule %s', schedule => {
+      expect(validateNodePool(budgets({ nodes: '0', schedule, duration: '1h' }))).toEqual([]);
+    });
+
+    test.each([
+      ['0 7 * *', 'has 4 fields, expected minute, hour, day of month, month and day of week'],
+      ['0 24 * * *', "has an invalid hour field '24', expected values between 0 and 23"],
+      ['60 7 * * *', "has an invalid minute field '60', expected values between 0 and 59"],
+      ['0 7 0 * *', "has an invalid day of month field '0', expected values between 1 and 31"],
+      ['0 7 * 13 *', "has an invalid month field '13', expected values between 1 and 12 or jan-dec"],
+      ['0 7 * * mon-fry', "has an invalid day of week field 'mon-fry', expected values between 0 and 6 or sun-sat"],
+      ['*/0 7 * * *', "has an invalid minute field '*/0', expected values between 0 and 59"],
+      ['@fortnightly', 'has 1 fields, expected minute, hour, day of month, month and day of week'],
+    ])('rejects the schedule %s', (schedule, problem) => {
+      expect(validateNodePool(budgets({ nodes: '0', schedule, duration: '1h' })))
+        .toEqual([`spec.disruption.budgets[0].schedule: '${schedule}' ${problem}`]);
+    });
+
+    test('rejects more than 50 budgets', () => {
+      expect(validateNodePool(budgets(...Array.from({ length: 51 }, () => ({ nodes: '1' })))))
+        .toEqual(['spec.disruption.budgets: allows at most 50 budgets, got 51']);
+    });
+  });
+});
+
+describe('validateEc2NodeClass', () => {
+  test('accepts a valid EC2NodeClass', () => {
+    expect(validateEc2NodeClass(nodeClass({
+      amiFamily: 'Bottlerocket',
+      blockDeviceMappings: [{ deviceName: '/dev/xvda', rootVolume: true, ebs: { volumeSize: '20Gi', volumeType: 'gp3', iops: 3000, throughput: 125 } }],
+    }))).toEqual([]);
+  });
+
+  test.each<[string, Record<string, unknown>, string]>([
+    ['no AMI selector terms', { amiSelectorTerms: [] }, "spec.amiSelectorTerms: is required in v1, e.g. [{ alias: 'bottlerocket@latest' }]"],
+    ['an alias combined with other terms', { amiSelectorTerms: [{ alias: 'al2023@latest' }, { id: 'ami-123' }] }, 'spec.amiSelectorTerms[0]: an alias cannot be combined with other fields or terms'],
+    ['a malformed alias', { amiSelectorTerms: [{ alias: 'bottlerocket' }] }, "spec.amiSelectorTerms[0].alias: 'bottlerocket' is not <family>@latest or <family>@<version>"],
+    ['an alias of another family', { amiFamily: 'AL2023', amiSelectorTerms: [{ alias: 'bottlerocket@latest' }] }, "spec.amiSelectorTerms[0].alias: 'bottlerocket@latest' does not match amiFamily AL2023"],
+    ['AMI ids without a family', { amiSelectorTerms: [{ id: 'ami-0123456789' }] }, 'spec.amiFamily: is required unless an AMI alias is used'],
+    ['no subnet selector terms', { subnetSelectorTerms: undefined }, 'spec.subnetSelectorTerms: is required'],
+    ['a malformed security group id', { securityGroupSelectorTerms: [{ id: 'subnet-123' }] }, "spec.securityGroupSelectorTerms[0].id: 'subnet-123' does not match"],
+    ['both a role and an instance profile', { instanceProfile: 'KarpenterNodeProfile' }, 'spec.role: exactly one of role and instanceProfile is required'],
+    ['a restricted tag', { tags: { 'karpenter.sh/nodepool': 'default' } }, 'spec.tags.karpenter.sh/nodepool: is set by Karpenter and restricted in v1'],
+    ['throughput on gp2', { blockDeviceMappings: [{ ebs: { volumeType: 'gp2', throughput: 125 } }] }, 'spec.blockDeviceMappings[0].ebs.throughput: only applies to gp3 volumes'],
+    ['two root volumes', { blockDeviceMappings: [{ rootVolume: true, ebs: {} }, { rootVolume: true, ebs: {} }] }, 'spec.blockDeviceMappings: at most one mapping can be the root volume'],
+  ])('rejects %s', (_, spec, message) => {
+    expect(validateEc2NodeClass(nodeClass(spec))).toContainEqual(expect.stringContaining(message));
+  });
+});
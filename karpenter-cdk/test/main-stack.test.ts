@@ -0,0 +1,108 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { DEFAULT_CONFIG_FILE, loadEnvironments, parseEnvironment } from '../lib/environment-config';
+import { MainStack } from '../lib/main-stack';
+
+/**
+ * Kubernetes object applied by a manifest
+ */
+interface KubernetesObject {
+  kind: string;
+  metadata: { name: string };
+  spec: { template: { spec: Record<string, unknown> } };
+}
+
+/**
+ * Returns a Kubernetes object applied by the template, skipping manifests that reference CloudFormation values
+ */
+function kubernetesObject(template: Template, kind: string, name: string): KubernetesObject | undefined {
+  return Object.values(template.findResources('Custom::AWSCDK-EKS-KubernetesResource'))
+    .flatMap((resource): KubernetesObject[] => typeof resource.Properties.Manifest === 'string' ? JSON.parse(resource.Properties.Manifest) : [])
+    .find(object => object.kind === kind && object.metadata.name === name);
+}
+
+const environments = loadEnvironments(new cdk.App({ context: { configFile: DEFAULT_CONFIG_FILE } }));
+
+describe.each(environments.map(config => [config.name, config] as const))('MainStack for %s', (_, config) => {
+  let template: Template;
+
+  beforeAll(() => {
+    const app = new cdk.App();
+    const stack = new MainStack(app, config.stackName, {
+      env: { account: config.account ?? '111111111111', region: config.region ?? 'us-west-2' },
+      config,
+    });
+    template = Template.fromStack(stack);
+  }, 120_000);
+
+  test('creates the cluster with the configured name and version', () => {
+    template.hasResourceProperties('Custom::AWSCDK-EKS-Cluster', {
+      Config: Match.objectLike({
+        name: config.clusterName,
+        version: config.kubernetesVersion,
+      }),
+    });
+  });
+
+  test('creates the interruption queue with a dead-letter queue', () => {
+    template.resourceCountIs('AWS::SQS::Queue', 2);
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      MessageRetentionPeriod: 300,
+      RedrivePolicy: Match.objectLike({ maxReceiveCount: Match.anyValue() }),
+    });
+  });
+
+  test('installs the Karpenter controller chart', () => {
+    template.hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'karpenter',
+      Release: 'karpenter',
+    });
+  });
+
+  test('deploys the example workload after the Karpenter chart', () => {
+    const [chartId] = Object.keys(template.findResources('Custom::AWSCDK-EKS-HelmChart', { Properties: { Chart: 'karpenter' } }));
+    template.hasResource('Custom::AWSCDK-EKS-KubernetesResource', {
+      Properties: { Manifest: Match.serializedJson([Match.objectLike({ kind: 'Deployment', metadata: Match.objectLike({ name: 'example-workload' }) })]) },
+      DependsOn: Match.arrayWith([chartId]),
+    });
+  });
+
+  test('expires runner nodes daily and gives running jobs six hours to finish', () => {
+    expect(kubernetesObject(template, 'NodePool', 'github-runners')?.spec.template.spec).toMatchObject({
+      expireAfter: '24h',
+      terminationGracePeriod: '6h',
+    });
+  });
+
+  test('tags the node subnets for Karpenter discovery', () => {
+    template.hasResourceProperties('AWS::EC2::Subnet', {
+      Tags: Match.arrayWith([{ Key: 'karpenter.sh/discovery', Value: config.clusterName }]),
+    });
+  });
+});
+
+describe('MainStack in private mode', () => {
+  test('launches Karpenter nodes with the node instance profile', () => {
+    const config = parseEnvironment('private', {
+      stackName: 'KarpenterEksStack-private',
+      clusterName: 'karpenter-private',
+      kubernetesVersion: '1.30',
+      network: { vpcCidr: '10.3.0.0/16', maxAzs: 2, natGateways: 1, private: true },
+      registryMirrors: { pullThroughCache: [{ upstream: 'ecr-public' }] },
+      tags: {},
+    });
+    const stack = new MainStack(new cdk.App(), config.stackName, { env: { account: '111111111111', region: 'us-west-2' }, config });
+
+    const template = Template.fromStack(stack);
+    const [profileId] = Object.keys(template.findResources('AWS::IAM::InstanceProfile'));
+    const nodeClasses = template.findResources('Custom::AWSCDK-EKS-KubernetesResource', {
+      Properties: { Manifest: { 'Fn::Join': ['', Match.arrayWith([Match.stringLikeRegexp('"kind":"EC2NodeClass"')])] } },
+    });
+    expect(Object.keys(nodeClasses)).toHaveLength(2);
+    for (const nodeClass of Object.values(nodeClasses)) {
+      const [, parts] = nodeClass.Properties.Manifest['Fn::Join'];
+      expect(parts).toContainEqual({ Ref: profileId });
+      expect(JSON.stringify(parts)).not.toContain('"role\\\\":');
+    }
+  }, 120_000);
+});
@@ -0,0 +1,132 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { addManagedAddons, managedAddon, managedAddonRole, ManagedAddonsProps } from '../lib/managed-addons';
+import { CredentialMode } from '../lib/workload-identity';
+
+function importCluster() {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  return eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc',
+      'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE'),
+  });
+}
+
+function install(props: Partial<ManagedAddonsProps> = {}) {
+  const cluster = importCluster();
+  return { cluster, addons: addManagedAddons(cluster, { kubernetesVersion: '1.30', ...props }) };
+}
+
+describe('addManagedAddons', () => {
+  test.each(['1.28', '1.29', '1.30', '1.31'])('pins every add-on for Kubernetes %s', kubernetesVersion => {
+    const { addons } = install({ kubernetesVersion });
+
+    expect(Object.keys(addons)).toEqual([
+      'vpc-cni', 'coredns', 'kube-proxy', 'aws-ebs-csi-driver', 'eks-pod-identity-agent', 'metrics-server',
+    ]);
+    for (const addon of Object.values(addons)) {
+      expect(addon!.addonVersion).toMatch(/^v\d+\.\d+\.\d+-eksbuild\.\d+$/);
+    }
+  });
+
+  test('installs the newest version pinned for the Kubernetes version', () => {
+    const { addons } = install();
+
+    expect(addons['kube-proxy']!.addonVersion).toBe('v1.30.6-eksbuild.3');
+    expect(addons['vpc-cni']!.addonVersion).toBe('v1.19.0-eksbuild.1');
+  });
+
+  test('moves every add-on to the new entry when the cluster is upgraded', () => {
+    const before = install({ kubernetesVersion: '1.30' }).addons;
+    const after = install({ kubernetesVersion: '1.31' }).addons;
+
+    expect(after['kube-proxy']!.addonVersion).not.toBe(before['kube-proxy']!.addonVersion);
+    expect(after['kube-proxy']!.addonVersion).toMatch(/^v1\.31\./);
+  });
+
+  test('pins the other add-ons per Kubernetes version too', () => {
+    const older = install({ kubernetesVersion: '1.28' }).addons;
+    const newer = install({ kubernetesVersion: '1.31' }).addons;
+
+    expect(older['vpc-cni']!.addonVersion).toBe('v1.18.5-eksbuild.1');
+    expect(newer['vpc-cni']!.addonVersion).toBe('v1.19.2-eksbuild.1');
+    expect(older['aws-ebs-csi-driver']!.addonVersion).toBe('v1.35.0-eksbuild.1');
+    expect(newer['aws-ebs-csi-driver']!.addonVersion).toBe('v1.38.1-eksbuild.1');
+  });
+
+  test('accepts an older pinned version', () => {
+    const { addons } = install({ addons: { 'kube-proxy': { version: 'v1.30.3-eksbuild.9' } } });
+
+    expect(addons['kube-proxy']!.addonVersion).toBe('v1.30.3-eksbuild.9');
+  });
+
+  test('rejects a version that is not pinned for the Kubernetes version', () => {
+    expect(() => install({ kubernetesVersion: '1.31', addons: { 'kube-proxy': { version: 'v1.30.6-eksbuild.3' } } }))
+      .toThrow('Test/Cluster: kube-proxy v1.30.6-eksbuild.3 is not pinned for Kubernetes 1.31; use one of v1.31.2-eksbuild.3');
+  });
+
+  test('rejects a Kubernetes version without pinned add-ons', () => {
+    expect(() => install({ kubernetesVersion: '1.27' }))
+      .toThrow('Test/Cluster: no managed add-on versions are pinned for Kubernetes 1.27; supported: 1.28, 1.29, 1.30, 1.31');
+  });
+
+  test('rejects a second installation on the same cluster', () => {
+    const { cluster } = install();
+
+    expect(() => addManagedAddons(cluster, { kubernetesVersion: '1.30' })).toThrow('Test/Cluster: managed add-ons are already installed');
+  });
+
+  test('skips disabled add-ons', () => {
+    const { cluster, addons } = install({ addons: { 'metrics-server': { enabled: false } } });
+
+    expect(addons['metrics-server']).toBeUndefined();
+    expect(managedAddon(cluster, 'metrics-server')).toBeUndefined();
+    expect(managedAddon(cluster, 'coredns')).toBe(addons.coredns);
+  });
+
+  test('merges configuration values over the defaults', () => {
+    const { addons } = install({ addons: { 'metrics-server': { configurationValues: { replicas: 2 } } } });
+
+    expect(JSON.parse(addons['metrics-server']!.configurationValues!)).toEqual({
+      tolerations: [{ key: 'CriticalAddonsOnly', operator: 'Exists' }],
+      replicas: 2,
+    });
+    expect(addons.coredns!.configurationValues).toBeUndefined();
+  });
+
+  test('gives add-ons calling AWS APIs an IRSA role', () => {
+    const { cluster } = install();
+
+    const template = Template.fromStack(cdk.Stack.of(cluster));
+    template.hasResourceProperties('AWS::EKS::Addon', {
+      AddonName: 'aws-ebs-csi-driver',
+      ServiceAccountRoleArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^ClusterEbsCsiDriverRole'), 'Arn'] },
+    });
+    template.hasResourceProperties('AWS::EKS::Addon', { AddonName: 'coredns', ServiceAccountRoleArn: Match.absent() });
+    expect(managedAddonRole(cluster, 'aws-ebs-csi-driver')).toBeDefined();
+    expect(managedAddonRole(cluster, 'coredns')).toBeUndefined();
+  });
+
+  test('associates the roles through Pod Identity after the agent', () => {
+    const { cluster } = install({ credentialMode: CredentialMode.POD_IDENTITY });
+
+    Template.fromStack(cdk.Stack.of(cluster)).hasResource('AWS::EKS::Addon', {
+      Properties: {
+        AddonName: 'vpc-cni',
+        ServiceAccountRoleArn: Match.absent(),
+        PodIdentityAssociations: [{
+          ServiceAccount: 'aws-node',
+          RoleArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^ClusterVpcCniRole'), 'Arn'] },
+        }],
+      },
+      DependsOn: Match.arrayWith([Match.stringLikeRegexp('^ClusterPodIdentityAgent')]),
+    });
+  });
+
+  test('requires the Pod Identity agent for Pod Identity', () => {
+    expect(() => install({ credentialMode: CredentialMode.POD_IDENTITY, addons: { 'eks-pod-identity-agent': { enabled: false } } }))
+      .toThrow('Test/Cluster: pod-identity requires the eks-pod-identity-agent add-on');
+  });
+});
@@ -0,0 +1,147 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import { Construct } from 'constructs';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+import { KarpenterNodePool } from '../lib/karpenter-node-pool';
+import { NexusRepository, NexusRepositoryProps } from '../lib/nexus-repository';
+
+function createNexus(props: Partial<NexusRepositoryProps> = {}) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc',
+      'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE'),
+  });
+  const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+    cluster,
+    karpenterInstallation: new Construct(stack, 'Karpenter'),
+    nodeClassName: 'default',
+    role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+  });
+  const nodePool = new KarpenterNodePool(stack, 'Pool', {
+    nodeClass,
+    nodePoolName: 'nexus',
+    requirements: [],
+    taints: [{ key: 'dedicated', value: 'nexus', effect: 'NoSchedule' }],
+  });
+  new NexusRepository(stack, 'Nexus', { cluster, nodePool, ...props });
+  return stack;
+}
+
+/**
+ * Kubernetes object of the Nexus manifest
+ */
+interface NexusObject {
+  kind: string;
+  metadata: { name: string; namespace?: string };
+  spec?: Record<string, unknown>;
+}
+
+/**
+ * Returns the objects of the Nexus manifest by kind
+ */
+function nexusObjects(stack: cdk.Stack): Record<string, NexusObject> {
+  const manifests = Template.fromStack(stack).findResources('Custom::AWSCDK-EKS-KubernetesResource', {
+    DependsOn: Match.arrayWith([Match.stringLikeRegexp('^Pool')]),
+  });
+  const objects: NexusObject[] = Object.values(manifests).flatMap(resource => JSON.parse(resource.Properties.Manifest));
+  return Object.fromEntries(objects.map(object => [object.kind, object]));
+}
+
+describe('NexusRepository', () => {
+  test('creates a retained, encrypted blob store bucket the service account can use', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Keys');
+    const template = Template.fromStack(createNexus({ encryptionKey: kms.Key.fromKeyArn(stack, 'Key',
+      'arn:aws:kms:us-west-2:111111111111:key/11111111-2222-3333-4444-555555555555') }));
+
+    template.hasResource('AWS::S3::Bucket', {
+      Properties: {
+        BucketEncryption: {
+          ServerSideEncryptionConfiguration: [{
+            BucketKeyEnabled: true,
+            ServerSideEncryptionByDefault: Match.objectLike({ SSEAlgorithm: 'aws:kms' }),
+          }],
+        },
+        PublicAccessBlockConfiguration: Match.objectLike({ BlockPublicAcls: true, RestrictPublicBuckets: true }),
+      },
+      DeletionPolicy: 'Retain',
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: ['s3:GetLifecycleConfiguration', 's3:PutLifecycleConfiguration'] }),
+          Match.objectLike({ Action: 's3:DeleteObject*' }),
+        ]),
+      },
+    });
+    template.hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: Match.serializedJson([Match.objectLike({
+        kind: 'Namespace',
+        metadata: { name: 'nexusrepo', labels: Match.objectLike({ 'pod-security.kubernetes.io/enforce': 'restricted' }) },
+      })]),
+    });
+  });
+
+  test('runs one hardened replica on the dedicated NodePool', () => {
+    const { StatefulSet: statefulSet } = nexusObjects(createNexus());
+
+    expect(statefulSet.spec).toMatchObject({
+      replicas: 1,
+      template: {
+        spec: {
+          serviceAccountName: 'nexus-sa',
+          securityContext: { runAsNonRoot: true, runAsUser: 200 },
+          nodeSelector: { 'karpenter.sh/nodepool': 'nexus' },
+          tolerations: [{ key: 'dedicated', operator: 'Equal', value: 'nexus', effect: 'NoSchedule' }],
+          containers: [{
+            image: 'sonatype/nexus3:3.70.0',
+            securityContext: { allowPrivilegeEscalation: false, capabilities: { drop: ['ALL'] } },
+            env: [{ name: 'INSTALL4J_ADD_VM_PARAMS', value: expect.stringMatching(/^-Xms2703m -Xmx2703m -XX:MaxDirectMemorySize=2703m /) }],
+          }],
+        },
+      },
+      volumeClaimTemplates: [{ spec: { storageClassName: 'gp3', resources: { requests: { storage: '100Gi' } } } }],
+    });
+  });
+
+  test('admits the ingress controller and client namespaces only', () => {
+    const { NetworkPolicy: policy, Ingress: ingress } = nexusObjects(createNexus({
+      clientNamespaces: ['arc-runners'],
+      ingressHost: 'nexus.example.com',
+      clusterIssuer: 'letsencrypt',
+    }));
+
+    expect(policy.spec).toMatchObject({
+      policyTypes: ['Ingress', 'Egress'],
+      ingress: [{
+        from: [
+          { namespaceSelector: { matchLabels: { 'kubernetes.io/metadata.name': 'ingress-nginx' } } },
+          { namespaceSelector: { matchLabels: { 'access-nexus': 'true' } } },
+          { namespaceSelector: { matchLabels: { 'kubernetes.io/metadata.name': 'arc-runners' } } },
+          { podSelector: {} },
+        ],
+        ports: [{ protocol: 'TCP', port: 8081 }],
+      }],
+    });
+    expect(ingress).toMatchObject({
+      metadata: { name: 'nexus', namespace: 'nexusrepo' },
+      spec: { ingressClassName: 'nginx', tls: [{ hosts: ['nexus.example.com'], secretName: 'nexus-tls' }] },
+    });
+  });
+
+  test('creates no ingress without a host', () => {
+    expect(nexusObjects(createNexus())).not.toHaveProperty('Ingress');
+  });
+
+  test.each<[string, Partial<NexusRepositoryProps>, string]>([
+    ['an invalid client namespace', { clientNamespaces: ['Builds'] }, "'Builds' is not a valid Kubernetes object name"],
+    ['resources without memory', { resources: { requests: { cpu: '2' } } }, 'resources must set a memory request or limit to size the JVM'],
+    ['requests above the quota', { resources: { requests: { cpu: '16', memory: '4Gi' } } }, 'the cpu request 16 exceeds the namespace quota of 8'],
+  ])('rejects %s', (_, props, message) => {
+    expect(() => createNexus(props)).toThrow(`Test/Nexus: ${message}`);
+  });
+});
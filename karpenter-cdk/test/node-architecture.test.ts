@@ -0,0 +1,97 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { Construct } from 'constructs';
+import { Ec2NodeClass } from '../lib/ec2-node-class';
+import { GitHubRunnerScaleSet } from '../lib/github-runner-scale-set';
+import { InstanceRequirements } from '../lib/instance-requirements';
+import { KarpenterNodePool } from '../lib/karpenter-node-pool';
+import { instanceTypeArchitecture, NodeArchitecture } from '../lib/node-architecture';
+
+function createNodePool(architectures: NodeArchitecture[]) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+  });
+  const nodeClass = new Ec2NodeClass(stack, 'NodeClass', {
+    cluster,
+    karpenterInstallation: new Construct(stack, 'Karpenter'),
+    nodeClassName: 'default',
+    role: iam.Role.fromRoleArn(stack, 'NodeRole', 'arn:aws:iam::111111111111:role/node'),
+  });
+  const nodePool = new KarpenterNodePool(stack, 'Pool', {
+    nodeClass,
+    nodePoolName: 'github-runners',
+    requirements: new InstanceRequirements({ architectures, categories: ['general'] }).render(),
+  });
+  return { stack, cluster, nodePool };
+}
+
+describe('instanceTypeArchitecture', () => {
+  test.each([
+    ['m5.large', 'amd64'],
+    ['m7i.xlarge', 'amd64'],
+    ['m7g.large', 'arm64'],
+    ['c6gn.xlarge', 'arm64'],
+    ['g5.xlarge', 'amd64'],
+  ])('maps %s to %s', (instanceType, architecture) => {
+    expect(instanceTypeArchitecture(instanceType)).toBe(architecture);
+  });
+});
+
+describe('mixed-architecture NodePools', () => {
+  test('resolve the AMI for each architecture', () => {
+    const { stack } = createNodePool(['amd64', 'arm64']);
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-KubernetesResource', {
+      Manifest: Match.serializedJson([Match.objectLike({
+        kind: 'EC2NodeClass',
+        spec: Match.objectLike({ amiSelectorTerms: [{ alias: 'bottlerocket@latest' }] }),
+      })]),
+    });
+  });
+
+  test('schedule each runner scale set onto its architecture', () => {
+    const { stack, cluster, nodePool } = createNodePool(['amd64', 'arm64']);
+    new GitHubRunnerScaleSet(stack, 'Runners', {
+      cluster,
+      nodePools: [nodePool],
+      githubUrl: 'https://github.example.com',
+      organization: 'platform',
+      githubConfigSecret: 'github-config',
+      scaleSets: [{ name: 'linux', labels: ['linux'] }, { name: 'linux-arm64', architecture: 'arm64' }],
+    });
+
+    const template = Template.fromStack(stack);
+    expect(nodePool.architectures).toEqual(['amd64', 'arm64']);
+    template.hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Release: 'linux',
+      Values: Match.serializedJson(Match.objectLike({
+        scaleSetLabels: ['linux', 'X64'],
+        template: Match.objectLike({ spec: Match.objectLike({ nodeSelector: { 'kubernetes.io/arch': 'amd64' } }) }),
+      })),
+    });
+    template.hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Release: 'linux-arm64',
+      Values: Match.serializedJson(Match.objectLike({
+        scaleSetLabels: ['ARM64'],
+        template: Match.objectLike({ spec: Match.objectLike({ nodeSelector: { 'kubernetes.io/arch': 'arm64' } }) }),
+      })),
+    });
+  });
+
+  test('reject runners of an architecture the NodePool does not launch', () => {
+    const { stack, cluster, nodePool } = createNodePool(['amd64']);
+
+    expect(() => new GitHubRunnerScaleSet(stack, 'Runners', {
+      cluster,
+      nodePools: [nodePool],
+      githubUrl: 'https://github.example.com',
+      organization: 'platform',
+      githubConfigSecret: 'github-config',
+      scaleSets: [{ name: 'linux-arm64', architecture: 'arm64' }],
+    })).toThrow("Test/Runners: scale set 'linux-arm64' needs arm64 nodes, which NodePool 'github-runners' does not launch");
+  });
+});
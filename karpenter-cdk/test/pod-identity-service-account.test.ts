@@ -0,0 +1,86 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { IrsaServiceAccount } from '../lib/irsa-service-account';
+import { addManagedAddons } from '../lib/managed-addons';
+import { PodIdentityServiceAccount } from '../lib/pod-identity-service-account';
+import { createWorkloadIdentity, CredentialMode } from '../lib/workload-identity';
+
+function importCluster() {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+    clusterName: 'test',
+    kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    openIdConnectProvider: iam.OpenIdConnectProvider.fromOpenIdConnectProviderArn(stack, 'Oidc',
+      'arn:aws:iam::111111111111:oidc-provider/oidc.eks.us-west-2.amazonaws.com/id/EXAMPLE'),
+  });
+  addManagedAddons(cluster, { kubernetesVersion: '1.30', credentialMode: CredentialMode.POD_IDENTITY });
+  return { stack, cluster };
+}
+
+describe('PodIdentityServiceAccount', () => {
+  test('associates the service account with a role trusted by Pod Identity', () => {
+    const { stack, cluster } = importCluster();
+    new PodIdentityServiceAccount(stack, 'App', { cluster, namespace: 'apps', serviceAccountName: 'app' });
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::IAM::Role', {
+      AssumeRolePolicyDocument: {
+        Statement: [{
+          Action: ['sts:AssumeRole', 'sts:TagSession'],
+          Effect: 'Allow',
+          Principal: { Service: 'pods.eks.amazonaws.com' },
+        }],
+      },
+    });
+    template.hasResource('AWS::EKS::PodIdentityAssociation', {
+      Properties: {
+        ClusterName: 'test',
+        Namespace: 'apps',
+        ServiceAccount: 'app',
+        RoleArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^AppRole'), 'Arn'] },
+      },
+      DependsOn: [Match.stringLikeRegexp('^ClusterPodIdentityAgent')],
+    });
+  });
+
+  test('requires the Pod Identity Agent add-on', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+    const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+      clusterName: 'test',
+      kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    });
+
+    expect(() => new PodIdentityServiceAccount(stack, 'App', { cluster, namespace: 'apps', serviceAccountName: 'app' }))
+      .toThrow('Test/App: the cluster has no eks-pod-identity-agent add-on; install it with addManagedAddons first');
+  });
+
+  test('associates an existing role without creating one', () => {
+    const { stack, cluster } = importCluster();
+    const role = iam.Role.fromRoleArn(stack, 'Shared', 'arn:aws:iam::111111111111:role/shared');
+    new PodIdentityServiceAccount(stack, 'App', { cluster, namespace: 'apps', serviceAccountName: 'app', role });
+
+    const template = Template.fromStack(stack);
+    expect(stack.node.findChild('App').node.tryFindChild('Role')).toBeUndefined();
+    template.hasResourceProperties('AWS::EKS::PodIdentityAssociation', { RoleArn: 'arn:aws:iam::111111111111:role/shared' });
+  });
+});
+
+describe('createWorkloadIdentity', () => {
+  test('creates the construct of the credential mode', () => {
+    const { stack, cluster } = importCluster();
+    const props = { cluster, namespace: 'apps', serviceAccountName: 'app' };
+
+    expect(createWorkloadIdentity(stack, 'Irsa', CredentialMode.IRSA, props)).toBeInstanceOf(IrsaServiceAccount);
+    expect(createWorkloadIdentity(stack, 'PodIdentity', CredentialMode.POD_IDENTITY, props)).toBeInstanceOf(PodIdentityServiceAccount);
+  });
+
+  test('rejects an existing role with IRSA', () => {
+    const { stack, cluster } = importCluster();
+    const role = iam.Role.fromRoleArn(stack, 'Shared', 'arn:aws:iam::111111111111:role/shared');
+
+    expect(() => createWorkloadIdentity(stack, 'App', CredentialMode.IRSA, { cluster, namespace: 'apps', serviceAccountName: 'app', role }))
+      .toThrow('Test/App: an existing role can only be reused with pod-identity');
+  });
+});
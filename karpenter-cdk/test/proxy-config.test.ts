@@ -0,0 +1,81 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as eks from 'aws-cdk-lib/aws-eks';
+import { KarpenterChart } from '../lib/karpenter-chart';
+import { defaultServiceCidr, proxyEnvironment, resolveProxy } from '../lib/proxy-config';
+
+const NETWORK = { vpcCidr: '10.0.0.0/16', serviceCidr: '172.20.0.0/16' };
+
+describe('resolveProxy', () => {
+  test('keeps cluster traffic off the proxy', () => {
+    const stack = new cdk.Stack();
+    const proxy = resolveProxy({ httpsProxy: 'http://proxy.example.com:3128', noProxy: ['.example.com'] }, NETWORK);
+
+    expect(proxy.httpsProxy).toBe('http://proxy.example.com:3128');
+    expect(stack.resolve(proxy.noProxy)).toEqual([
+      'localhost',
+      '127.0.0.1',
+      '169.254.169.254',
+      '10.0.0.0/16',
+      '172.20.0.0/16',
+      '.svc',
+      '.cluster.local',
+      '.internal',
+      { 'Fn::Join': ['', ['.eks.', { Ref: 'AWS::URLSuffix' }]] },
+      '.example.com',
+    ]);
+  });
+
+  test('lists each destination once', () => {
+    const proxy = resolveProxy({ httpsProxy: 'http://proxy.example.com:3128', noProxy: ['10.0.0.0/16', '.svc'] }, NETWORK);
+
+    expect(proxy.noProxy.filter(entry => entry === '10.0.0.0/16' || entry === '.svc')).toEqual(['10.0.0.0/16', '.svc']);
+  });
+});
+
+describe('defaultServiceCidr', () => {
+  test.each([
+    ['10.0.0.0/16', '172.20.0.0/16'],
+    ['192.168.0.0/16', '10.100.0.0/16'],
+  ])('picks the EKS default for a %s VPC', (vpcCidr, serviceCidr) => {
+    expect(defaultServiceCidr(vpcCidr)).toBe(serviceCidr);
+  });
+});
+
+describe('proxyEnvironment', () => {
+  test('sets the variables in both cases', () => {
+    expect(proxyEnvironment({ httpsProxy: 'http://proxy:3128', noProxy: ['localhost', '.svc'] })).toEqual({
+      HTTPS_PROXY: 'http://proxy:3128',
+      HTTP_PROXY: 'http://proxy:3128',
+      NO_PROXY: 'localhost,.svc',
+      https_proxy: 'http://proxy:3128',
+      http_proxy: 'http://proxy:3128',
+      no_proxy: 'localhost,.svc',
+    });
+  });
+
+  test('is passed to the Karpenter controller', () => {
+    const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+    const cluster = eks.Cluster.fromClusterAttributes(stack, 'Cluster', {
+      clusterName: 'test',
+      clusterEndpoint: 'https://test.eks.amazonaws.com',
+      kubectlRoleArn: 'arn:aws:iam::111111111111:role/kubectl',
+    });
+    new KarpenterChart(stack, 'Karpenter', {
+      cluster,
+      namespace: 'karpenter',
+      serviceAccountName: 'karpenter',
+      interruptionQueueName: 'test',
+      proxy: resolveProxy({ httpsProxy: 'http://proxy.example.com:3128' }, NETWORK),
+    });
+
+    Template.fromStack(stack).hasResourceProperties('Custom::AWSCDK-EKS-HelmChart', {
+      Chart: 'karpenter',
+      Values: {
+        'Fn::Join': ['', Match.arrayWith([
+          Match.stringLikeRegexp('"env":\\[\\{"name":"HTTPS_PROXY","value":"http://proxy\\.example\\.com:3128"\\}'),
+        ])],
+      },
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import { RegistryMirrors, RegistryMirrorsProps } from '../lib/registry-mirrors';
+
+const DOCKER_HUB_SECRET = 'arn:aws:secretsmanager:us-west-2:111111111111:secret:ecr-pullthroughcache/docker-hub-AbCdEf';
+
+function createMirrors(props?: RegistryMirrorsProps) {
+  const stack = new cdk.Stack(new cdk.App(), 'Test', { env: { account: '111111111111', region: 'us-west-2' } });
+  const mirrors = new RegistryMirrors(stack, 'Mirrors', props);
+  return { stack, mirrors };
+}
+
+describe('RegistryMirrors', () => {
+  test('mirrors Docker Hub through mirror.gcr.io by default', () => {
+    const { stack, mirrors } = createMirrors();
+
+    expect(mirrors.mirrors).toEqual([{ registry: 'docker.io', endpoints: ['https://mirror.gcr.io'] }]);
+    Template.fromStack(stack).resourceCountIs('AWS::ECR::PullThroughCacheRule', 0);
+  });
+
+  test('creates a cache rule per upstream and mirrors each registry through it', () => {
+    const { stack, mirrors } = createMirrors({
+      pullThroughCache: [
+        { upstream: 'docker-hub', credentialArn: DOCKER_HUB_SECRET },
+        { upstream: 'quay', repositoryPrefix: 'quay-cache' },
+      ],
+    });
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties('AWS::ECR::PullThroughCacheRule', {
+      EcrRepositoryPrefix: 'docker-hub',
+      UpstreamRegistry: 'docker-hub',
+      UpstreamRegistryUrl: 'registry-1.docker.io',
+      CredentialArn: DOCKER_HUB_SECRET,
+    });
+    template.hasResourceProperties('AWS::ECR::PullThroughCacheRule', {
+      EcrRepositoryPrefix: 'quay-cache',
+      UpstreamRegistry: 'quay',
+      CredentialArn: Match.absent(),
+    });
+
+    expect(mirrors.mirrors.map(mirror => [mirror.registry, stack.resolve(mirror.endpoints)])).toEqual([
+      ['docker.io', [{ 'Fn::Join': ['', ['https://111111111111.dkr.ecr.us-west-2.', { Ref: 'AWS::URLSuffix' }, '/v2/docker-hub']] }]],
+      ['quay.io', [{ 'Fn::Join': ['', ['https://111111111111.dkr.ecr.us-west-2.', { Ref: 'AWS::URLSuffix' }, '/v2/quay-cache']] }]],
+    ]);
+  });
+
+  test('names the cached location of each upstream registry', () => {
+    const { stack, mirrors } = createMirrors({ pullThroughCache: [{ upstream: 'quay', repositoryPrefix: 'quay-cache' }] });
+
+    expect(stack.resolve(mirrors.cachedRegistry('quay.io')))
+      .toEqual({ 'Fn::Join': ['', ['111111111111.dkr.ecr.us-west-2.', { Ref: 'AWS::URLSuffix' }, '/quay-cache']] });
+    expect(mirrors.cachedRegistry('ghcr.io')).toBeUndefined();
+  });
+
+  test('lets nodes populate the cached repositories', () => {
+    const { stack, mirrors } = createMirrors({ pullThroughCache: [{ upstream: 'ecr-public' }] });
+    const role = new iam.Role(stack, 'NodeRole', { assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com') });
+    mirrors.grantPull(role);
+
+    Template.fromStack(stack).hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: [Match.objectLike({
+          Action: ['ecr:BatchImportUpstreamImage', 'ecr:CreateRepository'],
+          Resource: { 'Fn::Join': ['', Match.arrayWith([':ecr:us-west-2:111111111111:repository/ecr-public/*'])] },
+        })],
+      },
+    });
+  });
+
+  test('grants nothing without cache rules', () => {
+    const { stack, mirrors } = createMirrors();
+
+    expect(mirrors.grantPull(new iam.Role(stack, 'NodeRole', { assumedBy: new iam.ServicePrincipal('ec2.amazonaws.com') })))
+      .toBeUndefined();
+  });
+
+  test.each<[string, RegistryMirrorsProps, string]>([
+    ['Docker Hub without credentials', { pullThroughCache: [{ upstream: 'docker-hub' }] }, 'the docker-hub pull-through cache requires credentialArn'],
+    [
+      'credentials outside the ecr-pullthroughcache/ prefix',
+      { pullThroughCache: [{ upstream: 'ghcr', credentialArn: 'arn:aws:secretsmanager:us-west-2:111111111111:secret:ghcr-AbCdEf' }] },
+      "ghcr credentials must be a secret named 'ecr-pullthroughcache/...'",
+    ],
+    [
+      'a registry with two mirrors',
+      { pullThroughCache: [{ upstream: 'quay' }], mirrors: [{ registry: 'quay.io', endpoints: ['https://quay.example.com'] }] },
+      "registry 'quay.io' has more than one mirror",
+    ],
+  ])('rejects %s', (_, props, message) => {
+    expect(() => createMirrors(props)).toThrow(`Test/Mirrors: ${message}`);
+  });
+});